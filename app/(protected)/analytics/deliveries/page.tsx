@@ -0,0 +1,184 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+type DeliveryStatus = "received" | "processed" | "ignored" | "failed";
+
+interface Delivery {
+  id: string;
+  deliveryId: string;
+  event: string;
+  action: string | null;
+  repositoryFullName: string | null;
+  status: DeliveryStatus;
+  responseStatus: number | null;
+  errorMessage: string | null;
+  processingAttempts: number;
+  duplicateCount: number;
+  receivedAt: string;
+  processedAt: string | null;
+  durationMs: number | null;
+  lastReplayedAt: string | null;
+}
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  received: "bg-blue-100 text-blue-700",
+  processed: "bg-green-100 text-green-700",
+  ignored: "bg-gray-100 text-gray-600",
+  failed: "bg-red-100 text-red-700",
+};
+
+export default function DeliveriesPage() {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<DeliveryStatus | "">("");
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(() => {
+    const params = new URLSearchParams({ limit: "100" });
+    if (statusFilter) params.set("status", statusFilter);
+
+    setLoading(true);
+    fetch(`/api/webhooks/deliveries?${params}`)
+      .then((r) => r.json())
+      .then((d) => {
+        if (d.error) throw new Error(d.error);
+        setDeliveries(d.deliveries);
+        setError(null);
+      })
+      .catch((e) => setError(e.message))
+      .finally(() => setLoading(false));
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const handleReplay = async (id: string) => {
+    setReplaying(id);
+    try {
+      const response = await fetch(`/api/webhooks/deliveries/${id}/replay`, {
+        method: "POST",
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Replay failed");
+
+      setDeliveries((prev) =>
+        prev.map((d) => (d.id === id ? { ...d, ...result.delivery } : d))
+      );
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "Replay failed");
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-end justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold">Webhook Deliveries</h1>
+          <p className="text-[var(--text)]/60 mt-1">
+            Every GitHub delivery we received, its outcome, and redeliveries we skipped
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as DeliveryStatus | "")}
+          className="px-4 py-2 border border-[var(--text)]/20 rounded-lg bg-white text-sm"
+        >
+          <option value="">All statuses</option>
+          <option value="processed">Processed</option>
+          <option value="failed">Failed</option>
+          <option value="ignored">Ignored</option>
+          <option value="received">In progress</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="p-6 bg-red-50 border border-red-200 rounded-xl text-red-700">
+          Failed to load deliveries: {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[300px]">
+          <div className="w-12 h-12 border-4 border-[var(--primary)] border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : deliveries.length === 0 ? (
+        <div className="bg-white rounded-xl border border-[var(--text)]/10 p-12 text-center">
+          <div className="text-4xl mb-4">📬</div>
+          <h3 className="text-lg font-semibold mb-2">No deliveries yet</h3>
+          <p className="text-[var(--text)]/60 text-sm">
+            Deliveries appear here as soon as GitHub sends events for your installations.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border border-[var(--text)]/10 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["Received", "Event", "Repository", "Status", "Duration", "Attempts", "Duplicates", ""].map((h) => (
+                    <th key={h} className="px-6 py-3 text-left font-medium text-[var(--text)]/60">
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--text)]/5">
+                {deliveries.map((d) => (
+                  <tr key={d.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div>{new Date(d.receivedAt).toLocaleString()}</div>
+                      <div className="text-xs font-mono text-[var(--text)]/40">{d.deliveryId}</div>
+                    </td>
+                    <td className="px-6 py-4 font-mono">
+                      {d.event}
+                      {d.action && <span className="text-[var(--text)]/50">.{d.action}</span>}
+                    </td>
+                    <td className="px-6 py-4">{d.repositoryFullName || "—"}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[d.status]}`}>
+                        {d.status}
+                        {d.responseStatus !== null && ` · ${d.responseStatus}`}
+                      </span>
+                      {d.errorMessage && (
+                        <div className="text-xs text-red-600 mt-1 max-w-xs truncate" title={d.errorMessage}>
+                          {d.errorMessage}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">{_ms(d.durationMs)}</td>
+                    <td className="px-6 py-4">{d.processingAttempts}</td>
+                    <td className="px-6 py-4">{d.duplicateCount}</td>
+                    <td className="px-6 py-4 text-right">
+                      <button
+                        onClick={() => handleReplay(d.id)}
+                        disabled={replaying !== null}
+                        className="px-3 py-1.5 text-xs font-medium border border-[var(--text)]/20 rounded-lg hover:bg-[var(--text)]/5 disabled:opacity-50"
+                      >
+                        {replaying === d.id ? "Replaying..." : "Replay"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Formatting helpers
+// ---------------------------------------------------------------------------
+
+function _ms(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+interface PrecisionItem {
+  key: string;
+  helpful: number;
+  notHelpful: number;
+  wrong: number;
+  rated: number;
+  precision: number | null;
+}
+
+interface FeedbackData {
+  overall: Omit<PrecisionItem, "key">;
+  byCategory: PrecisionItem[];
+  bySeverity: PrecisionItem[];
+  byModel: PrecisionItem[];
+  byRepository: PrecisionItem[];
+}
+
+function formatPrecision(precision: number | null): string {
+  return precision === null ? "—" : `${precision.toFixed(0)}%`;
+}
+
+function formatKey(key: string): string {
+  return key.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+}
+
+export default function FeedbackPage() {
+  const [data, setData] = useState<FeedbackData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  async function fetchData() {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/analytics/feedback");
+      const result = await response.json();
+      setData(result);
+    } catch (error) {
+      console.error("Failed to fetch feedback data:", error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="w-12 h-12 border-4 border-[var(--primary)] border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!data?.overall) {
+    return (
+      <div className="text-center py-12 text-[var(--text)]/60">
+        No feedback data available
+      </div>
+    );
+  }
+
+  const sections: Array<{ title: string; items: PrecisionItem[]; format: (key: string) => string }> = [
+    { title: "By Category", items: data.byCategory, format: formatKey },
+    { title: "By Severity", items: data.bySeverity, format: formatKey },
+    { title: "By Model", items: data.byModel, format: (key) => key },
+    { title: "By Repository", items: data.byRepository, format: (key) => key },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Feedback & Precision</h1>
+        <p className="text-[var(--text)]/60 mt-1">
+          How often developers found GraphBug&apos;s comments helpful, from 👍/👎 reactions on GitHub and dashboard votes
+        </p>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="bg-white rounded-xl p-6 border border-[var(--text)]/10">
+          <div className="text-sm text-[var(--text)]/60 mb-2">Precision</div>
+          <div className="text-3xl font-bold">{formatPrecision(data.overall.precision)}</div>
+        </div>
+        <div className="bg-white rounded-xl p-6 border border-[var(--text)]/10">
+          <div className="text-sm text-[var(--text)]/60 mb-2">Helpful</div>
+          <div className="text-3xl font-bold">{data.overall.helpful}</div>
+        </div>
+        <div className="bg-white rounded-xl p-6 border border-[var(--text)]/10">
+          <div className="text-sm text-[var(--text)]/60 mb-2">Not Helpful</div>
+          <div className="text-3xl font-bold">{data.overall.notHelpful}</div>
+        </div>
+        <div className="bg-white rounded-xl p-6 border border-[var(--text)]/10">
+          <div className="text-sm text-[var(--text)]/60 mb-2">Wrong</div>
+          <div className="text-3xl font-bold">{data.overall.wrong}</div>
+        </div>
+      </div>
+
+      {/* Breakdowns */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {sections.map((section) => (
+          <div key={section.title} className="bg-white rounded-xl border border-[var(--text)]/10 overflow-hidden">
+            <div className="p-6 border-b border-[var(--text)]/10">
+              <h2 className="text-xl font-semibold">{section.title}</h2>
+            </div>
+            {section.items.length > 0 ? (
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rated</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">👍</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">👎</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Wrong</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Precision</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {section.items.map((item) => (
+                    <tr key={item.key} className="hover:bg-gray-50">
+                      <td className="px-6 py-3 text-sm font-medium truncate max-w-[200px]">{section.format(item.key)}</td>
+                      <td className="px-6 py-3 text-sm text-right">{item.rated}</td>
+                      <td className="px-6 py-3 text-sm text-right">{item.helpful}</td>
+                      <td className="px-6 py-3 text-sm text-right">{item.notHelpful}</td>
+                      <td className="px-6 py-3 text-sm text-right">{item.wrong}</td>
+                      <td className="px-6 py-3 text-sm text-right font-semibold">{formatPrecision(item.precision)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-center py-12 text-[var(--text)]/60">
+                No ratings yet
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -135,6 +135,15 @@ export default function AnalyticsPage() {
           color="from-orange-500 to-orange-600"
         />
 
+        {/* Feedback Section */}
+        <AnalyticsCard
+          title="Feedback & Precision"
+          description="Developer ratings of comments by category, severity, model, and repo"
+          icon="👍"
+          href="/analytics/feedback"
+          color="from-pink-500 to-pink-600"
+        />
+
         {/* Observability Section */}
         <AnalyticsCard
           title="Observability"
@@ -143,6 +152,15 @@ export default function AnalyticsPage() {
           href="/analytics/observability"
           color="from-teal-500 to-teal-600"
         />
+
+        {/* Webhook Deliveries Section */}
+        <AnalyticsCard
+          title="Webhook Deliveries"
+          description="Inspect GitHub deliveries, outcomes, and replay failures"
+          icon="📬"
+          href="/analytics/deliveries"
+          color="from-slate-500 to-slate-600"
+        />
       </div>
 
       {/* Repository Quick Access */}
@@ -20,6 +20,7 @@ interface RepositoryInsights {
   };
   hotFiles: Array<{
     filePath: string;
+    language: string;
     reviewCount: number;
     issueCount: number;
     avgSeverity: number;
@@ -33,8 +34,16 @@ interface RepositoryInsights {
   issuePatterns: {
     byCategory: Array<{ category: string; count: number; percentage: number }>;
     bySeverity: Array<{ severity: string; count: number; percentage: number }>;
+    byLanguage: Array<{ language: string; count: number; percentage: number }>;
     commonIssues: Array<{ title: string; count: number }>;
   };
+  resolution: {
+    postedFindings: number;
+    resolvedFindings: number;
+    resolutionRate: number;
+    avgHoursToResolve: number;
+    bySeverity: Array<{ severity: string; posted: number; resolved: number; resolutionRate: number }>;
+  };
 }
 
 const SEVERITY_COLORS: Record<string, string> = {
@@ -258,6 +267,7 @@ export default function RepositoryInsightsPage() {
                       <div className="font-mono text-sm truncate max-w-md">
                         {file.filePath}
                       </div>
+                      <div className="text-xs text-[var(--text)]/60">{file.language}</div>
                     </td>
                     <td className="px-6 py-4">{file.reviewCount}</td>
                     <td className="px-6 py-4">
@@ -298,6 +308,56 @@ export default function RepositoryInsightsPage() {
         )}
       </div>
 
+      {/* Comment Resolution */}
+      <div className="bg-white rounded-xl p-6 border border-[var(--text)]/10">
+        <h2 className="text-xl font-semibold mb-4">Comment Resolution</h2>
+        {data.resolution.postedFindings > 0 ? (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <div className="text-sm text-[var(--text)]/60 mb-1">Resolution Rate</div>
+                <div className="text-2xl font-bold">{data.resolution.resolutionRate.toFixed(0)}%</div>
+              </div>
+              <div>
+                <div className="text-sm text-[var(--text)]/60 mb-1">Resolved Threads</div>
+                <div className="text-2xl font-bold">
+                  {data.resolution.resolvedFindings} / {data.resolution.postedFindings}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-[var(--text)]/60 mb-1">Avg Time to Resolve</div>
+                <div className="text-2xl font-bold">{data.resolution.avgHoursToResolve.toFixed(1)}h</div>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {data.resolution.bySeverity.map((item) => (
+                <div key={item.severity}>
+                  <div className="flex items-center justify-between mb-1 text-sm">
+                    <span className="font-medium capitalize">{item.severity}</span>
+                    <span className="text-[var(--text)]/60">
+                      {item.resolved} / {item.posted} ({item.resolutionRate.toFixed(0)}%)
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="h-2 rounded-full"
+                      style={{
+                        width: `${item.resolutionRate}%`,
+                        backgroundColor: SEVERITY_COLORS[item.severity] || "#6b7280",
+                      }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-12 text-[var(--text)]/60">
+            No comments posted to GitHub yet
+          </div>
+        )}
+      </div>
+
       {/* Common Issues */}
       {data.issuePatterns.commonIssues.length > 0 && (
         <div className="bg-white rounded-xl p-6 border border-[var(--text)]/10">
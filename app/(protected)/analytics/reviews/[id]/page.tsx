@@ -2,13 +2,29 @@
 
 import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { ArrowLeft, Clock, DollarSign, FileCode, GitBranch, AlertCircle, CheckCircle } from "lucide-react";
+import { ArrowLeft, Clock, DollarSign, FileCode, GitBranch, AlertCircle, CheckCircle, MessageSquare, RefreshCw, ThumbsUp, ThumbsDown, XCircle } from "lucide-react";
+
+type FeedbackRating = "helpful" | "not_helpful" | "wrong";
+
+interface CommentFeedback {
+  helpful: number;
+  notHelpful: number;
+  wrong: number;
+  mine: FeedbackRating | null;
+}
+
+const FEEDBACK_OPTIONS: Array<{ rating: FeedbackRating; label: string; count: keyof Omit<CommentFeedback, "mine"> }> = [
+  { rating: "helpful", label: "Helpful", count: "helpful" },
+  { rating: "not_helpful", label: "Not helpful", count: "notHelpful" },
+  { rating: "wrong", label: "Wrong", count: "wrong" },
+];
 
 interface ReviewDetails {
   review: {
     id: string;
     prNumber: number;
     prTitle: string;
+    repositoryId: string;
     repositoryName: string;
     repositoryFullName: string;
     author: string;
@@ -38,11 +54,25 @@ interface ReviewDetails {
     filePath: string;
     startLine: number | null;
     endLine: number | null;
+    placement: "line" | "file" | "summary" | null;
     severity: string;
     category: string;
     title: string;
     message: string;
     suggestion: string | null;
+    conversation: Array<{
+      id: string;
+      role: "user" | "assistant";
+      author: string;
+      body: string;
+      githubCommentUrl: string | null;
+      createdAt: string;
+    }>;
+    feedback: CommentFeedback;
+    suppressionId: string | null;
+    isPosted: boolean;
+    postAttempts: number;
+    postError: string | null;
   }>;
   prDetails: {
     htmlUrl: string;
@@ -59,6 +89,7 @@ export default function ReviewDetailPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [data, setData] = useState<ReviewDetails | null>(null);
+  const [retrying, setRetrying] = useState(false);
 
   useEffect(() => {
     async function fetchReview() {
@@ -81,6 +112,82 @@ export default function ReviewDetailPage() {
     }
   }, [params.id]);
 
+  // Clicking the current rating again clears it
+  async function rateComment(commentId: string, rating: FeedbackRating) {
+    const comment = data?.comments.find((c) => c.id === commentId);
+    if (!data || !comment) return;
+
+    const next = comment.feedback.mine === rating ? null : rating;
+    try {
+      const res = await fetch(`/api/analytics/reviews/${params.id}/feedback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ commentId, rating: next }),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to save feedback");
+      }
+    } catch (err) {
+      console.error("Failed to save feedback:", err);
+      return;
+    }
+
+    const feedback = { ...comment.feedback, mine: next };
+    const previous = FEEDBACK_OPTIONS.find((o) => o.rating === comment.feedback.mine);
+    const selected = FEEDBACK_OPTIONS.find((o) => o.rating === next);
+    if (previous) feedback[previous.count] -= 1;
+    if (selected) feedback[selected.count] += 1;
+
+    setData({
+      ...data,
+      comments: data.comments.map((c) => (c.id === commentId ? { ...c, feedback } : c)),
+    });
+  }
+
+  // Stop posting matching findings in this repository
+  async function dismissComment(commentId: string, reason: "wont_fix" | "false_positive") {
+    if (!data) return;
+
+    try {
+      const res = await fetch(`/api/repositories/${data.review.repositoryId}/suppressions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ commentId, reason }),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to dismiss finding");
+      }
+      const { suppression } = await res.json();
+      setData({
+        ...data,
+        comments: data.comments.map((c) => (c.id === commentId ? { ...c, suppressionId: suppression.id } : c)),
+      });
+    } catch (err) {
+      console.error("Failed to dismiss finding:", err);
+    }
+  }
+
+  // Send findings that failed to post back through the comment outbox
+  async function retryPosting() {
+    if (!data) return;
+
+    setRetrying(true);
+    try {
+      const res = await fetch(`/api/analytics/reviews/${params.id}/retry-posting`, { method: "POST" });
+      if (!res.ok) {
+        throw new Error("Failed to retry posting");
+      }
+      setData({
+        ...data,
+        comments: data.comments.map((c) => (c.isPosted ? c : { ...c, postAttempts: 0, postError: null })),
+      });
+    } catch (err) {
+      console.error("Failed to retry posting:", err);
+    } finally {
+      setRetrying(false);
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -311,9 +418,21 @@ export default function ReviewDetailPage() {
       {/* Review Comments */}
       {comments && comments.length > 0 && (
         <div className="bg-white p-6 rounded-lg border border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">
-            Review Comments ({comments.length})
-          </h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Review Comments ({comments.length})
+            </h2>
+            {comments.some((c) => !c.isPosted && c.postError) && (
+              <button
+                onClick={retryPosting}
+                disabled={retrying}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm rounded border border-gray-200 bg-white hover:border-[var(--primary)] disabled:opacity-50"
+              >
+                <RefreshCw className={`h-4 w-4 ${retrying ? "animate-spin" : ""}`} />
+                Retry posting
+              </button>
+            )}
+          </div>
           <div className="space-y-4">
             {comments.map((comment) => (
               <div
@@ -331,6 +450,8 @@ export default function ReviewDetailPage() {
                       {comment.startLine && comment.endLine && (
                         <> (Lines {comment.startLine}-{comment.endLine})</>
                       )}
+                      {comment.placement === "file" && <> · file-level comment</>}
+                      {comment.placement === "summary" && <> · in the summary</>}
                     </p>
                   </div>
                   <span className="px-2 py-1 text-xs font-medium rounded-full bg-white border">
@@ -338,12 +459,89 @@ export default function ReviewDetailPage() {
                   </span>
                 </div>
                 <p className="text-muted-foreground mb-2">{comment.message}</p>
+                {!comment.isPosted && comment.postError && (
+                  <p className="mb-2 text-xs text-red-700">
+                    Not posted to GitHub after {comment.postAttempts} attempt{comment.postAttempts === 1 ? "" : "s"}: {comment.postError}
+                  </p>
+                )}
                 {comment.suggestion && (
                   <div className="mt-3 p-3 bg-white rounded border border-gray-200">
                     <p className="text-sm font-medium text-foreground mb-1">Suggestion:</p>
                     <p className="text-sm text-muted-foreground">{comment.suggestion}</p>
                   </div>
                 )}
+                {comment.conversation?.length > 0 && (
+                  <div className="mt-3 p-3 bg-white rounded border border-gray-200 space-y-3">
+                    <p className="text-sm font-medium text-foreground flex items-center gap-1">
+                      <MessageSquare className="h-4 w-4" />
+                      Conversation ({comment.conversation.length})
+                    </p>
+                    {comment.conversation.map((msg) => (
+                      <div
+                        key={msg.id}
+                        className={`text-sm pl-3 border-l-2 ${
+                          msg.role === "assistant" ? "border-[var(--primary)]" : "border-gray-300"
+                        }`}
+                      >
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                          <span className="font-medium text-foreground">
+                            {msg.role === "assistant" ? "GraphBug" : msg.author}
+                          </span>
+                          <span>{new Date(msg.createdAt).toLocaleString()}</span>
+                          {msg.githubCommentUrl && (
+                            <a
+                              href={msg.githubCommentUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="hover:underline"
+                            >
+                              View on GitHub
+                            </a>
+                          )}
+                        </div>
+                        <p className="text-muted-foreground whitespace-pre-wrap">{msg.body}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-3 flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground mr-1">Was this useful?</span>
+                  {FEEDBACK_OPTIONS.map(({ rating, label, count }) => {
+                    const Icon = rating === "helpful" ? ThumbsUp : rating === "not_helpful" ? ThumbsDown : XCircle;
+                    const selected = comment.feedback?.mine === rating;
+                    return (
+                      <button
+                        key={rating}
+                        onClick={() => rateComment(comment.id, rating)}
+                        className={`flex items-center gap-1 px-2 py-1 text-xs rounded border ${
+                          selected
+                            ? "bg-[var(--primary)] text-white border-[var(--primary)]"
+                            : "bg-white text-muted-foreground border-gray-200 hover:border-[var(--primary)]"
+                        }`}
+                      >
+                        <Icon className="h-3 w-3" />
+                        {label}
+                        {(comment.feedback?.[count] ?? 0) > 0 && <span>({comment.feedback[count]})</span>}
+                      </button>
+                    );
+                  })}
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {comment.suppressionId ? (
+                      "Dismissed: not posted again in this repository"
+                    ) : (
+                      <>
+                        Dismiss as{" "}
+                        <button onClick={() => dismissComment(comment.id, "wont_fix")} className="underline hover:text-foreground">
+                          won&apos;t fix
+                        </button>{" "}
+                        or{" "}
+                        <button onClick={() => dismissComment(comment.id, "false_positive")} className="underline hover:text-foreground">
+                          false positive
+                        </button>
+                      </>
+                    )}
+                  </span>
+                </div>
               </div>
             ))}
           </div>
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { getFeedbackPrecision } from "@/lib/analytics";
+import { z } from "zod";
+import { subMonths } from "date-fns";
+
+/**
+ * GET /api/analytics/feedback
+ *
+ * Precision of posted findings, from 👍/👎 reactions on GitHub and dashboard votes
+ *
+ * Query Parameters:
+ * - dateFrom: ISO date string (optional, defaults to 3 months ago)
+ * - dateTo: ISO date string (optional, defaults to now)
+ *
+ * Response:
+ * {
+ *   overall: { helpful, notHelpful, wrong, rated, precision },
+ *   byCategory: Array<{ key, helpful, notHelpful, wrong, rated, precision }>,
+ *   bySeverity: [...],
+ *   byModel: [...],
+ *   byRepository: [...]
+ * }
+ */
+
+const querySchema = z.object({
+  dateFrom: z.string().datetime().optional(),
+  dateTo: z.string().datetime().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate query parameters
+    const searchParams = Object.fromEntries(request.nextUrl.searchParams);
+    const parseResult = querySchema.safeParse(searchParams);
+
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { dateFrom, dateTo } = parseResult.data;
+
+    // Set default date range (last 3 months)
+    const now = new Date();
+    const dateFromObj = dateFrom ? new Date(dateFrom) : subMonths(now, 3);
+    const dateToObj = dateTo ? new Date(dateTo) : now;
+
+    if (dateFromObj >= dateToObj) {
+      return NextResponse.json(
+        { error: "dateFrom must be before dateTo" },
+        { status: 400 }
+      );
+    }
+
+    const precision = await getFeedbackPrecision(session.user.id, dateFromObj, dateToObj);
+
+    return NextResponse.json({
+      ...precision,
+      metadata: {
+        dateFrom: dateFromObj.toISOString(),
+        dateTo: dateToObj.toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("[GET /api/analytics/feedback] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
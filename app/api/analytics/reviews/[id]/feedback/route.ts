@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { z } from "zod";
+import { and, eq } from "drizzle-orm";
+import { db, codeReviews, githubInstallations, githubRepositories, pullRequests, reviewComments } from "@/db/schema";
+import { setDashboardFeedback } from "@/lib/finding-feedback";
+
+/**
+ * POST /api/analytics/reviews/[id]/feedback
+ *
+ * Rate one of a review's comments from the dashboard
+ *
+ * Body:
+ * {
+ *   commentId: string,
+ *   rating: "helpful" | "not_helpful" | "wrong" | null  // null clears the rating
+ * }
+ */
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const FeedbackSchema = z.object({
+  commentId: z.string().uuid(),
+  rating: z.enum(["helpful", "not_helpful", "wrong"]).nullable(),
+});
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = FeedbackSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request",
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id: reviewId } = await context.params;
+    const { commentId, rating } = validation.data;
+
+    // Only comments of reviews on the user's own repositories
+    const [comment] = await db
+      .select({ id: reviewComments.id })
+      .from(reviewComments)
+      .innerJoin(codeReviews, eq(reviewComments.reviewId, codeReviews.id))
+      .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
+      .innerJoin(githubRepositories, eq(pullRequests.repositoryId, githubRepositories.id))
+      .innerJoin(githubInstallations, eq(githubRepositories.installationId, githubInstallations.id))
+      .where(
+        and(
+          eq(reviewComments.id, commentId),
+          eq(codeReviews.id, reviewId),
+          eq(githubInstallations.userId, session.user.id)
+        )
+      )
+      .limit(1);
+
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    await setDashboardFeedback(comment.id, session.user.id, rating);
+    return NextResponse.json({ success: true, rating });
+  } catch (error) {
+    console.error("[POST /api/analytics/reviews/[id]/feedback] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
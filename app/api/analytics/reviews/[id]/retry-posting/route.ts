@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { and, eq } from "drizzle-orm";
+import { db, codeReviews, githubInstallations, githubRepositories, pullRequests } from "@/db/schema";
+import { enqueueJob } from "@/lib/job-queue";
+import { getMaxPostAttempts, resetFailedPosts } from "@/lib/review-publisher";
+
+/**
+ * POST /api/analytics/reviews/[id]/retry-posting
+ *
+ * Retry posting a review's findings that couldn't be posted to GitHub.
+ * Their attempt counts start over and the comment outbox runs again.
+ */
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: reviewId } = await context.params;
+
+    // Only reviews on the user's own repositories
+    const [review] = await db
+      .select({ id: codeReviews.id, status: codeReviews.status, installationId: githubInstallations.installationId })
+      .from(codeReviews)
+      .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
+      .innerJoin(githubRepositories, eq(pullRequests.repositoryId, githubRepositories.id))
+      .innerJoin(githubInstallations, eq(githubRepositories.installationId, githubInstallations.id))
+      .where(and(eq(codeReviews.id, reviewId), eq(githubInstallations.userId, session.user.id)))
+      .limit(1);
+
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    if (review.status !== "completed") {
+      return NextResponse.json({ error: "Only completed reviews can be posted" }, { status: 409 });
+    }
+
+    const pending = await resetFailedPosts(review.id);
+    if (pending > 0) {
+      await enqueueJob({
+        type: "publish_review_comments",
+        payload: { reviewId: review.id },
+        installationId: review.installationId,
+        dedupeKey: `publish_review_comments:${review.id}`,
+        maxAttempts: getMaxPostAttempts() + 3,
+      });
+    }
+
+    return NextResponse.json({ success: true, pending });
+  } catch (error) {
+    console.error("[POST /api/analytics/reviews/[id]/retry-posting] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -18,7 +18,8 @@ import { getReviewDetails } from "@/lib/analytics";
  *     modelsUsed, totalCost, executionTime, timestamps
  *   },
  *   comments: Array<{
- *     id, filePath, lines, severity, category, title, message, suggestion
+ *     id, filePath, lines, severity, category, title, message, suggestion,
+ *     conversation, feedback: { helpful, notHelpful, wrong, mine }
  *   }>,
  *   prDetails: {
  *     htmlUrl, branches, stats
@@ -60,7 +61,7 @@ export async function GET(
     }
 
     // Fetch review details
-    const result = await getReviewDetails(reviewId);
+    const result = await getReviewDetails(reviewId, session.user.id);
 
     if (!result) {
       return NextResponse.json(
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runJobs } from "@/lib/job-queue";
+import { z } from "zod";
+
+/**
+ * GET /api/jobs/run
+ *
+ * Job queue worker entry point, meant to be called by a scheduler (e.g. Vercel Cron)
+ * so queued and retrying jobs run even when no webhook arrives to kick the queue.
+ *
+ * Headers:
+ * - Authorization: Bearer <CRON_SECRET>
+ *
+ * Query Parameters:
+ * - maxJobs: Max jobs to run in this invocation (default: 10, max: 50)
+ */
+
+// Query parameter validation schema
+const querySchema = z.object({
+  maxJobs: z.coerce.number().int().min(1).max(50).optional().default(10),
+});
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const parseResult = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await runJobs({ maxJobs: parseResult.data.maxJobs });
+
+    console.log(`🏁 Worker ${result.workerId} finished:`, result);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[GET /api/jobs/run] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/auth";
+import { getRepositorySettings, isRepositoryOwnedByUser, upsertRepositorySettings } from "@/db/queries";
+import { toReviewSettings } from "@/lib/repository-settings";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const UpdateSettingsSchema = z.object({
+  autoReview: z.boolean().optional(),
+  reviewDrafts: z.boolean().optional(),
+  baseBranches: z.array(z.string().trim().min(1).max(255)).max(50).optional(),
+  skipAuthors: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+  commentMode: z.enum(["inline", "summary", "check_only"]).optional(),
+});
+
+/**
+ * GET /api/repositories/[id]/settings
+ *
+ * Review settings of a repository (defaults if never configured)
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    if (!(await isRepositoryOwnedByUser(id, session.user.id))) {
+      return NextResponse.json({ error: "Repository not found" }, { status: 404 });
+    }
+
+    const settings = toReviewSettings(await getRepositorySettings(id));
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("[GET /api/repositories/[id]/settings] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/repositories/[id]/settings
+ *
+ * Update review settings; omitted fields keep their current value
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    if (!(await isRepositoryOwnedByUser(id, session.user.id))) {
+      return NextResponse.json({ error: "Repository not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validation = UpdateSettingsSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request",
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const updated = await upsertRepositorySettings(id, validation.data);
+    console.log(`⚙️ Review settings updated for repository ${id}`);
+
+    return NextResponse.json({ success: true, settings: toReviewSettings(updated) });
+  } catch (error) {
+    console.error("[PUT /api/repositories/[id]/settings] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/auth";
+import { deleteFindingSuppression, isRepositoryOwnedByUser, updateFindingSuppression } from "@/db/queries";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    suppressionId: string;
+  }>;
+}
+
+const UpdateSuppressionSchema = z.object({
+  reason: z.enum(["wont_fix", "false_positive"]).optional(),
+  fileGlob: z.string().trim().min(1).max(500).optional(),
+  matchAnySnippet: z.literal(true).optional(), // The snippet hash can't be restored once cleared
+});
+
+/**
+ * PATCH /api/repositories/[id]/suppressions/[suppressionId]
+ *
+ * Widen a suppression to more files or any code, or change its reason
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, suppressionId } = await context.params;
+    if (!(await isRepositoryOwnedByUser(id, session.user.id))) {
+      return NextResponse.json({ error: "Repository not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validation = UpdateSuppressionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request",
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { reason, fileGlob, matchAnySnippet } = validation.data;
+    const suppression = await updateFindingSuppression(id, suppressionId, {
+      reason,
+      fileGlob,
+      ...(matchAnySnippet ? { snippetHash: null } : {}),
+    });
+
+    if (!suppression) {
+      return NextResponse.json({ error: "Suppression not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ suppression });
+  } catch (error) {
+    console.error("[PATCH /api/repositories/[id]/suppressions/[suppressionId]] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/repositories/[id]/suppressions/[suppressionId]
+ *
+ * Post matching findings again
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, suppressionId } = await context.params;
+    if (!(await isRepositoryOwnedByUser(id, session.user.id))) {
+      return NextResponse.json({ error: "Repository not found" }, { status: 404 });
+    }
+
+    if (!(await deleteFindingSuppression(id, suppressionId))) {
+      return NextResponse.json({ error: "Suppression not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[DELETE /api/repositories/[id]/suppressions/[suppressionId]] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/auth";
+import {
+  createFindingSuppression,
+  getFindingSuppressions,
+  getRepositoryReviewComment,
+  isRepositoryOwnedByUser,
+} from "@/db/queries";
+import { fingerprintFinding } from "@/lib/finding-suppressions";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const CreateSuppressionSchema = z.object({
+  commentId: z.string().uuid(),
+  reason: z.enum(["wont_fix", "false_positive"]),
+  fileGlob: z.string().trim().min(1).max(500).optional(),
+  matchAnySnippet: z.boolean().optional().default(false),
+});
+
+/**
+ * GET /api/repositories/[id]/suppressions
+ *
+ * Dismissed findings that are no longer posted in this repository
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    if (!(await isRepositoryOwnedByUser(id, session.user.id))) {
+      return NextResponse.json({ error: "Repository not found" }, { status: 404 });
+    }
+
+    const suppressions = await getFindingSuppressions(id);
+    return NextResponse.json({ suppressions });
+  } catch (error) {
+    console.error("[GET /api/repositories/[id]/suppressions] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/repositories/[id]/suppressions
+ *
+ * Dismiss a finding as "won't fix" or "false positive" so matching findings aren't posted again
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    if (!(await isRepositoryOwnedByUser(id, session.user.id))) {
+      return NextResponse.json({ error: "Repository not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validation = CreateSuppressionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid request",
+          details: validation.error.format(),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { commentId, reason, fileGlob, matchAnySnippet } = validation.data;
+
+    const comment = await getRepositoryReviewComment(id, commentId);
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    const fingerprint = fingerprintFinding(comment);
+    const suppression = await createFindingSuppression({
+      repositoryId: id,
+      sourceCommentId: comment.id,
+      category: comment.category,
+      normalizedTitle: fingerprint.normalizedTitle,
+      fileGlob: fileGlob ?? fingerprint.fileGlob,
+      snippetHash: matchAnySnippet ? null : fingerprint.snippetHash,
+      title: comment.title,
+      reason,
+      createdBy: session.user.id,
+    });
+
+    console.log(`🙈 Suppression ${suppression.id} created for "${comment.title}" (${reason})`);
+    return NextResponse.json({ suppression }, { status: 201 });
+  } catch (error) {
+    console.error("[POST /api/repositories/[id]/suppressions] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -5,13 +5,29 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { createReviewComment, type NewReviewComment } from "@/db/queries";
+import {
+  createReviewComment,
+  getFindingSuppressions,
+  getPullRequestWithRepo,
+  recordSuppressionMatch,
+  type NewReviewComment,
+} from "@/db/queries";
+import { findMatchingSuppression } from "@/lib/finding-suppressions";
+import {
+  computeFindingFingerprint,
+  findOpenFindingByFingerprint,
+  findReviewFindingByFingerprint,
+} from "@/lib/finding-lifecycle";
+import { getPRDiffForPlacement, placeComment, type CommentPosition } from "@/lib/diff-position";
+import { getReviewForReport } from "@/lib/review-chunks";
+import { enqueueFinishedReviewJobs } from "@/lib/job-queue";
 
 const CreateCommentSchema = z.object({
   review_id: z.string().uuid(),
   file_path: z.string(),
   start_line: z.number().int().positive().nullable().optional(),
   end_line: z.number().int().positive().nullable().optional(),
+  side: z.enum(["LEFT", "RIGHT"]).optional(),
   severity: z.enum(["info", "low", "medium", "high", "critical"]),
   category: z.enum(["security", "performance", "bug", "code_quality", "best_practice", "documentation", "testing", "accessibility", "maintainability"]),
   title: z.string(),
@@ -28,6 +44,13 @@ export type CreateCommentRequest = z.infer<typeof CreateCommentSchema>;
  * POST /api/review_comments
  * Create a new review comment
  * Called by ai-service to store review comments
+ * Returns 409 if the review was cancelled, so superseded reviews stop posting
+ * `review_id` may name a chunk of a large PR's review; findings are stored on the review itself
+ * Findings matching one of the repository's suppressions are not stored ({ suppressed: true })
+ * Findings already posted on an earlier version of the PR are linked to that comment ({ duplicate: true })
+ * Unposted findings are placed on the PR diff; the response's placement, start_line, end_line and side
+ * say where to post them ("line", "file" for a file-level comment, or "summary" only)
+ * Findings stored after their review finished are published by queuing its publish jobs again
  */
 export async function POST(req: NextRequest) {
   try {
@@ -47,20 +70,107 @@ export async function POST(req: NextRequest) {
 
     const data = validation.data;
 
+    // Chunks of a large PR's review report under their own ID
+    const target = await getReviewForReport(data.review_id);
+    if (!target) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+    const review = target.review;
+
+    if (review.status === "cancelled") {
+      console.log(`🚫 Rejecting comment for cancelled review ${review.id}`);
+      return NextResponse.json(
+        { error: "Review cancelled", details: review.errorMessage },
+        { status: 409 }
+      );
+    }
+
+    // Findings dismissed on an earlier PR stay dismissed
+    const pr = await getPullRequestWithRepo(review.pullRequestId);
+    const suppression = pr
+      ? findMatchingSuppression(
+          { category: data.category, title: data.title, filePath: data.file_path, codeSnippet: data.code_snippet ?? null },
+          await getFindingSuppressions(pr.repositoryId)
+        )
+      : null;
+
+    if (suppression) {
+      await recordSuppressionMatch(suppression.id);
+      console.log(`🙈 Suppressed finding "${data.title}" in ${data.file_path} (suppression ${suppression.id})`);
+      return NextResponse.json({
+        success: true,
+        suppressed: true,
+        suppression_id: suppression.id,
+      });
+    }
+
+    // The same finding on unchanged code is posted once per PR
+    const fingerprint = computeFindingFingerprint({
+      category: data.category,
+      title: data.title,
+      filePath: data.file_path,
+      codeSnippet: data.code_snippet ?? null,
+    });
+    const original = data.github_comment_id ? null : await findOpenFindingByFingerprint(review.pullRequestId, fingerprint);
+
+    if (original?.reviewId === review.id) {
+      console.log(`♻️ Finding "${data.title}" was carried into this review already`);
+      return NextResponse.json({
+        success: true,
+        duplicate: true,
+        id: original.id,
+        github_comment_id: original.githubCommentId,
+      });
+    }
+
+    // Chunks see overlapping context and may report the same finding
+    const reported = target.chunk ? await findReviewFindingByFingerprint(review.id, fingerprint) : null;
+    if (reported) {
+      console.log(`♻️ Finding "${data.title}" was already reported by another chunk of review ${review.id}`);
+      return NextResponse.json({
+        success: true,
+        duplicate: true,
+        id: reported.id,
+        github_comment_id: reported.githubCommentId,
+      });
+    }
+
+    // GitHub rejects inline comments outside the diff hunks
+    let position: CommentPosition | null = null;
+    if (!data.github_comment_id && !original && pr && review.headCommitSha) {
+      try {
+        const diff = await getPRDiffForPlacement(pr, review.headCommitSha);
+        position = placeComment(diff, {
+          filePath: data.file_path,
+          startLine: data.start_line ?? null,
+          endLine: data.end_line ?? null,
+          side: data.side,
+        });
+      } catch (error) {
+        console.warn(`⚠️ Could not load the PR diff to place "${data.title}", keeping its lines:`, error);
+      }
+    }
+
     // Create comment record
     const commentData: NewReviewComment = {
-      reviewId: data.review_id,
-      filePath: data.file_path,
-      startLine: data.start_line ?? null,
-      endLine: data.end_line ?? null,
+      reviewId: review.id,
+      filePath: position && position.placement !== "summary" ? position.filePath : data.file_path,
+      startLine: position?.placement === "line" ? position.startLine : data.start_line ?? null,
+      endLine: position?.placement === "line" ? position.endLine : data.end_line ?? null,
+      side: position?.placement === "line" ? position.side : data.side ?? "RIGHT",
+      placement: position?.placement ?? "line",
+      lineSnapped: position?.placement === "line" && position.snapped,
       severity: data.severity,
       category: data.category,
       title: data.title,
       message: data.message,
       suggestion: data.suggestion ?? null,
       codeSnippet: data.code_snippet ?? null,
-      githubCommentId: data.github_comment_id ?? null,
-      githubCommentUrl: data.github_comment_url ?? null,
+      githubCommentId: data.github_comment_id ?? original?.githubCommentId ?? null,
+      githubCommentUrl: data.github_comment_url ?? original?.githubCommentUrl ?? null,
+      isPosted: !!(data.github_comment_id || original),
+      fingerprint,
+      carriedFromCommentId: original ? original.carriedFromCommentId ?? original.id : null,
     };
 
     const comment = await createReviewComment(commentData);
@@ -70,11 +180,41 @@ export async function POST(req: NextRequest) {
     console.log(`   File: ${comment.filePath}`);
     console.log(`   Severity: ${comment.severity}`);
 
+    if (original) {
+      console.log(`♻️ Linked to finding ${original.id} posted on an earlier review`);
+    }
+
+    if (comment.filePath !== data.file_path) {
+      console.log(`📍 ${data.file_path} was renamed, posting on ${comment.filePath}`);
+    }
+
+    // Arrived after the review's publish jobs were queued, or after they ran
+    if (review.status === "completed" || review.status === "failed") {
+      await enqueueFinishedReviewJobs(review);
+    }
+
+    if (position?.placement === "line" && position.snapped) {
+      console.log(`📍 Moved onto the diff: lines ${data.start_line}-${data.end_line} → ${position.startLine}-${position.endLine}`);
+    } else if (position?.placement === "file") {
+      console.log(
+        data.start_line == null
+          ? `📍 No lines given, posting as a file-level comment`
+          : `📍 Lines aren't in the diff, posting as a file-level comment`
+      );
+    } else if (position?.placement === "summary") {
+      console.log(`📍 ${data.file_path} isn't in the diff, listing it in the review body`);
+    }
+
     return NextResponse.json({
       success: true,
+      ...(original ? { duplicate: true, github_comment_id: original.githubCommentId } : {}),
       id: comment.id,
       review_id: comment.reviewId,
       file_path: comment.filePath,
+      placement: comment.placement,
+      start_line: comment.startLine,
+      end_line: comment.endLine,
+      side: comment.side,
       created_at: comment.createdAt,
     });
   } catch (error) {
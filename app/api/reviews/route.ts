@@ -5,11 +5,14 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { createCodeReview, getCodeReviewById, type NewCodeReview } from "@/db/queries";
+import { createCodeReview, getCodeReviewById, updateCodeReview, type NewCodeReview } from "@/db/queries";
 import { db, pullRequests } from "@/db/schema";
 import { eq } from "drizzle-orm";
+import { enqueueFinishedReviewJobs } from "@/lib/job-queue";
+import { getReviewForReport, recordChunkReport } from "@/lib/review-chunks";
 
 const CreateReviewSchema = z.object({
+  review_id: z.string().uuid().optional(), // Record created by the frontend when the review was queued
   pull_request_id: z.string().uuid(),
   status: z.enum(["pending", "in_progress", "completed", "failed", "cancelled"]),
   started_at: z.string().datetime().nullable().optional(),
@@ -47,10 +50,32 @@ const CreateReviewSchema = z.object({
 
 export type CreateReviewRequest = z.infer<typeof CreateReviewSchema>;
 
+// Request fields and the review columns they set, for updating only what a report carries
+const REVIEW_UPDATE_FIELDS: Array<[keyof CreateReviewRequest, keyof NewCodeReview]> = [
+  ["status", "status"],
+  ["started_at", "startedAt"],
+  ["completed_at", "completedAt"],
+  ["primary_model", "primaryModel"],
+  ["models_used", "modelsUsed"],
+  ["total_tokens_input", "totalTokensInput"],
+  ["total_tokens_output", "totalTokensOutput"],
+  ["total_cost", "totalCost"],
+  ["execution_time_ms", "executionTimeMs"],
+  ["summary", "summary"],
+  ["key_changes", "keyChanges"],
+  ["recommendations", "recommendations"],
+  ["positives", "positives"],
+  ["summary_comment_id", "summaryCommentId"],
+  ["summary_comment_url", "summaryCommentUrl"],
+  ["inline_comments_posted", "inlineCommentsPosted"],
+];
+
 /**
  * POST /api/reviews
- * Create a new code review record
+ * Create a new code review record, or update the one named by `review_id`
+ * `review_id` may name a chunk of a large PR's review; chunk results are merged into the review
  * Called by ai-service to store review metadata
+ * Returns 409 if the review was cancelled (superseded by a newer push)
  */
 export async function POST(req: NextRequest) {
   try {
@@ -112,6 +137,74 @@ export async function POST(req: NextRequest) {
       inlineCommentsPosted: data.inline_comments_posted || null,
     };
 
+    if (data.review_id) {
+      const target = await getReviewForReport(data.review_id);
+      const existing = target?.review;
+
+      if (!existing || existing.pullRequestId !== data.pull_request_id) {
+        return NextResponse.json({ error: "Review not found" }, { status: 404 });
+      }
+
+      if (existing.status === "cancelled") {
+        console.log(`🚫 Ignoring update for cancelled review ${existing.id}`);
+        return NextResponse.json(
+          { error: "Review cancelled", details: existing.errorMessage },
+          { status: 409 }
+        );
+      }
+
+      // A chunk of a large PR: its results are merged into the review when the last chunk finishes
+      if (target.chunk) {
+        const finished = await recordChunkReport(target.chunk, {
+          status: data.status,
+          summary: reviewData.summary,
+          keyChanges: reviewData.keyChanges,
+          recommendations: reviewData.recommendations,
+          positives: reviewData.positives,
+          modelsUsed: reviewData.modelsUsed,
+          totalTokensInput: reviewData.totalTokensInput,
+          totalTokensOutput: reviewData.totalTokensOutput,
+          totalCost: reviewData.totalCost,
+          executionTimeMs: reviewData.executionTimeMs,
+          completedAt: reviewData.completedAt,
+        });
+
+        console.log(`✅ Updated review chunk ${target.chunk.id} of review ${existing.id} (${data.status})`);
+        if (finished) await enqueueFinishedReviewJobs(finished);
+
+        return NextResponse.json({
+          success: true,
+          id: existing.id,
+          chunk_id: target.chunk.id,
+          pull_request_id: existing.pullRequestId,
+          status: finished?.status ?? existing.status,
+          created_at: existing.createdAt,
+        });
+      }
+
+      // Fields the report leaves out keep their values, e.g. the summary comment the summary job posted
+      const update: Partial<NewCodeReview> = Object.fromEntries(
+        REVIEW_UPDATE_FIELDS.filter(([field]) => data[field] !== undefined).map(([, column]) => [column, reviewData[column]])
+      );
+      const review = await updateCodeReview(existing.id, {
+        ...update,
+        // Keep the start time we recorded when the review was handed off
+        startedAt: reviewData.startedAt ?? existing.startedAt,
+      });
+
+      console.log(`✅ Updated review record: ${review.id} (${review.status})`);
+
+      await enqueueFinishedReviewJobs(review);
+
+      return NextResponse.json({
+        success: true,
+        id: review.id,
+        pull_request_id: review.pullRequestId,
+        status: review.status,
+        created_at: review.createdAt,
+      });
+    }
+
     const review = await createCodeReview(reviewData);
 
     console.log(`✅ Created review record: ${review.id}`);
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from "@/auth";
+import { db, githubInstallations } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { getDeliveryById, replayDelivery, toDeliverySummary } from "@/lib/webhook-deliveries";
+import { runJobs } from "@/lib/job-queue";
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * POST /api/webhooks/deliveries/[id]/replay
+ *
+ * Re-run a stored webhook delivery through its event handler.
+ * Duplicate detection is bypassed, so this always processes the payload again.
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const delivery = await getDeliveryById(id);
+    if (!delivery || delivery.installationId === null) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+
+    // The delivery must belong to one of the user's installations
+    const [installation] = await db
+      .select({ id: githubInstallations.id })
+      .from(githubInstallations)
+      .where(
+        and(
+          eq(githubInstallations.installationId, delivery.installationId),
+          eq(githubInstallations.userId, session.user.id)
+        )
+      )
+      .limit(1);
+
+    if (!installation) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+
+    const replayed = await replayDelivery(id);
+    if (!replayed) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+
+    // Run any jobs the replayed handler queued
+    after(() => runJobs({ maxJobs: 5 }));
+
+    return NextResponse.json({ success: true, delivery: toDeliverySummary(replayed) });
+  } catch (error) {
+    console.error("[POST /api/webhooks/deliveries/[id]/replay] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
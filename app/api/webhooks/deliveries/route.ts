@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { db, githubInstallations } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { isWebhookDeliveryStatus } from "@/db/types";
+import { listDeliveries, toDeliverySummary } from "@/lib/webhook-deliveries";
+import { z } from "zod";
+
+/**
+ * GET /api/webhooks/deliveries
+ *
+ * List recent GitHub webhook deliveries for the user's installations
+ *
+ * Query Parameters:
+ * - status: received | processed | ignored | failed
+ * - event: GitHub event name (e.g. pull_request)
+ * - limit: Max rows (default: 50, max: 200)
+ *
+ * The stored payload is omitted from the list to keep responses small.
+ */
+
+// Query parameter validation schema
+const querySchema = z.object({
+  status: z.string().optional(),
+  event: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parseResult = querySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parseResult.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid query parameters",
+          details: parseResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { status, limit } = parseResult.data;
+    const event = parseResult.data.event || undefined;
+
+    if (status && !isWebhookDeliveryStatus(status)) {
+      return NextResponse.json(
+        { error: "Invalid status. Must be received, processed, ignored, or failed" },
+        { status: 400 }
+      );
+    }
+
+    // Only show deliveries for installations owned by this user
+    const installations = await db
+      .select({ installationId: githubInstallations.installationId })
+      .from(githubInstallations)
+      .where(eq(githubInstallations.userId, session.user.id));
+
+    const deliveries = await listDeliveries({
+      installationIds: installations.map((i) => i.installationId),
+      status: status && isWebhookDeliveryStatus(status) ? status : undefined,
+      event,
+      limit,
+    });
+
+    return NextResponse.json({
+      deliveries: deliveries.map(toDeliverySummary),
+    });
+  } catch (error) {
+    console.error("[GET /api/webhooks/deliveries] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
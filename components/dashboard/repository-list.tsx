@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import RepositorySettingsPanel from "./repository-settings";
 
 interface Repository {
   id: string;
@@ -17,6 +18,7 @@ export default function RepositoryList({ repositories, onRefresh }: { repositori
   const [retryingId, setRetryingId] = useState<string | null>(null);
   const [selectedRepos, setSelectedRepos] = useState<Set<string>>(new Set());
   const [isReviewing, setIsReviewing] = useState(false);
+  const [settingsRepoId, setSettingsRepoId] = useState<string | null>(null);
 
   // Filter repos that are not yet reviewed or failed
   const selectableRepos = repositories.filter(
@@ -211,14 +213,24 @@ export default function RepositoryList({ repositories, onRefresh }: { repositori
                       <span>Synced {new Date(repo.lastSyncedAt).toLocaleDateString()}</span>
                     )}
                   </div>
+
+                  {settingsRepoId === repo.id && (
+                    <RepositorySettingsPanel repositoryId={repo.id} onClose={() => setSettingsRepoId(null)} />
+                  )}
                 </div>
 
-                <div className="hidden md:flex items-center gap-2">
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => setSettingsRepoId(settingsRepoId === repo.id ? null : repo.id)}
+                    className="px-3 py-1.5 text-xs font-medium border border-[var(--text)]/10 hover:border-[var(--text)]/20 hover:bg-[var(--background)]/50 transition-all rounded-lg whitespace-nowrap"
+                  >
+                    Review Settings
+                  </button>
                   <a
                     href={`https://github.com/${repo.fullName}`}
                     target="_blank"
                     rel="noopener noreferrer"
-                    className="px-3 py-1.5 text-xs font-medium border border-[var(--text)]/10 hover:border-[var(--text)]/20 hover:bg-[var(--background)]/50 transition-all rounded-lg whitespace-nowrap"
+                    className="hidden md:inline-block px-3 py-1.5 text-xs font-medium border border-[var(--text)]/10 hover:border-[var(--text)]/20 hover:bg-[var(--background)]/50 transition-all rounded-lg whitespace-nowrap"
                   >
                     View on GitHub
                   </a>
@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import RepositorySuppressions from "./repository-suppressions";
+
+type CommentMode = "inline" | "summary" | "check_only";
+
+interface ReviewSettings {
+  autoReview: boolean;
+  reviewDrafts: boolean;
+  baseBranches: string[];
+  skipAuthors: string[];
+  commentMode: CommentMode;
+}
+
+const COMMENT_MODES: { value: CommentMode; label: string; description: string }[] = [
+  { value: "inline", label: "Inline comments", description: "Summary comment plus comments on the changed lines" },
+  { value: "summary", label: "Summary only", description: "A single summary comment on the pull request" },
+  { value: "check_only", label: "Check run only", description: "No PR comments; results appear in the GraphBug check" },
+];
+
+export default function RepositorySettingsPanel({ repositoryId, onClose }: { repositoryId: string; onClose: () => void }) {
+  const [settings, setSettings] = useState<ReviewSettings | null>(null);
+  const [baseBranches, setBaseBranches] = useState("");
+  const [skipAuthors, setSkipAuthors] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/repositories/${repositoryId}/settings`)
+      .then((r) => r.json())
+      .then((d) => {
+        if (d.error) throw new Error(d.error);
+        setSettings(d.settings);
+        setBaseBranches(d.settings.baseBranches.join(", "));
+        setSkipAuthors(d.settings.skipAuthors.join(", "));
+      })
+      .catch((e) => setError(e.message));
+  }, [repositoryId]);
+
+  async function handleSave() {
+    if (!settings) return;
+
+    setIsSaving(true);
+    setSaved(false);
+    try {
+      const response = await fetch(`/api/repositories/${repositoryId}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...settings,
+          baseBranches: splitList(baseBranches),
+          skipAuthors: splitList(skipAuthors),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to save settings");
+
+      setSettings(result.settings);
+      setError(null);
+      setSaved(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save settings");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (!settings) {
+    return (
+      <div className="mt-4 p-4 border border-[var(--text)]/10 rounded-lg text-sm text-[var(--text)]/60">
+        {error ? <span className="text-red-700">Failed to load settings: {error}</span> : "Loading settings..."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 p-4 md:p-5 border border-[var(--text)]/10 rounded-lg bg-[var(--background)]/30 space-y-5">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <Toggle
+          label="Automatic reviews"
+          description="Review pull requests when they are opened or updated"
+          checked={settings.autoReview}
+          onChange={(autoReview) => setSettings({ ...settings, autoReview })}
+        />
+        <Toggle
+          label="Review drafts"
+          description="Otherwise drafts are reviewed once marked ready"
+          checked={settings.reviewDrafts}
+          onChange={(reviewDrafts) => setSettings({ ...settings, reviewDrafts })}
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <label className="block">
+          <span className="text-sm font-semibold text-[var(--text)]">Base branches</span>
+          <input
+            type="text"
+            value={baseBranches}
+            onChange={(e) => setBaseBranches(e.target.value)}
+            placeholder="main, release/*"
+            className="mt-1 w-full px-3 py-2 text-sm border border-[var(--text)]/20 rounded-lg bg-white"
+          />
+          <span className="text-xs text-[var(--text)]/50">Leave empty to review PRs into any branch</span>
+        </label>
+        <label className="block">
+          <span className="text-sm font-semibold text-[var(--text)]">Skip authors</span>
+          <input
+            type="text"
+            value={skipAuthors}
+            onChange={(e) => setSkipAuthors(e.target.value)}
+            placeholder="dependabot[bot], renovate[bot]"
+            className="mt-1 w-full px-3 py-2 text-sm border border-[var(--text)]/20 rounded-lg bg-white"
+          />
+          <span className="text-xs text-[var(--text)]/50">GitHub logins whose PRs are never reviewed</span>
+        </label>
+      </div>
+
+      <div>
+        <span className="text-sm font-semibold text-[var(--text)]">Comment posting</span>
+        <div className="mt-2 grid gap-2 sm:grid-cols-3">
+          {COMMENT_MODES.map((mode) => (
+            <label
+              key={mode.value}
+              className={`p-3 border rounded-lg cursor-pointer transition-all ${
+                settings.commentMode === mode.value
+                  ? "border-[var(--primary)] bg-white"
+                  : "border-[var(--text)]/10 hover:border-[var(--text)]/20"
+              }`}
+            >
+              <input
+                type="radio"
+                name={`comment-mode-${repositoryId}`}
+                value={mode.value}
+                checked={settings.commentMode === mode.value}
+                onChange={() => setSettings({ ...settings, commentMode: mode.value })}
+                className="sr-only"
+              />
+              <div className="text-sm font-medium">{mode.label}</div>
+              <div className="text-xs text-[var(--text)]/50 mt-1">{mode.description}</div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <RepositorySuppressions repositoryId={repositoryId} />
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        {saved && <span className="text-sm text-emerald-700 mr-auto">Settings saved</span>}
+        <button
+          onClick={onClose}
+          className="px-3 py-2 text-sm font-medium border border-[var(--text)]/10 hover:border-[var(--text)]/20 hover:bg-[var(--background)]/50 transition-all rounded-lg"
+        >
+          Close
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm bg-[var(--primary)] hover:bg-[var(--primary)]/90 text-[var(--text)] transition-all disabled:opacity-50 disabled:cursor-not-allowed font-semibold rounded-lg shadow-sm"
+        >
+          {isSaving ? "Saving..." : "Save Settings"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function Toggle({
+  label,
+  description,
+  checked,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label className="flex items-start gap-3 p-3 border border-[var(--text)]/10 rounded-lg bg-white cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="mt-0.5 w-5 h-5 rounded border-gray-300 text-[var(--primary)] focus:ring-[var(--primary)] cursor-pointer"
+      />
+      <span>
+        <span className="block text-sm font-semibold text-[var(--text)]">{label}</span>
+        <span className="block text-xs text-[var(--text)]/50">{description}</span>
+      </span>
+    </label>
+  );
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type SuppressionReason = "wont_fix" | "false_positive";
+
+interface Suppression {
+  id: string;
+  category: string;
+  title: string;
+  fileGlob: string;
+  snippetHash: string | null;
+  reason: SuppressionReason;
+  matchCount: number | null;
+  lastMatchedAt: string | null;
+  createdAt: string;
+}
+
+const REASON_LABELS: Record<SuppressionReason, string> = {
+  wont_fix: "Won't fix",
+  false_positive: "False positive",
+};
+
+export default function RepositorySuppressions({ repositoryId }: { repositoryId: string }) {
+  const [suppressions, setSuppressions] = useState<Suppression[] | null>(null);
+  const [editing, setEditing] = useState<{ id: string; fileGlob: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/repositories/${repositoryId}/suppressions`)
+      .then((r) => r.json())
+      .then((d) => {
+        if (d.error) throw new Error(d.error);
+        setSuppressions(d.suppressions);
+      })
+      .catch((e) => setError(e.message));
+  }, [repositoryId]);
+
+  async function update(id: string, changes: { fileGlob?: string; matchAnySnippet?: true }) {
+    try {
+      const response = await fetch(`/api/repositories/${repositoryId}/suppressions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to update suppression");
+
+      setSuppressions((current) => current?.map((s) => (s.id === id ? result.suppression : s)) ?? null);
+      setEditing(null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update suppression");
+    }
+  }
+
+  async function remove(id: string) {
+    try {
+      const response = await fetch(`/api/repositories/${repositoryId}/suppressions/${id}`, { method: "DELETE" });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to remove suppression");
+
+      setSuppressions((current) => current?.filter((s) => s.id !== id) ?? null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to remove suppression");
+    }
+  }
+
+  return (
+    <div>
+      <span className="text-sm font-semibold text-[var(--text)]">Suppressed findings</span>
+      <p className="text-xs text-[var(--text)]/50">
+        Findings dismissed from a review&apos;s page. Matching findings aren&apos;t posted again.
+      </p>
+
+      {error && (
+        <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+      )}
+
+      {!suppressions ? (
+        !error && <div className="mt-2 text-sm text-[var(--text)]/60">Loading suppressions...</div>
+      ) : suppressions.length === 0 ? (
+        <div className="mt-2 text-sm text-[var(--text)]/60">No findings have been dismissed yet.</div>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {suppressions.map((s) => (
+            <li key={s.id} className="p-3 border border-[var(--text)]/10 rounded-lg bg-white text-sm">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{s.title}</div>
+                  <div className="text-xs text-[var(--text)]/50 mt-0.5">
+                    {s.category.replace(/_/g, " ")} · {REASON_LABELS[s.reason]} ·{" "}
+                    {s.snippetHash ? "same code only" : "any code"} · filtered {s.matchCount ?? 0} time
+                    {s.matchCount === 1 ? "" : "s"}
+                  </div>
+                </div>
+                <button
+                  onClick={() => remove(s.id)}
+                  className="text-xs text-red-700 hover:underline shrink-0"
+                >
+                  Remove
+                </button>
+              </div>
+
+              {editing?.id === s.id ? (
+                <div className="mt-2 flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={editing.fileGlob}
+                    onChange={(e) => setEditing({ id: s.id, fileGlob: e.target.value })}
+                    className="flex-1 px-2 py-1 text-xs font-mono border border-[var(--text)]/20 rounded bg-white"
+                  />
+                  <button
+                    onClick={() => update(s.id, { fileGlob: editing.fileGlob.trim() })}
+                    disabled={!editing.fileGlob.trim()}
+                    className="text-xs font-medium text-[var(--text)] hover:underline disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button onClick={() => setEditing(null)} className="text-xs text-[var(--text)]/60 hover:underline">
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="mt-2 flex items-center gap-3 text-xs">
+                  <code className="px-1.5 py-0.5 bg-[var(--background)] rounded truncate">{s.fileGlob}</code>
+                  <button
+                    onClick={() => setEditing({ id: s.id, fileGlob: s.fileGlob })}
+                    className="text-[var(--text)]/60 hover:underline shrink-0"
+                  >
+                    Edit files
+                  </button>
+                  {s.snippetHash && (
+                    <button
+                      onClick={() => update(s.id, { matchAnySnippet: true })}
+                      className="text-[var(--text)]/60 hover:underline shrink-0"
+                    >
+                      Match any code
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
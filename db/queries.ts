@@ -9,10 +9,13 @@ import {
   db,
   pullRequests,
   codeReviews,
+  reviewChunks,
   reviewComments,
   reviewInsights,
   githubRepositories,
   githubInstallations,
+  repositorySettings,
+  findingSuppressions,
 } from "./schema"
 import type {
   PullRequest,
@@ -21,6 +24,9 @@ import type {
   CodeReview,
   NewCodeReview,
   UpdateCodeReview,
+  ReviewChunk,
+  NewReviewChunk,
+  UpdateReviewChunk,
   ReviewComment,
   NewReviewComment,
   UpdateReviewComment,
@@ -31,6 +37,10 @@ import type {
   CommentFilters,
   SortOptions,
   PaginatedResponse,
+  RepositorySettings,
+  NewRepositorySettings,
+  FindingSuppression,
+  NewFindingSuppression,
 } from "./types"
 
 // Re-export types for convenience
@@ -380,6 +390,56 @@ export async function listCodeReviews(
   }
 }
 
+// ============================================================================
+// REVIEW CHUNK QUERIES
+// ============================================================================
+
+/**
+ * Create the chunks of a review
+ */
+export async function createReviewChunks(data: NewReviewChunk[]): Promise<ReviewChunk[]> {
+  if (data.length === 0) return []
+  return await db.insert(reviewChunks).values(data).returning()
+}
+
+/**
+ * Get review chunk by ID
+ */
+export async function getReviewChunkById(id: string): Promise<ReviewChunk | null> {
+  const [chunk] = await db.select().from(reviewChunks).where(eq(reviewChunks.id, id))
+  return chunk || null
+}
+
+/**
+ * Get the chunks of a review, in order
+ */
+export async function getReviewChunks(reviewId: string): Promise<ReviewChunk[]> {
+  return await db
+    .select()
+    .from(reviewChunks)
+    .where(eq(reviewChunks.reviewId, reviewId))
+    .orderBy(asc(reviewChunks.chunkIndex))
+}
+
+/**
+ * Update review chunk
+ */
+export async function updateReviewChunk(id: string, data: UpdateReviewChunk): Promise<ReviewChunk> {
+  const [updated] = await db
+    .update(reviewChunks)
+    .set(data)
+    .where(eq(reviewChunks.id, id))
+    .returning()
+  return updated
+}
+
+/**
+ * Delete the chunks of a review
+ */
+export async function deleteReviewChunks(reviewId: string): Promise<void> {
+  await db.delete(reviewChunks).where(eq(reviewChunks.reviewId, reviewId))
+}
+
 // ============================================================================
 // REVIEW COMMENT QUERIES
 // ============================================================================
@@ -519,6 +579,136 @@ export async function markCommentAsPosted(
   })
 }
 
+// ============================================================================
+// REPOSITORY SETTINGS QUERIES
+// ============================================================================
+
+/**
+ * Get the review settings of a repository, or null if it has never been configured
+ */
+export async function getRepositorySettings(repositoryId: string): Promise<RepositorySettings | null> {
+  const [settings] = await db
+    .select()
+    .from(repositorySettings)
+    .where(eq(repositorySettings.repositoryId, repositoryId))
+    .limit(1)
+  return settings || null
+}
+
+/**
+ * Create or update the review settings of a repository
+ */
+export async function upsertRepositorySettings(
+  repositoryId: string,
+  data: Partial<Omit<NewRepositorySettings, "id" | "repositoryId" | "createdAt" | "updatedAt">>
+): Promise<RepositorySettings> {
+  const [settings] = await db
+    .insert(repositorySettings)
+    .values({ ...data, repositoryId })
+    .onConflictDoUpdate({
+      target: repositorySettings.repositoryId,
+      set: { ...data, updatedAt: new Date() },
+    })
+    .returning()
+  return settings
+}
+
+/**
+ * Check that a repository belongs to one of a user's installations
+ */
+export async function isRepositoryOwnedByUser(repositoryId: string, userId: string): Promise<boolean> {
+  const [repo] = await db
+    .select({ id: githubRepositories.id })
+    .from(githubRepositories)
+    .innerJoin(githubInstallations, eq(githubRepositories.installationId, githubInstallations.id))
+    .where(and(eq(githubRepositories.id, repositoryId), eq(githubInstallations.userId, userId)))
+    .limit(1)
+  return !!repo
+}
+
+// ============================================================================
+// FINDING SUPPRESSION QUERIES
+// ============================================================================
+
+/**
+ * List a repository's suppressions, newest first
+ */
+export async function getFindingSuppressions(repositoryId: string): Promise<FindingSuppression[]> {
+  return await db
+    .select()
+    .from(findingSuppressions)
+    .where(eq(findingSuppressions.repositoryId, repositoryId))
+    .orderBy(desc(findingSuppressions.createdAt))
+}
+
+/**
+ * Get a review comment if it belongs to a review of the repository
+ */
+export async function getRepositoryReviewComment(
+  repositoryId: string,
+  commentId: string
+): Promise<ReviewComment | null> {
+  const [row] = await db
+    .select({ comment: reviewComments })
+    .from(reviewComments)
+    .innerJoin(codeReviews, eq(reviewComments.reviewId, codeReviews.id))
+    .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
+    .where(and(eq(reviewComments.id, commentId), eq(pullRequests.repositoryId, repositoryId)))
+    .limit(1)
+  return row?.comment ?? null
+}
+
+/**
+ * Create a suppression
+ */
+export async function createFindingSuppression(data: NewFindingSuppression): Promise<FindingSuppression> {
+  const [suppression] = await db
+    .insert(findingSuppressions)
+    .values(data)
+    .returning()
+  return suppression
+}
+
+/**
+ * Update a repository's suppression, or null if it doesn't exist
+ */
+export async function updateFindingSuppression(
+  repositoryId: string,
+  id: string,
+  data: Partial<Pick<NewFindingSuppression, "fileGlob" | "snippetHash" | "reason">>
+): Promise<FindingSuppression | null> {
+  const [suppression] = await db
+    .update(findingSuppressions)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(findingSuppressions.id, id), eq(findingSuppressions.repositoryId, repositoryId)))
+    .returning()
+  return suppression || null
+}
+
+/**
+ * Delete a repository's suppression. Returns false if it doesn't exist.
+ */
+export async function deleteFindingSuppression(repositoryId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(findingSuppressions)
+    .where(and(eq(findingSuppressions.id, id), eq(findingSuppressions.repositoryId, repositoryId)))
+    .returning({ id: findingSuppressions.id })
+  return deleted.length > 0
+}
+
+/**
+ * Count a finding filtered out by a suppression
+ */
+export async function recordSuppressionMatch(id: string): Promise<void> {
+  await db
+    .update(findingSuppressions)
+    .set({
+      matchCount: sql`COALESCE(${findingSuppressions.matchCount}, 0) + 1`,
+      lastMatchedAt: new Date(),
+    })
+    .where(eq(findingSuppressions.id, id))
+}
+
 // ============================================================================
 // ANALYTICS & INSIGHTS QUERIES
 // ============================================================================
@@ -9,9 +9,11 @@ import {
   real,
   index,
   unique,
+  uniqueIndex,
   pgEnum,
   json,
 } from "drizzle-orm/pg-core"
+import { sql } from "drizzle-orm"
 import postgres from "postgres"
 import { drizzle } from "drizzle-orm/postgres-js"
 import type { AdapterAccountType } from "next-auth/adapters"
@@ -41,6 +43,15 @@ export const reviewStatusEnum = pgEnum("review_status", [
   "cancelled"
 ])
 
+export const reviewChunkStatusEnum = pgEnum("review_chunk_status", [
+  "pending",
+  "in_progress",
+  "completed",
+  "failed",       // Reported as failed, or given up on once the review job ran out of attempts
+  "send_failed",  // Couldn't be sent to the ai-service; the review job's retry sends it again
+  "cancelled"
+])
+
 export const reviewSeverityEnum = pgEnum("review_severity", [
   "critical",
   "high",
@@ -67,6 +78,44 @@ export const modelTierEnum = pgEnum("model_tier", [
   "thinking"    // Gemini 2.0 Flash Thinking - advanced reasoning
 ])
 
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", [
+  "received",   // Stored, handler still running
+  "processed",  // Handler finished with a 2xx response
+  "ignored",    // Event type we don't handle
+  "failed"      // Handler threw or returned a non-2xx response
+])
+
+export const commentModeEnum = pgEnum("comment_mode", [
+  "inline",     // Summary comment plus inline comments on the diff
+  "summary",    // Summary comment only
+  "check_only"  // No PR comments, results only in the check run
+])
+
+export const findingFeedbackEnum = pgEnum("finding_feedback", [
+  "helpful",      // Worth posting (👍 or dashboard)
+  "not_helpful",  // Correct but not worth the noise (👎 or dashboard)
+  "wrong"         // False positive (dashboard)
+])
+
+export const suppressionReasonEnum = pgEnum("suppression_reason", [
+  "wont_fix",       // Real issue, but the team accepts it
+  "false_positive"  // Not an issue
+])
+
+export const commentPlacementEnum = pgEnum("comment_placement", [
+  "line",    // Inline comment on lines of the PR diff
+  "file",    // File-level comment; the lines aren't in the diff
+  "summary"  // Listed in the review summary; the file isn't in the diff
+])
+
+export const jobStatusEnum = pgEnum("job_status", [
+  "queued",     // Waiting for a worker (or for its retry time)
+  "running",    // Claimed by a worker
+  "completed",  // Handler finished
+  "cancelled",  // Superseded before it ran
+  "dead"        // Out of attempts, kept for inspection
+])
+
 // ============================================================================
 // AUTH TABLES - NextAuth.js required tables
 // ============================================================================
@@ -209,6 +258,29 @@ export const githubRepositories = pgTable("github_repository", {
   },
 ])
 
+/**
+ * Repository Settings - Per-repo review controls managed from the dashboard
+ * Repos without a row use the column defaults
+ */
+export const repositorySettings = pgTable("repository_setting", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  repositoryId: text("repository_id")
+    .notNull()
+    .unique()
+    .references(() => githubRepositories.id, { onDelete: "cascade" }),
+
+  autoReview: boolean("auto_review").notNull().default(true), // Review PRs when opened/pushed
+  reviewDrafts: boolean("review_drafts").notNull().default(true),
+  baseBranches: json("base_branches").$type<string[]>().notNull().default([]), // Glob patterns; empty means all
+  skipAuthors: json("skip_authors").$type<string[]>().notNull().default([]), // GitHub logins, e.g. dependabot[bot]
+  commentMode: commentModeEnum("comment_mode").notNull().default("inline"),
+
+  createdAt: timestamp("created_at", { mode: "date" }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).notNull().defaultNow(),
+})
+
 // ============================================================================
 // CODE REVIEW TABLES
 // ============================================================================
@@ -263,6 +335,7 @@ export const pullRequests = pgTable("pull_request", {
   reviewRequestedAt: timestamp("review_requested_at", { mode: "date" }),
   reviewStartedAt: timestamp("review_started_at", { mode: "date" }),
   reviewCompletedAt: timestamp("review_completed_at", { mode: "date" }),
+  reviewsPaused: boolean("reviews_paused").notNull().default(false), // Set by "@graphbug pause"
   
   // Timestamps
   createdAt: timestamp("created_at", { mode: "date" }).notNull().defaultNow(),
@@ -297,6 +370,12 @@ export const codeReviews = pgTable("code_review", {
   // Review metadata
   reviewVersion: integer("review_version").notNull().default(1), // Allow re-reviews
   triggerType: text("trigger_type").notNull().default("automatic"), // automatic, manual, scheduled
+  triggerCommand: text("trigger_command"), // Bot command for manual triggers, e.g. "review src/api"
+  triggeredBy: text("triggered_by"), // GitHub login that issued the command
+  commandReply: text("command_reply"), // Reply a bot command posts, stored before posting so a retry reposts it as is
+  headCommitSha: text("head_commit_sha"), // PR head this review ran against
+  reviewMode: text("review_mode").notNull().default("full"), // full, incremental, scoped, command (no review ran)
+  incrementalBaseSha: text("incremental_base_sha"), // Previously reviewed head an incremental review diffed from
   
   // Review status
   status: reviewStatusEnum("status").notNull().default("pending"),
@@ -316,6 +395,10 @@ export const codeReviews = pgTable("code_review", {
   keyChanges: json("key_changes").$type<string[]>(),
   recommendations: json("recommendations").$type<string[]>(),
   positives: json("positives").$type<string[]>(),
+  skippedFiles: json("skipped_files").$type<{
+    filename: string
+    reason: string // binary, default (lock/build/asset files), linguist-generated, linguist-vendored, linguist-documentation
+  }[]>(), // Changed files left out of the review
   
   // AI model usage tracking
   primaryModel: modelTierEnum("primary_model"), // Main model used
@@ -342,7 +425,18 @@ export const codeReviews = pgTable("code_review", {
   // GitHub comment tracking
   summaryCommentId: bigint("summary_comment_id", { mode: "number" }), // GitHub comment ID (can be very large)
   summaryCommentUrl: text("summary_comment_url"),
+  summaryCommentPublished: boolean("summary_comment_published").notNull().default(false), // Written by the summary comment job, not the ai-service
   inlineCommentsPosted: integer("inline_comments_posted").default(0),
+  checkRunId: bigint("check_run_id", { mode: "number" }), // GitHub Check Run mirroring this review
+  
+  // .graphbug.yml settings this review ran with
+  repoConfig: json("repo_config").$type<{
+    source: "file" | "default"
+    path: string | null
+    sha: string | null
+    errors: string[]
+    settings: Record<string, unknown>
+  }>(),
   
   // Timestamps
   createdAt: timestamp("created_at", { mode: "date" }).notNull().defaultNow(),
@@ -355,6 +449,57 @@ export const codeReviews = pgTable("code_review", {
   index("review_cost_idx").on(table.totalCost),
 ])
 
+/**
+ * Review Chunks - Parts of a large PR's review, sent to the ai-service in parallel
+ * Each reports under its own ID; results are merged into the parent review
+ */
+export const reviewChunks = pgTable("review_chunk", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+
+  reviewId: text("review_id")
+    .notNull()
+    .references(() => codeReviews.id, { onDelete: "cascade" }),
+  chunkIndex: integer("chunk_index").notNull(), // 0-based, in review order
+  files: json("files").$type<string[]>().notNull(), // Files this chunk reviews
+
+  status: reviewChunkStatusEnum("status").notNull().default("pending"),
+
+  // Results reported by the ai-service, merged into the review once every chunk is done
+  summary: json("summary").$type<{
+    overallScore: number
+    filesChanged: number
+    issuesFound: number
+    critical: number
+    high: number
+    medium: number
+    low: number
+    info: number
+  }>(),
+  keyChanges: json("key_changes").$type<string[]>(),
+  recommendations: json("recommendations").$type<string[]>(),
+  positives: json("positives").$type<string[]>(),
+  modelsUsed: json("models_used").$type<{
+    model: string
+    tier: string
+    tokensInput: number
+    tokensOutput: number
+    cost: number
+    taskType: string
+  }[]>(),
+  totalTokensInput: integer("total_tokens_input").default(0),
+  totalTokensOutput: integer("total_tokens_output").default(0),
+  totalCost: real("total_cost").default(0), // in USD
+  executionTimeMs: integer("execution_time_ms"),
+  errorMessage: text("error_message"),
+
+  createdAt: timestamp("created_at", { mode: "date" }).notNull().defaultNow(),
+  completedAt: timestamp("completed_at", { mode: "date" }),
+}, (table) => [
+  uniqueIndex("review_chunk_index_idx").on(table.reviewId, table.chunkIndex),
+])
+
 /**
  * Review Comments - Individual code review comments
  * Linked to reviews and specific file locations
@@ -374,6 +519,8 @@ export const reviewComments = pgTable("review_comment", {
   startLine: integer("start_line"),
   endLine: integer("end_line"),
   side: text("side").default("RIGHT"), // LEFT (base) or RIGHT (head) for diff view
+  placement: commentPlacementEnum("placement").default("line"), // Where the comment can be posted in the PR diff
+  lineSnapped: boolean("line_snapped").default(false), // Lines were moved onto the diff; a suggestion wouldn't fit them
   
   // Comment content
   severity: reviewSeverityEnum("severity").notNull(),
@@ -382,18 +529,23 @@ export const reviewComments = pgTable("review_comment", {
   message: text("message").notNull(),
   suggestion: text("suggestion"), // Suggested fix
   codeSnippet: text("code_snippet"), // Relevant code context
+  carriedFromCommentId: text("carried_from_comment_id"), // Finding copied from an earlier review of unchanged lines
+  fingerprint: text("fingerprint"), // Category, normalized title, file and snippet hash; same across review versions
   
   // GitHub integration
-  githubCommentId: integer("github_comment_id"), // GitHub comment ID if posted
+  githubCommentId: bigint("github_comment_id", { mode: "number" }), // GitHub comment ID if posted
   githubCommentUrl: text("github_comment_url"),
+  githubReviewId: bigint("github_review_id", { mode: "number" }), // Batched review the finding was submitted in
   isPosted: boolean("is_posted").default(false),
   postAttempts: integer("post_attempts").default(0),
   postError: text("post_error"),
+  checkAnnotated: boolean("check_annotated").notNull().default(false), // Sent as an annotation on the review's check run
   
   // User interaction
   isResolved: boolean("is_resolved").default(false),
   resolvedAt: timestamp("resolved_at", { mode: "date" }),
   resolvedBy: text("resolved_by"), // GitHub username
+  resolvedInSha: text("resolved_in_sha"), // Commit that fixed the finding, when resolved automatically
   
   // AI metadata
   confidence: real("confidence"), // 0-1 confidence score
@@ -410,6 +562,100 @@ export const reviewComments = pgTable("review_comment", {
   index("comment_file_idx").on(table.filePath),
   index("comment_resolved_idx").on(table.isResolved),
   index("comment_posted_idx").on(table.isPosted),
+  index("comment_fingerprint_idx").on(table.fingerprint),
+])
+
+/**
+ * Review Comment Messages - Conversations in the GitHub threads of posted review comments
+ * Developer replies and the AI's answers, oldest first
+ */
+export const reviewCommentMessages = pgTable("review_comment_message", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+
+  reviewCommentId: text("review_comment_id")
+    .notNull()
+    .references(() => reviewComments.id, { onDelete: "cascade" }),
+  replyToMessageId: text("reply_to_message_id"), // For AI answers, the developer message answered
+
+  role: text("role").notNull(), // user, assistant
+  author: text("author").notNull(), // GitHub login
+  body: text("body").notNull(),
+
+  // GitHub integration
+  githubCommentId: bigint("github_comment_id", { mode: "number" }).unique(),
+  githubCommentUrl: text("github_comment_url"),
+
+  // AI usage for answers
+  modelUsed: text("model_used"),
+  tokensInput: integer("tokens_input"),
+  tokensOutput: integer("tokens_output"),
+  cost: real("cost"),
+
+  createdAt: timestamp("created_at", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+  index("comment_message_comment_idx").on(table.reviewCommentId, table.createdAt),
+  uniqueIndex("comment_message_reply_idx").on(table.replyToMessageId), // One answer per developer message
+])
+
+/**
+ * Review Comment Feedback - Developer ratings of review comments
+ * One rating per person and source: GitHub reactions on posted comments, or dashboard votes
+ */
+export const reviewCommentFeedback = pgTable("review_comment_feedback", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+
+  reviewCommentId: text("review_comment_id")
+    .notNull()
+    .references(() => reviewComments.id, { onDelete: "cascade" }),
+
+  rating: findingFeedbackEnum("rating").notNull(),
+  source: text("source").notNull(), // reaction, dashboard
+  author: text("author").notNull(), // GitHub login for reactions, user ID for dashboard votes
+
+  createdAt: timestamp("created_at", { mode: "date" }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+  unique("feedback_comment_author_unique").on(table.reviewCommentId, table.source, table.author),
+  index("feedback_rating_idx").on(table.rating),
+])
+
+/**
+ * Finding Suppressions - Dismissed findings that shouldn't be posted again in a repository
+ * Matched by category, normalized title, file glob and (optionally) a hash of the code snippet
+ */
+export const findingSuppressions = pgTable("finding_suppression", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+
+  repositoryId: text("repository_id")
+    .notNull()
+    .references(() => githubRepositories.id, { onDelete: "cascade" }),
+  sourceCommentId: text("source_comment_id")
+    .references(() => reviewComments.id, { onDelete: "set null" }), // Finding that was dismissed
+
+  // Fingerprint
+  category: reviewCategoryEnum("category").notNull(),
+  normalizedTitle: text("normalized_title").notNull(),
+  fileGlob: text("file_glob").notNull(),
+  snippetHash: text("snippet_hash"), // Null matches any code
+
+  title: text("title").notNull(), // Original title, for display
+  reason: suppressionReasonEnum("reason").notNull(),
+  createdBy: text("created_by"), // User ID
+
+  // Usage
+  matchCount: integer("match_count").default(0),
+  lastMatchedAt: timestamp("last_matched_at", { mode: "date" }),
+
+  createdAt: timestamp("created_at", { mode: "date" }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+  index("suppression_repo_idx").on(table.repositoryId, table.category),
 ])
 
 /**
@@ -484,6 +730,89 @@ export const reviewInsights = pgTable("review_insight", {
   index("insight_unique_idx").on(table.scope, table.scopeId, table.periodType, table.periodStart),
 ])
 
+// ============================================================================
+// WEBHOOK TABLES
+// ============================================================================
+
+/**
+ * Webhook Deliveries - Durable log of every GitHub webhook delivery
+ * Keyed by X-GitHub-Delivery so redeliveries are skipped and stored payloads can be replayed
+ */
+export const webhookDeliveries = pgTable("webhook_delivery", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+
+  // GitHub identifiers
+  deliveryId: text("delivery_id").notNull().unique(), // X-GitHub-Delivery GUID
+  event: text("event").notNull(), // X-GitHub-Event
+  action: text("action"),
+  installationId: integer("installation_id"), // GitHub's installation ID (not our record ID)
+  repositoryFullName: text("repository_full_name"),
+
+  // Payload
+  payload: json("payload").notNull(),
+  payloadHash: text("payload_hash").notNull(), // sha256 of the raw request body
+
+  // Processing outcome
+  status: webhookDeliveryStatusEnum("status").notNull().default("received"),
+  responseStatus: integer("response_status"),
+  errorMessage: text("error_message"),
+  processingAttempts: integer("processing_attempts").notNull().default(0), // Includes replays
+  duplicateCount: integer("duplicate_count").notNull().default(0), // Redeliveries we skipped
+
+  // Timing
+  receivedAt: timestamp("received_at", { mode: "date" }).notNull().defaultNow(),
+  processedAt: timestamp("processed_at", { mode: "date" }),
+  durationMs: integer("duration_ms"),
+  lastReplayedAt: timestamp("last_replayed_at", { mode: "date" }),
+}, (table) => [
+  index("delivery_event_idx").on(table.event),
+  index("delivery_status_idx").on(table.status),
+  index("delivery_installation_idx").on(table.installationId),
+  index("delivery_received_at_idx").on(table.receivedAt),
+])
+
+// ============================================================================
+// JOB QUEUE TABLES
+// ============================================================================
+
+/**
+ * Jobs - Background work queued by webhooks (AI reviews, ingestion)
+ * Claimed by workers with FOR UPDATE SKIP LOCKED; failed jobs retry with backoff until dead
+ */
+export const jobs = pgTable("job", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+
+  type: text("type").notNull(), // See JobType in lib/job-queue.ts
+  payload: json("payload").notNull(),
+  dedupeKey: text("dedupe_key"), // At most one queued/running job per key
+  installationId: integer("installation_id"), // GitHub's installation ID, used for concurrency limits
+  priority: integer("priority").notNull().default(0), // Higher runs first
+
+  // State
+  status: jobStatusEnum("status").notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at", { mode: "date" }).notNull().defaultNow(), // Next eligible run time
+  lockedAt: timestamp("locked_at", { mode: "date" }),
+  lockedBy: text("locked_by"), // Worker ID
+  lastError: text("last_error"),
+
+  // Timestamps
+  createdAt: timestamp("created_at", { mode: "date" }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).notNull().defaultNow(),
+  completedAt: timestamp("completed_at", { mode: "date" }),
+}, (table) => [
+  index("job_claim_idx").on(table.status, table.runAt),
+  index("job_installation_idx").on(table.installationId, table.status),
+  uniqueIndex("job_active_dedupe_idx")
+    .on(table.dedupeKey)
+    .where(sql`${table.status} in ('queued', 'running')`),
+])
+
 export const db = drizzle(pool, {
   schema: {
     users,
@@ -493,9 +822,16 @@ export const db = drizzle(pool, {
     authenticators,
     githubInstallations,
     githubRepositories,
+    repositorySettings,
     pullRequests,
     codeReviews,
+    reviewChunks,
     reviewComments,
+    reviewCommentMessages,
+    reviewCommentFeedback,
+    findingSuppressions,
     reviewInsights,
+    webhookDeliveries,
+    jobs,
   },
 })
\ No newline at end of file
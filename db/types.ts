@@ -7,11 +7,18 @@ import type { InferSelectModel, InferInsertModel } from "drizzle-orm"
 import {
   pullRequests,
   codeReviews,
+  reviewChunks,
   reviewComments,
+  reviewCommentMessages,
+  reviewCommentFeedback,
+  findingSuppressions,
   reviewInsights,
   githubRepositories,
   githubInstallations,
+  repositorySettings,
   users,
+  webhookDeliveries,
+  jobs,
 } from "./schema"
 
 // ============================================================================
@@ -21,10 +28,17 @@ import {
 export type User = InferSelectModel<typeof users>
 export type GitHubInstallation = InferSelectModel<typeof githubInstallations>
 export type GitHubRepository = InferSelectModel<typeof githubRepositories>
+export type RepositorySettings = InferSelectModel<typeof repositorySettings>
 export type PullRequest = InferSelectModel<typeof pullRequests>
 export type CodeReview = InferSelectModel<typeof codeReviews>
+export type ReviewChunk = InferSelectModel<typeof reviewChunks>
 export type ReviewComment = InferSelectModel<typeof reviewComments>
+export type ReviewCommentMessage = InferSelectModel<typeof reviewCommentMessages>
+export type ReviewCommentFeedback = InferSelectModel<typeof reviewCommentFeedback>
+export type FindingSuppression = InferSelectModel<typeof findingSuppressions>
 export type ReviewInsight = InferSelectModel<typeof reviewInsights>
+export type WebhookDelivery = InferSelectModel<typeof webhookDeliveries>
+export type Job = InferSelectModel<typeof jobs>
 
 // ============================================================================
 // INSERT TYPES - For creating new records
@@ -32,8 +46,15 @@ export type ReviewInsight = InferSelectModel<typeof reviewInsights>
 
 export type NewPullRequest = InferInsertModel<typeof pullRequests>
 export type NewCodeReview = InferInsertModel<typeof codeReviews>
+export type NewReviewChunk = InferInsertModel<typeof reviewChunks>
 export type NewReviewComment = InferInsertModel<typeof reviewComments>
+export type NewReviewCommentMessage = InferInsertModel<typeof reviewCommentMessages>
+export type NewReviewCommentFeedback = InferInsertModel<typeof reviewCommentFeedback>
+export type NewFindingSuppression = InferInsertModel<typeof findingSuppressions>
 export type NewReviewInsight = InferInsertModel<typeof reviewInsights>
+export type NewWebhookDelivery = InferInsertModel<typeof webhookDeliveries>
+export type NewJob = InferInsertModel<typeof jobs>
+export type NewRepositorySettings = InferInsertModel<typeof repositorySettings>
 
 // ============================================================================
 // UPDATE TYPES - Partial types for updates
@@ -41,6 +62,7 @@ export type NewReviewInsight = InferInsertModel<typeof reviewInsights>
 
 export type UpdatePullRequest = Partial<NewPullRequest>
 export type UpdateCodeReview = Partial<NewCodeReview>
+export type UpdateReviewChunk = Partial<NewReviewChunk>
 export type UpdateReviewComment = Partial<NewReviewComment>
 export type UpdateReviewInsight = Partial<NewReviewInsight>
 
@@ -62,6 +84,12 @@ export type ReviewCategory =
   | "accessibility"
   | "maintainability"
 export type ModelTier = "flash" | "pro" | "thinking"
+export type WebhookDeliveryStatus = "received" | "processed" | "ignored" | "failed"
+export type JobStatus = "queued" | "running" | "completed" | "cancelled" | "dead"
+export type CommentMode = "inline" | "summary" | "check_only"
+export type FindingFeedback = "helpful" | "not_helpful" | "wrong"
+export type SuppressionReason = "wont_fix" | "false_positive"
+export type CommentPlacement = "line" | "file" | "summary"
 
 // ============================================================================
 // COMPLEX TYPES - Nested JSON structures
@@ -370,3 +398,16 @@ export function isReviewCategory(value: unknown): value is ReviewCategory {
 export function isModelTier(value: unknown): value is ModelTier {
   return typeof value === "string" && ["flash", "pro", "thinking"].includes(value)
 }
+
+export function isWebhookDeliveryStatus(value: unknown): value is WebhookDeliveryStatus {
+  return typeof value === "string" &&
+    ["received", "processed", "ignored", "failed"].includes(value)
+}
+
+export function isCommentMode(value: unknown): value is CommentMode {
+  return typeof value === "string" && ["inline", "summary", "check_only"].includes(value)
+}
+
+export function isFindingFeedback(value: unknown): value is FindingFeedback {
+  return typeof value === "string" && ["helpful", "not_helpful", "wrong"].includes(value)
+}
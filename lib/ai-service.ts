@@ -165,3 +165,76 @@ export async function queryRepository(data: QueryRequest): Promise<{ results: Qu
     throw error;
   }
 }
+
+/**
+ * Ask the AI service to abort an in-flight review
+ * Best-effort: a review that already finished or was never started is not an error
+ */
+export async function cancelReview(reviewId: string, reason: string): Promise<boolean> {
+  try {
+    const body = JSON.stringify({ review_id: reviewId, reason });
+    const response = await fetch(`${AI_SERVICE_URL}/review/${reviewId}/cancel`, {
+      method: 'POST',
+      headers: _serviceHeaders(body),
+      body,
+      signal: AbortSignal.timeout(5000),
+    });
+
+    if (!response.ok && response.status !== 404) {
+      console.error(`AI service failed to cancel review ${reviewId}: ${response.status}`);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`Review cancel request failed for ${reviewId}:`, error);
+    return false;
+  }
+}
+
+export interface FindingDiscussionRequest {
+  repo_id: string;
+  provider: string;
+  api_key: string;
+  finding: {
+    file_path: string;
+    start_line: number | null;
+    end_line: number | null;
+    severity: string;
+    category: string;
+    title: string;
+    message: string;
+    suggestion: string | null;
+    code_snippet: string | null;
+  };
+  // Earlier turns of the conversation about this finding, oldest first
+  messages?: Array<{ role: 'user' | 'assistant'; author?: string; body: string }>;
+}
+
+export interface FindingDiscussionResponse {
+  answer: string;
+  model?: string;
+  tokens_input?: number;
+  tokens_output?: number;
+  cost?: number;
+}
+
+/**
+ * Ask the AI service to explain or discuss one review finding, using the repo's graph context
+ */
+export async function explainFinding(data: FindingDiscussionRequest): Promise<FindingDiscussionResponse> {
+  const body = JSON.stringify(data);
+  const response = await fetch(`${AI_SERVICE_URL}/explain`, {
+    method: 'POST',
+    headers: _serviceHeaders(body),
+    body,
+    signal: AbortSignal.timeout(120000),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`AI Service returned ${response.status}: ${errorText}`);
+  }
+
+  return await response.json();
+}
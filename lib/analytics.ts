@@ -4,10 +4,17 @@ import {
   reviewComments, 
   pullRequests, 
   githubRepositories,
-  reviewInsights 
+  reviewInsights,
+  reviewCommentMessages,
+  reviewCommentFeedback,
+  findingSuppressions,
+  githubInstallations,
 } from "@/db/schema";
-import { eq, and, gte, lte, desc, asc, sql, count, avg, sum, inArray } from "drizzle-orm";
+import { eq, and, gte, lte, ne, desc, asc, sql, count, avg, sum, inArray, isNotNull } from "drizzle-orm";
 import { startOfDay, startOfWeek, startOfMonth, subDays, subWeeks, subMonths, format } from "date-fns";
+import { computePrecision, type FeedbackCounts } from "@/lib/finding-feedback";
+import { classifyLanguage } from "@/lib/languages";
+import type { CommentPlacement, FindingFeedback } from "@/db/types";
 
 /**
  * Analytics Query Layer
@@ -79,6 +86,7 @@ export interface ReviewDetailResponse {
     prNumber: number;
     prTitle: string;
     prDescription: string | null;
+    repositoryId: string;
     repositoryName: string;
     repositoryFullName: string;
     author: string;
@@ -102,6 +110,7 @@ export interface ReviewDetailResponse {
     filePath: string;
     startLine: number | null;
     endLine: number | null;
+    placement: CommentPlacement | null;
     severity: string;
     category: string;
     title: string;
@@ -110,7 +119,22 @@ export interface ReviewDetailResponse {
     codeSnippet: string | null;
     confidence: number | null;
     isResolved: boolean;
+    isPosted: boolean;
+    postAttempts: number;
+    postError: string | null; // Last error from posting to GitHub
     createdAt: Date;
+    conversation: Array<{
+      id: string;
+      role: string;
+      author: string;
+      body: string;
+      githubCommentUrl: string | null;
+      createdAt: Date;
+    }>;
+    feedback: FeedbackCounts & {
+      mine: FindingFeedback | null; // The viewer's dashboard rating
+    };
+    suppressionId: string | null; // Set once the finding was dismissed
   }>;
   prDetails: {
     htmlUrl: string;
@@ -199,6 +223,7 @@ export interface RepositoryInsights {
   };
   hotFiles: Array<{
     filePath: string;
+    language: string;
     reviewCount: number;
     issueCount: number;
     avgSeverity: number;
@@ -208,14 +233,42 @@ export interface RepositoryInsights {
   issuePatterns: {
     byCategory: Array<{ category: string; count: number; percentage: number }>;
     bySeverity: Array<{ severity: string; count: number; percentage: number }>;
+    byLanguage: Array<{ language: string; count: number; percentage: number }>;
     commonIssues: Array<{ title: string; count: number }>;
   };
+  resolution: {
+    postedFindings: number;
+    resolvedFindings: number;
+    resolutionRate: number; // Percentage of posted findings whose GitHub thread was resolved
+    avgHoursToResolve: number;
+    bySeverity: Array<{ severity: string; posted: number; resolved: number; resolutionRate: number }>;
+  };
+}
+
+export interface PrecisionBreakdownItem extends FeedbackCounts {
+  key: string;
+  rated: number;
+  precision: number | null; // Percentage of rated findings that were helpful
+}
+
+export interface FeedbackPrecision {
+  overall: Omit<PrecisionBreakdownItem, "key">;
+  byCategory: PrecisionBreakdownItem[];
+  bySeverity: PrecisionBreakdownItem[];
+  byModel: PrecisionBreakdownItem[];
+  byRepository: PrecisionBreakdownItem[];
 }
 
 // ============================================================================
 // REVIEW HISTORY QUERIES
 // ============================================================================
 
+// Bot commands that ran no review (pause, explain) are stored as codeReviews rows too
+const isReviewRow = () => ne(codeReviews.reviewMode, "command");
+
+// Review count for queries that keep command rows, whose explanations still cost money
+const countReviews = () => count(sql`CASE WHEN ${codeReviews.reviewMode} <> 'command' THEN 1 END`);
+
 /**
  * Get paginated review history with filters
  */
@@ -225,7 +278,7 @@ export async function getReviewHistory(filters: ReviewFilters): Promise<ReviewHi
   const offset = (page - 1) * limit;
 
   // Build WHERE conditions
-  const conditions = [];
+  const conditions = [isReviewRow()];
   
   if (filters.repositoryId) {
     conditions.push(eq(githubRepositories.id, filters.repositoryId));
@@ -278,7 +331,7 @@ export async function getReviewHistory(filters: ReviewFilters): Promise<ReviewHi
     .from(codeReviews)
     .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
     .innerJoin(githubRepositories, eq(pullRequests.repositoryId, githubRepositories.id))
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .where(and(...conditions))
     .orderBy(sortDirection(sortColumn))
     .limit(limit)
     .offset(offset);
@@ -289,7 +342,7 @@ export async function getReviewHistory(filters: ReviewFilters): Promise<ReviewHi
     .from(codeReviews)
     .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
     .innerJoin(githubRepositories, eq(pullRequests.repositoryId, githubRepositories.id))
-    .where(conditions.length > 0 ? and(...conditions) : undefined);
+    .where(and(...conditions));
 
   // Calculate aggregates
   const [aggregates] = await db
@@ -302,7 +355,7 @@ export async function getReviewHistory(filters: ReviewFilters): Promise<ReviewHi
     .from(codeReviews)
     .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
     .innerJoin(githubRepositories, eq(pullRequests.repositoryId, githubRepositories.id))
-    .where(conditions.length > 0 ? and(...conditions) : undefined);
+    .where(and(...conditions));
 
   return {
     reviews: reviews as ReviewHistoryItem[],
@@ -324,7 +377,10 @@ export async function getReviewHistory(filters: ReviewFilters): Promise<ReviewHi
 /**
  * Get full review details with all comments
  */
-export async function getReviewDetails(reviewId: string): Promise<ReviewDetailResponse | null> {
+export async function getReviewDetails(
+  reviewId: string,
+  viewerId?: string
+): Promise<ReviewDetailResponse | null> {
   // Fetch review with PR and repository details
   const [review] = await db
     .select({
@@ -332,6 +388,7 @@ export async function getReviewDetails(reviewId: string): Promise<ReviewDetailRe
       prNumber: pullRequests.prNumber,
       prTitle: pullRequests.title,
       prDescription: pullRequests.description,
+      repositoryId: githubRepositories.id,
       repositoryName: githubRepositories.name,
       repositoryFullName: githubRepositories.fullName,
       author: pullRequests.author,
@@ -377,6 +434,7 @@ export async function getReviewDetails(reviewId: string): Promise<ReviewDetailRe
       filePath: reviewComments.filePath,
       startLine: reviewComments.startLine,
       endLine: reviewComments.endLine,
+      placement: reviewComments.placement,
       severity: reviewComments.severity,
       category: reviewComments.category,
       title: reviewComments.title,
@@ -385,18 +443,60 @@ export async function getReviewDetails(reviewId: string): Promise<ReviewDetailRe
       codeSnippet: reviewComments.codeSnippet,
       confidence: reviewComments.confidence,
       isResolved: reviewComments.isResolved,
+      isPosted: reviewComments.isPosted,
+      postAttempts: reviewComments.postAttempts,
+      postError: reviewComments.postError,
       createdAt: reviewComments.createdAt,
     })
     .from(reviewComments)
     .where(eq(reviewComments.reviewId, reviewId))
     .orderBy(desc(reviewComments.severity), asc(reviewComments.filePath));
 
+  // Follow-up conversations in the GitHub threads of these comments
+  const messages = comments.length > 0
+    ? await db
+        .select({
+          id: reviewCommentMessages.id,
+          reviewCommentId: reviewCommentMessages.reviewCommentId,
+          role: reviewCommentMessages.role,
+          author: reviewCommentMessages.author,
+          body: reviewCommentMessages.body,
+          githubCommentUrl: reviewCommentMessages.githubCommentUrl,
+          createdAt: reviewCommentMessages.createdAt,
+        })
+        .from(reviewCommentMessages)
+        .where(inArray(reviewCommentMessages.reviewCommentId, comments.map((c) => c.id)))
+        .orderBy(asc(reviewCommentMessages.createdAt))
+    : [];
+
+  // Developer ratings of these comments
+  const feedback = comments.length > 0
+    ? await db
+        .select({
+          reviewCommentId: reviewCommentFeedback.reviewCommentId,
+          rating: reviewCommentFeedback.rating,
+          source: reviewCommentFeedback.source,
+          author: reviewCommentFeedback.author,
+        })
+        .from(reviewCommentFeedback)
+        .where(inArray(reviewCommentFeedback.reviewCommentId, comments.map((c) => c.id)))
+    : [];
+
+  // Findings dismissed from this review
+  const suppressions = comments.length > 0
+    ? await db
+        .select({ id: findingSuppressions.id, sourceCommentId: findingSuppressions.sourceCommentId })
+        .from(findingSuppressions)
+        .where(inArray(findingSuppressions.sourceCommentId, comments.map((c) => c.id)))
+    : [];
+
   return {
     review: {
       id: review.id,
       prNumber: review.prNumber,
       prTitle: review.prTitle,
       prDescription: review.prDescription,
+      repositoryId: review.repositoryId,
       repositoryName: review.repositoryName,
       repositoryFullName: review.repositoryFullName,
       author: review.author,
@@ -418,6 +518,19 @@ export async function getReviewDetails(reviewId: string): Promise<ReviewDetailRe
     comments: comments.map((c) => ({
       ...c,
       isResolved: c.isResolved || false,
+      isPosted: c.isPosted || false,
+      postAttempts: c.postAttempts || 0,
+      conversation: messages
+        .filter((m) => m.reviewCommentId === c.id)
+        .map(({ reviewCommentId, ...m }) => {
+          void reviewCommentId;
+          return m;
+        }),
+      feedback: summarizeFeedback(
+        feedback.filter((f) => f.reviewCommentId === c.id),
+        viewerId
+      ),
+      suppressionId: suppressions.find((s) => s.sourceCommentId === c.id)?.id ?? null,
     })),
     prDetails: {
       htmlUrl: review.prHtmlUrl,
@@ -434,6 +547,22 @@ export async function getReviewDetails(reviewId: string): Promise<ReviewDetailRe
   };
 }
 
+/**
+ * Count a comment's ratings and pick out the viewer's own dashboard vote
+ */
+function summarizeFeedback(
+  ratings: Array<{ rating: FindingFeedback; source: string; author: string }>,
+  viewerId?: string
+): ReviewDetailResponse["comments"][number]["feedback"] {
+  const mine = ratings.find((r) => r.source === "dashboard" && r.author === viewerId);
+  return {
+    helpful: ratings.filter((r) => r.rating === "helpful").length,
+    notHelpful: ratings.filter((r) => r.rating === "not_helpful").length,
+    wrong: ratings.filter((r) => r.rating === "wrong").length,
+    mine: mine?.rating ?? null,
+  };
+}
+
 // ============================================================================
 // COST ANALYTICS QUERIES
 // ============================================================================
@@ -463,7 +592,7 @@ export async function getCostSummary(
   const [result] = await db
     .select({
       totalCost: sum(codeReviews.totalCost),
-      reviewCount: count(),
+      reviewCount: countReviews(),
       flashCost: sum(
         sql`COALESCE((
           SELECT SUM((model->>'cost')::float)
@@ -529,7 +658,7 @@ export async function getCostByRepository(
       repoName: githubRepositories.name,
       repoFullName: githubRepositories.fullName,
       totalCost: sum(codeReviews.totalCost),
-      reviewCount: count(),
+      reviewCount: countReviews(),
     })
     .from(codeReviews)
     .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
@@ -567,7 +696,7 @@ export async function getCostTrends(
     .select({
       period: sql<string>`date_trunc(${dateTrunc}, ${codeReviews.completedAt})`,
       totalCost: sum(codeReviews.totalCost),
-      reviewCount: count(),
+      reviewCount: countReviews(),
       flashCost: sum(
         sql`COALESCE((
           SELECT SUM((model->>'cost')::float)
@@ -639,7 +768,7 @@ export async function getCostProjections(
   const [currentData] = await db
     .select({
       totalCost: sum(codeReviews.totalCost),
-      reviewCount: count(),
+      reviewCount: countReviews(),
     })
     .from(codeReviews)
     .where(gte(codeReviews.completedAt, periodStart));
@@ -648,7 +777,7 @@ export async function getCostProjections(
   const [prevData] = await db
     .select({
       totalCost: sum(codeReviews.totalCost),
-      reviewCount: count(),
+      reviewCount: countReviews(),
     })
     .from(codeReviews)
     .where(and(
@@ -704,7 +833,7 @@ export async function getTeamAnalytics(
   dateFrom?: Date,
   dateTo?: Date
 ): Promise<TeamAuthorStats[]> {
-  const conditions = [];
+  const conditions = [isReviewRow()];
   
   if (dateFrom) {
     conditions.push(gte(codeReviews.completedAt, dateFrom));
@@ -731,7 +860,7 @@ export async function getTeamAnalytics(
     })
     .from(pullRequests)
     .innerJoin(codeReviews, eq(pullRequests.id, codeReviews.pullRequestId))
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .where(and(...conditions))
     .groupBy(pullRequests.author)
     .orderBy(desc(count(pullRequests.id)));
 
@@ -759,7 +888,7 @@ export async function getTeamAnalytics(
       .where(
         and(
           eq(pullRequests.author, author.author),
-          ...(conditions.length > 0 ? conditions : [])
+          ...conditions
         )
       );
 
@@ -794,6 +923,93 @@ export async function getTeamAnalytics(
   return results;
 }
 
+// ============================================================================
+// FEEDBACK PRECISION QUERIES
+// ============================================================================
+
+/**
+ * Precision of posted findings, from developer feedback on the user's repositories
+ */
+export async function getFeedbackPrecision(
+  userId: string,
+  dateFrom?: Date,
+  dateTo?: Date
+): Promise<FeedbackPrecision> {
+  const conditions = [eq(githubInstallations.userId, userId)];
+
+  if (dateFrom) {
+    conditions.push(gte(reviewComments.createdAt, dateFrom));
+  }
+
+  if (dateTo) {
+    conditions.push(lte(reviewComments.createdAt, dateTo));
+  }
+
+  const model = sql<string>`COALESCE(${reviewComments.modelUsed}, ${codeReviews.primaryModel}, 'unknown')`;
+
+  const rows = await db
+    .select({
+      category: reviewComments.category,
+      severity: reviewComments.severity,
+      model,
+      repository: githubRepositories.fullName,
+      rating: reviewCommentFeedback.rating,
+      count: count(),
+    })
+    .from(reviewCommentFeedback)
+    .innerJoin(reviewComments, eq(reviewCommentFeedback.reviewCommentId, reviewComments.id))
+    .innerJoin(codeReviews, eq(reviewComments.reviewId, codeReviews.id))
+    .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
+    .innerJoin(githubRepositories, eq(pullRequests.repositoryId, githubRepositories.id))
+    .innerJoin(githubInstallations, eq(githubRepositories.installationId, githubInstallations.id))
+    .where(and(...conditions))
+    .groupBy(
+      reviewComments.category,
+      reviewComments.severity,
+      model,
+      githubRepositories.fullName,
+      reviewCommentFeedback.rating
+    );
+
+  const breakdown = (keyOf: (row: (typeof rows)[number]) => string): PrecisionBreakdownItem[] => {
+    const groups = new Map<string, FeedbackCounts>();
+    for (const row of rows) {
+      const key = keyOf(row);
+      const counts = groups.get(key) ?? { helpful: 0, notHelpful: 0, wrong: 0 };
+      const n = Number(row.count) || 0;
+      if (row.rating === "helpful") counts.helpful += n;
+      else if (row.rating === "not_helpful") counts.notHelpful += n;
+      else counts.wrong += n;
+      groups.set(key, counts);
+    }
+
+    return [...groups.entries()]
+      .map(([key, counts]) => ({
+        key,
+        ...counts,
+        rated: counts.helpful + counts.notHelpful + counts.wrong,
+        precision: computePrecision(counts),
+      }))
+      .sort((a, b) => b.rated - a.rated);
+  };
+
+  const overall = breakdown(() => "all")[0] ?? { helpful: 0, notHelpful: 0, wrong: 0, rated: 0, precision: null };
+
+  return {
+    overall: {
+      helpful: overall.helpful,
+      notHelpful: overall.notHelpful,
+      wrong: overall.wrong,
+      rated: overall.rated,
+      precision: overall.precision,
+    },
+    byCategory: breakdown((r) => r.category),
+    bySeverity: breakdown((r) => r.severity),
+    byModel: breakdown((r) => r.model),
+    byRepository: breakdown((r) => r.repository),
+  };
+}
+
 // ============================================================================
 // REPOSITORY INSIGHTS QUERIES
 // ============================================================================
@@ -820,7 +1036,7 @@ export async function getRepositoryInsights(
     return null;
   }
 
-  const conditions = [eq(pullRequests.repositoryId, repositoryId)];
+  const conditions = [eq(pullRequests.repositoryId, repositoryId), isReviewRow()];
   
   if (dateFrom) {
     conditions.push(gte(codeReviews.completedAt, dateFrom));
@@ -904,6 +1120,24 @@ export async function getRepositoryInsights(
     .groupBy(reviewComments.severity)
     .orderBy(desc(count()));
 
+  // Get issue patterns by language, classified from the files' paths
+  const fileIssueCounts = await db
+    .select({
+      filePath: reviewComments.filePath,
+      count: count(),
+    })
+    .from(reviewComments)
+    .innerJoin(codeReviews, eq(reviewComments.reviewId, codeReviews.id))
+    .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
+    .where(and(...conditions))
+    .groupBy(reviewComments.filePath);
+
+  const languageCounts = new Map<string, number>();
+  for (const f of fileIssueCounts) {
+    const language = classifyLanguage(f.filePath).name;
+    languageCounts.set(language, (languageCounts.get(language) ?? 0) + Number(f.count));
+  }
+
   // Get common issues (most frequent titles)
   const commonIssues = await db
     .select({
@@ -918,6 +1152,29 @@ export async function getRepositoryInsights(
     .orderBy(desc(count()))
     .limit(10);
 
+  // Resolution of posted findings, synced from GitHub review threads
+  const resolutionStats = await db
+    .select({
+      severity: reviewComments.severity,
+      posted: count(),
+      resolved: sum(sql`CASE WHEN ${reviewComments.isResolved} THEN 1 ELSE 0 END`),
+      hoursToResolve: sum(sql`
+        CASE WHEN ${reviewComments.isResolved} AND ${reviewComments.resolvedAt} IS NOT NULL
+          THEN EXTRACT(EPOCH FROM (${reviewComments.resolvedAt} - ${reviewComments.createdAt})) / 3600
+          ELSE 0
+        END
+      `),
+    })
+    .from(reviewComments)
+    .innerJoin(codeReviews, eq(reviewComments.reviewId, codeReviews.id))
+    .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
+    .where(and(...conditions, isNotNull(reviewComments.githubCommentId)))
+    .groupBy(reviewComments.severity);
+
+  const postedFindings = resolutionStats.reduce((total, r) => total + Number(r.posted), 0);
+  const resolvedFindings = resolutionStats.reduce((total, r) => total + (Number(r.resolved) || 0), 0);
+  const totalHoursToResolve = resolutionStats.reduce((total, r) => total + (Number(r.hoursToResolve) || 0), 0);
+
   return {
     repository: repo,
     overview: {
@@ -929,6 +1186,7 @@ export async function getRepositoryInsights(
     },
     hotFiles: hotFiles.map((f) => ({
       filePath: f.filePath,
+      language: classifyLanguage(f.filePath).name,
       reviewCount: Number(f.reviewCount) || 0,
       issueCount: Number(f.issueCount) || 0,
       avgSeverity: Number(f.avgSeverity) || 0,
@@ -946,10 +1204,33 @@ export async function getRepositoryInsights(
         count: Number(p.count) || 0,
         percentage: totalIssues > 0 ? (Number(p.count) / totalIssues) * 100 : 0,
       })),
+      byLanguage: [...languageCounts.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .map(([language, count]) => ({
+          language,
+          count,
+          percentage: totalIssues > 0 ? (count / totalIssues) * 100 : 0,
+        })),
       commonIssues: commonIssues.map((i) => ({
         title: i.title,
         count: Number(i.count) || 0,
       })),
     },
+    resolution: {
+      postedFindings,
+      resolvedFindings,
+      resolutionRate: postedFindings > 0 ? (resolvedFindings / postedFindings) * 100 : 0,
+      avgHoursToResolve: resolvedFindings > 0 ? totalHoursToResolve / resolvedFindings : 0,
+      bySeverity: resolutionStats.map((r) => {
+        const posted = Number(r.posted) || 0;
+        const resolved = Number(r.resolved) || 0;
+        return {
+          severity: r.severity,
+          posted,
+          resolved,
+          resolutionRate: posted > 0 ? (resolved / posted) * 100 : 0,
+        };
+      }),
+    },
   };
 }
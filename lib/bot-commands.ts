@@ -0,0 +1,285 @@
+/**
+ * Bot Commands
+ * "@graphbug ..." commands left as PR conversation comments
+ */
+
+import { and, eq } from "drizzle-orm";
+import { db, codeReviews, pullRequests, reviewComments } from "@/db/schema";
+import { createCodeReview, getLatestReviewForPR } from "@/db/queries";
+import type { CodeReview, ReviewComment } from "@/db/types";
+import { explainFinding } from "@/lib/ai-service";
+import { resolveUserApiKey } from "@/lib/review-pipeline";
+
+export type BotCommand =
+  | { name: "review"; path: string | null }
+  | { name: "pause" }
+  | { name: "resume" }
+  | { name: "explain"; link: string | null }
+  | { name: "help"; unknown: string | null };
+
+// Repo roles allowed to run commands; reviews spend the installation owner's API key
+const COMMAND_PERMISSIONS = new Set(["admin", "maintain", "write"]);
+
+export const BOT_HELP = [
+  "**GraphBug commands**",
+  "",
+  "- `@graphbug review` - review the whole pull request again",
+  "- `@graphbug review <path>` - review only files under a directory, file or glob",
+  "- `@graphbug pause` / `@graphbug resume` - stop or restart automatic reviews on this pull request",
+  "- `@graphbug explain <comment link>` - explain one of GraphBug's review comments in more detail",
+].join("\n");
+
+export interface ExplainFindingJobPayload {
+  commandReviewId: string; // codeReviews row recording the command
+  findingId: string;
+  repoDbId: string;
+  repoFullName: string;
+  prNumber: number;
+  installationId: number;
+  userId: string | null;
+  requestedBy: string;
+}
+
+/**
+ * Names the bot answers to: @graphbug, plus the GitHub App's own slug
+ */
+function getMentionNames(): string[] {
+  const appName = process.env.NEXT_PUBLIC_GITHUB_APP_NAME;
+  return appName && appName !== "graphbug" ? ["graphbug", appName] : ["graphbug"];
+}
+
+/**
+ * Find the first line of a comment addressed to the bot and parse its command
+ */
+export function parseBotCommand(body: string): BotCommand | null {
+  const names = getMentionNames().map((n) => n.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|");
+  const match = body.match(new RegExp(`^\\s*@(?:${names})(?:\\[bot\\])?(?:\\s+(.*))?$`, "im"));
+  if (!match) return null;
+
+  const [name = "", ...args] = (match[1] ?? "").trim().split(/\s+/).filter(Boolean);
+
+  switch (name.toLowerCase()) {
+    case "review":
+      return { name: "review", path: args[0] ?? null };
+    case "pause":
+      return { name: "pause" };
+    case "resume":
+      return { name: "resume" };
+    case "explain":
+      return { name: "explain", link: args[0] ?? null };
+    case "":
+    case "help":
+      return { name: "help", unknown: null };
+    default:
+      return { name: "help", unknown: name };
+  }
+}
+
+/**
+ * Command as recorded on its codeReviews row, e.g. "review src/api"
+ */
+export function formatBotCommand(command: BotCommand): string {
+  switch (command.name) {
+    case "review":
+      return command.path ? `review ${command.path}` : "review";
+    case "explain":
+      return `explain ${command.link ?? ""}`.trim();
+    default:
+      return command.name;
+  }
+}
+
+/**
+ * GitHub comment ID from a comment link (or a bare ID)
+ */
+export function parseCommentLink(link: string): number | null {
+  const match = link.match(/#discussion_r(\d+)$/) ?? link.match(/#issuecomment-(\d+)$/) ?? link.match(/^(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Whether a repository permission level may run bot commands
+ */
+export function canRunBotCommands(permission: string): boolean {
+  return COMMAND_PERMISSIONS.has(permission);
+}
+
+/**
+ * Record a command that doesn't run a review as a manual codeReviews row
+ */
+export async function recordBotCommand(
+  pullRequestId: string,
+  command: string,
+  requestedBy: string,
+  status: "in_progress" | "completed" | "failed",
+  errorMessage: string | null = null
+): Promise<CodeReview> {
+  const latest = await getLatestReviewForPR(pullRequestId);
+  return await createCodeReview({
+    pullRequestId,
+    reviewVersion: (latest?.reviewVersion ?? 0) + 1,
+    triggerType: "manual",
+    triggerCommand: command,
+    triggeredBy: requestedBy,
+    reviewMode: "command",
+    status,
+    errorMessage,
+    startedAt: new Date(),
+    completedAt: status === "in_progress" ? null : new Date(),
+  });
+}
+
+/**
+ * Pause or resume automatic reviews of a PR
+ */
+export async function setReviewsPaused(pullRequestId: string, paused: boolean): Promise<void> {
+  await db
+    .update(pullRequests)
+    .set({ reviewsPaused: paused, updatedAt: new Date() })
+    .where(eq(pullRequests.id, pullRequestId));
+}
+
+/**
+ * Whether automatic reviews of a PR were paused with "@graphbug pause"
+ */
+export async function isReviewPaused(repoDbId: string, prNumber: number): Promise<boolean> {
+  const [pr] = await db
+    .select({ reviewsPaused: pullRequests.reviewsPaused })
+    .from(pullRequests)
+    .where(and(eq(pullRequests.repositoryId, repoDbId), eq(pullRequests.prNumber, prNumber)))
+    .limit(1);
+  return pr?.reviewsPaused ?? false;
+}
+
+/**
+ * Find a posted finding in a repository by its GitHub comment ID
+ */
+export async function findFindingByGitHubCommentId(
+  repoDbId: string,
+  githubCommentId: number
+): Promise<ReviewComment | null> {
+  const [row] = await db
+    .select({ comment: reviewComments })
+    .from(reviewComments)
+    .innerJoin(codeReviews, eq(reviewComments.reviewId, codeReviews.id))
+    .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
+    .where(and(eq(reviewComments.githubCommentId, githubCommentId), eq(pullRequests.repositoryId, repoDbId)))
+    .limit(1);
+  return row?.comment ?? null;
+}
+
+/**
+ * Finish a command row
+ */
+async function completeBotCommand(
+  commandReviewId: string,
+  update: Partial<Pick<CodeReview, "status" | "errorMessage" | "totalCost" | "totalTokensInput" | "totalTokensOutput">>
+): Promise<void> {
+  await db
+    .update(codeReviews)
+    .set({ status: "completed", ...update, completedAt: new Date() })
+    .where(eq(codeReviews.id, commandReviewId));
+}
+
+/**
+ * Ask the ai-service to explain a finding and reply on the PR.
+ * Runs as a job; throws so AI and GitHub errors are retried.
+ */
+export async function explainFindingJob(job: ExplainFindingJobPayload): Promise<void> {
+  const [command] = await db
+    .select()
+    .from(codeReviews)
+    .where(eq(codeReviews.id, job.commandReviewId))
+    .limit(1);
+
+  // A retried job may have finished already
+  if (!command || command.status !== "in_progress") return;
+
+  // Stored before posting: a retry posts the same reply instead of asking the ai-service again
+  const reply = command.commandReply ? command : await prepareExplainReply(job);
+  if (!reply) return;
+
+  const { GitHubAPIClient, parseRepoFullName } = await import("@/lib/github-pr");
+  const { owner, repo } = parseRepoFullName(job.repoFullName);
+  const client = new GitHubAPIClient(job.installationId);
+  await client.postPRComment(owner, repo, job.prNumber, reply.commandReply!);
+
+  await completeBotCommand(job.commandReviewId, { status: reply.errorMessage ? "failed" : "completed" });
+  console.log(`✅ Explained finding ${job.findingId} on PR #${job.prNumber}`);
+}
+
+/**
+ * Write the reply to an explain command and store it on the command row.
+ * Returns the updated row, or null when the finding is gone and the command was failed instead.
+ */
+async function prepareExplainReply(job: ExplainFindingJobPayload): Promise<CodeReview | null> {
+  const [finding] = await db
+    .select()
+    .from(reviewComments)
+    .where(eq(reviewComments.id, job.findingId))
+    .limit(1);
+
+  if (!finding) {
+    await completeBotCommand(job.commandReviewId, { status: "failed", errorMessage: "Finding was deleted" });
+    return null;
+  }
+
+  const credentials = job.userId ? await resolveUserApiKey(job.userId) : null;
+  if (!credentials) {
+    return await storeCommandReply(job.commandReviewId, {
+      commandReply: `@${job.requestedBy} I can't explain this finding because no AI API key is configured for this installation.`,
+      errorMessage: "No API key configured",
+    });
+  }
+
+  const result = await explainFinding({
+    repo_id: job.repoDbId,
+    provider: credentials.provider,
+    api_key: credentials.apiKey,
+    finding: {
+      file_path: finding.filePath,
+      start_line: finding.startLine,
+      end_line: finding.endLine,
+      severity: finding.severity,
+      category: finding.category,
+      title: finding.title,
+      message: finding.message,
+      suggestion: finding.suggestion,
+      code_snippet: finding.codeSnippet,
+    },
+  });
+
+  const location = finding.startLine ? `${finding.filePath}:${finding.startLine}` : finding.filePath;
+  return await storeCommandReply(job.commandReviewId, {
+    commandReply: [
+      `@${job.requestedBy} here's more detail on **${finding.title}** (\`${location}\`):`,
+      "",
+      result.answer,
+    ].join("\n"),
+    totalCost: result.cost ?? 0,
+    totalTokensInput: result.tokens_input ?? 0,
+    totalTokensOutput: result.tokens_output ?? 0,
+  });
+}
+
+/**
+ * Store the reply a command is about to post
+ */
+async function storeCommandReply(
+  commandReviewId: string,
+  update: Partial<Pick<CodeReview, "commandReply" | "errorMessage" | "totalCost" | "totalTokensInput" | "totalTokensOutput">>
+): Promise<CodeReview> {
+  const [command] = await db
+    .update(codeReviews)
+    .set(update)
+    .where(eq(codeReviews.id, commandReviewId))
+    .returning();
+  return command;
+}
+
+/**
+ * Called when an explain job runs out of attempts
+ */
+export async function abandonExplainFinding(job: ExplainFindingJobPayload): Promise<void> {
+  await completeBotCommand(job.commandReviewId, { status: "failed", errorMessage: "Explanation could not be generated" });
+}
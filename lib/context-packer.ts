@@ -0,0 +1,199 @@
+/**
+ * Context Packer
+ * Fits the patches sent to the ai-service into a token budget. Files are ranked by
+ * complexity, sensitivity and size; the most important keep their full patch, the rest
+ * lose context lines or are reduced to a one-line summary, and what doesn't fit is dropped.
+ */
+
+import type { DiffHunk } from "@/lib/diff-parser";
+
+export type PackingMode = "full" | "trimmed" | "summary";
+
+// Tokens for a whole review's patches unless REVIEW_CONTEXT_TOKEN_BUDGET says otherwise
+const DEFAULT_TOKEN_BUDGET = 100_000;
+
+// Filename, status, counts and the other fields sent with every file
+const FILE_OVERHEAD_TOKENS = 20;
+
+// Context lines kept around each change when a patch is trimmed
+const TRIMMED_CONTEXT_LINES = 1;
+
+// Rough ratio for code; the ai-service's tokenizer isn't available here
+const CHARS_PER_TOKEN = 4;
+
+export interface PackableFile {
+  filename: string;
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+  complexity: number; // calculateDiffComplexity, 0-100
+  sensitive: boolean;
+  symbols?: string[]; // Enclosing symbols, named in summaries
+}
+
+export interface PackedFile {
+  filename: string;
+  mode: PackingMode;
+  patch?: string; // Full or trimmed
+  summary?: string; // Replaces the patch in summary mode
+  tokens: number;
+}
+
+export interface PackingResult {
+  files: PackedFile[]; // In the input order, without dropped files
+  tokenBudget: number;
+  estimatedTokens: number;
+  truncated: Array<{ filename: string; mode: Exclude<PackingMode, "full"> }>;
+  dropped: string[];
+}
+
+/**
+ * Token budget for a review's patches (REVIEW_CONTEXT_TOKEN_BUDGET)
+ */
+export function getContextTokenBudget(): number {
+  const configured = parseInt(process.env.REVIEW_CONTEXT_TOKEN_BUDGET || "");
+  return configured > 0 ? configured : DEFAULT_TOKEN_BUDGET;
+}
+
+/**
+ * Approximate token count of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Review priority of a file: complex, sensitive and large changes first
+ */
+export function getFilePriority(file: Pick<PackableFile, "complexity" | "sensitive" | "additions" | "deletions">): number {
+  const size = Math.min((file.additions + file.deletions) / 10, 30);
+  return file.complexity + (file.sensitive ? 50 : 0) + size;
+}
+
+/**
+ * Unified diff text of hunks. With `contextLines`, unchanged lines further than that from a
+ * change are left out and hunks are split where they were, with headers renumbered to match.
+ */
+export function renderPatch(hunks: DiffHunk[], contextLines?: number): string {
+  const out: string[] = [];
+
+  for (const hunk of hunks) {
+    // Old and new line number each line starts at; "no-newline" markers don't move them
+    let oldLine = hunk.oldStart;
+    let newLine = hunk.newStart;
+    const rows = hunk.lines
+      .filter((line) => line.type !== "no-newline")
+      .map((line) => {
+        const row = { line, oldLine, newLine };
+        if (line.type !== "add") oldLine++;
+        if (line.type !== "delete") newLine++;
+        return row;
+      });
+
+    // The parsed header is only the section text after the "@@ ... @@" range
+    const section = hunk.header ? ` ${hunk.header}` : "";
+
+    if (contextLines === undefined) {
+      out.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@${section}`);
+      out.push(...rows.map(({ line }) => formatDiffLine(line)));
+      continue;
+    }
+
+    const changed = rows.map((r, i) => (r.line.type === "context" ? -1 : i)).filter((i) => i !== -1);
+    const kept = rows.map((_, i) => changed.some((c) => Math.abs(c - i) <= contextLines));
+
+    for (let i = 0; i < rows.length; i++) {
+      if (!kept[i]) continue;
+      let end = i;
+      while (end + 1 < rows.length && kept[end + 1]) end++;
+
+      const part = rows.slice(i, end + 1);
+      const oldCount = part.filter((r) => r.line.type !== "add").length;
+      const newCount = part.filter((r) => r.line.type !== "delete").length;
+      // An empty side is numbered from the line before it, like git does
+      const oldStart = oldCount === 0 ? part[0].oldLine - 1 : part[0].oldLine;
+      const newStart = newCount === 0 ? part[0].newLine - 1 : part[0].newLine;
+
+      out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${section}`);
+      out.push(...part.map(({ line }) => formatDiffLine(line)));
+      i = end;
+    }
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * A diff line with its +, - or space prefix
+ */
+function formatDiffLine(line: DiffHunk["lines"][number]): string {
+  const prefix = line.type === "add" ? "+" : line.type === "delete" ? "-" : " ";
+  return `${prefix}${line.content}`;
+}
+
+/**
+ * One-line stand-in for a patch that didn't fit the budget
+ */
+export function summarizePatch(file: PackableFile): string {
+  const hunks = `${file.hunks.length} hunk${file.hunks.length === 1 ? "" : "s"}`;
+  const symbols = file.symbols && file.symbols.length > 0 ? `; touches ${file.symbols.join(", ")}` : "";
+  return `Patch omitted to fit the review budget: +${file.additions} -${file.deletions} in ${hunks}${symbols}`;
+}
+
+/**
+ * Fit files into a token budget. Every file first gets its summary (lowest-priority files are
+ * dropped if even those don't fit), then files are upgraded in priority order to their full
+ * patch, or a trimmed one, as far as the remaining budget allows.
+ */
+export function packFiles(files: PackableFile[], tokenBudget: number): PackingResult {
+  const ranked = files
+    .map((file, index) => ({ file, index, priority: getFilePriority(file) }))
+    .sort((a, b) => b.priority - a.priority || a.index - b.index);
+
+  const packed = new Map<number, PackedFile>();
+  let used = 0;
+  const dropped: string[] = [];
+
+  for (const { file, index } of ranked) {
+    // Files without hunks have no patch to cut
+    const summary = file.hunks.length > 0 ? summarizePatch(file) : undefined;
+    const tokens = FILE_OVERHEAD_TOKENS + estimateTokens(file.filename) + estimateTokens(summary ?? "");
+    if (used + tokens > tokenBudget) {
+      dropped.push(file.filename);
+      continue;
+    }
+    packed.set(index, { filename: file.filename, mode: summary ? "summary" : "full", summary, tokens });
+    used += tokens;
+  }
+
+  for (const { file, index } of ranked) {
+    const current = packed.get(index);
+    if (!current || file.hunks.length === 0) continue;
+
+    const overhead = FILE_OVERHEAD_TOKENS + estimateTokens(file.filename);
+    const full = renderPatch(file.hunks);
+    const candidates: Array<[PackingMode, string]> = [["full", full]];
+    const trimmed = renderPatch(file.hunks, TRIMMED_CONTEXT_LINES);
+    if (trimmed.length < full.length) candidates.push(["trimmed", trimmed]);
+
+    for (const [mode, patch] of candidates) {
+      const tokens = overhead + estimateTokens(patch);
+      if (used - current.tokens + tokens <= tokenBudget) {
+        used += tokens - current.tokens;
+        packed.set(index, { filename: file.filename, mode, patch, tokens });
+        break;
+      }
+    }
+  }
+
+  const result = [...packed.entries()].sort(([a], [b]) => a - b).map(([, file]) => file);
+  return {
+    files: result,
+    tokenBudget,
+    estimatedTokens: used,
+    truncated: result
+      .filter((f): f is PackedFile & { mode: Exclude<PackingMode, "full"> } => f.mode !== "full")
+      .map((f) => ({ filename: f.filename, mode: f.mode })),
+    dropped,
+  };
+}
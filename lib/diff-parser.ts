@@ -3,6 +3,13 @@
  * Handles diff parsing, hunk extraction, and change analysis
  */
 
+import type { EnclosingSymbol } from "./symbol-scopes"
+import { classifyLanguage, UNKNOWN_LANGUAGE } from "./languages"
+import { getLinguistAttribute, LINGUIST_ATTRIBUTES, type GitAttributesRule, type LinguistAttribute } from "./gitattributes"
+
+// Git's blob ID of an empty file
+const EMPTY_BLOB_SHA = "e69de29bb2d1d6434b8b29ae775ad8c2e48c5391"
+
 export interface DiffHunk {
   oldStart: number
   oldLines: number
@@ -19,21 +26,31 @@ export interface DiffLine {
   newLineNumber?: number
 }
 
+export type DiffFileStatus = "added" | "removed" | "modified" | "renamed" | "copied"
+
 export interface ParsedDiff {
   filename: string
-  status: "added" | "removed" | "modified" | "renamed"
-  oldFilename?: string
+  status: DiffFileStatus
+  previousFilename?: string // Source of a rename or copy
+  similarity?: number // Percent of content kept by a rename or copy
+  oldMode?: string // File modes, set when they changed (e.g. "100644" -> "100755")
+  newMode?: string
   additions: number
   deletions: number
   changes: number
   hunks: DiffHunk[]
   language?: string
   isBinary: boolean
+  patchTruncated?: boolean // GitHub left out the patch of a text file; its changes aren't in the hunks
 }
 
+// Why a file was left out of the review: binary, the built-in skip list, or a .gitattributes marker
+export type SkipReason = "binary" | "default" | LinguistAttribute
+
 export interface FileChange {
   filename: string
-  status: "added" | "removed" | "modified" | "renamed"
+  status: DiffFileStatus
+  previousFilename?: string
   additions: number
   deletions: number
   changedLines: Array<{
@@ -42,7 +59,9 @@ export interface FileChange {
     content: string
   }>
   affectedFunctions?: string[]
+  enclosingSymbols?: EnclosingSymbol[] // Symbols around the changed lines, from the head contents
   language?: string
+  patchTruncated?: boolean
 }
 
 /**
@@ -66,6 +85,7 @@ export function parseDiff(diffText: string): ParsedDiff[] {
         currentFile.hunks.push(currentHunk)
       }
       if (currentFile) {
+        currentFile.changes = currentFile.additions + currentFile.deletions
         files.push(currentFile)
       }
 
@@ -87,7 +107,7 @@ export function parseDiff(diffText: string): ParsedDiff[] {
 
         if (oldPath !== newPath) {
           currentFile.status = "renamed"
-          currentFile.oldFilename = oldPath
+          currentFile.previousFilename = oldPath
         }
       }
       currentHunk = null
@@ -96,15 +116,9 @@ export function parseDiff(diffText: string): ParsedDiff[] {
 
     if (!currentFile) continue
 
-    // File status indicators
-    if (line.startsWith("new file")) {
-      currentFile.status = "added"
-    } else if (line.startsWith("deleted file")) {
-      currentFile.status = "removed"
-    } else if (line.startsWith("rename from")) {
-      currentFile.status = "renamed"
-    } else if (line.startsWith("Binary files")) {
-      currentFile.isBinary = true
+    // Extended headers between "diff --git" and the first hunk
+    if (!currentHunk) {
+      parseExtendedHeader(currentFile, line)
     }
 
     // Hunk header: @@ -oldStart,oldLines +newStart,newLines @@
@@ -176,6 +190,70 @@ export function parseDiff(diffText: string): ParsedDiff[] {
   return files
 }
 
+/**
+ * Apply one git extended header line (status, rename/copy source, similarity, modes) to a file
+ */
+function parseExtendedHeader(file: ParsedDiff, line: string): void {
+  const [, key, value] = line.match(/^(new file mode|deleted file mode|old mode|new mode|similarity index|rename from|rename to|copy from|copy to) (.+)$/) ?? []
+
+  switch (key) {
+    case "new file mode":
+      file.status = "added"
+      file.newMode = value
+      break
+    case "deleted file mode":
+      file.status = "removed"
+      file.oldMode = value
+      break
+    case "old mode":
+      file.oldMode = value
+      break
+    case "new mode":
+      file.newMode = value
+      break
+    case "similarity index":
+      file.similarity = parseInt(value)
+      break
+    case "rename from":
+      file.status = "renamed"
+      file.previousFilename = value
+      break
+    case "copy from":
+      file.status = "copied"
+      file.previousFilename = value
+      break
+    case "rename to":
+    case "copy to":
+      file.filename = value
+      break
+    default:
+      if (line.startsWith("Binary files")) file.isBinary = true
+  }
+}
+
+/**
+ * Path the file had before the diff, for mapping findings on the old version.
+ * A copy leaves its source in place, so it only maps its own path.
+ */
+export function getPathBeforeDiff(parsedDiff: ParsedDiff): string {
+  return parsedDiff.status === "renamed" && parsedDiff.previousFilename
+    ? parsedDiff.previousFilename
+    : parsedDiff.filename
+}
+
+/**
+ * Whether a file's content is unchanged: a pure rename, copy or mode change
+ */
+export function isContentUnchanged(parsedDiff: ParsedDiff): boolean {
+  return (
+    !parsedDiff.isBinary &&
+    !parsedDiff.patchTruncated &&
+    parsedDiff.hunks.length === 0 &&
+    parsedDiff.status !== "added" &&
+    parsedDiff.status !== "removed"
+  )
+}
+
 /**
  * Extract only the changed lines from a diff
  */
@@ -207,52 +285,27 @@ export function extractChangedLines(parsedDiff: ParsedDiff): FileChange {
   return {
     filename: parsedDiff.filename,
     status: parsedDiff.status,
+    previousFilename: parsedDiff.previousFilename,
     additions: parsedDiff.additions,
     deletions: parsedDiff.deletions,
     changedLines,
-    language: detectLanguage(parsedDiff.filename),
+    language: parsedDiff.language ?? detectLanguage(parsedDiff.filename, getFirstLine(parsedDiff)),
+    patchTruncated: parsedDiff.patchTruncated,
   }
 }
 
 /**
- * Detect programming language from filename
+ * First line of the file's new version, when the diff shows it (enough to read a shebang)
  */
-export function detectLanguage(filename: string): string | undefined {
-  const ext = filename.split(".").pop()?.toLowerCase()
-  
-  const languageMap: Record<string, string> = {
-    ts: "typescript",
-    tsx: "typescript",
-    js: "javascript",
-    jsx: "javascript",
-    py: "python",
-    rb: "ruby",
-    go: "go",
-    rs: "rust",
-    java: "java",
-    c: "c",
-    cpp: "cpp",
-    cs: "csharp",
-    php: "php",
-    swift: "swift",
-    kt: "kotlin",
-    scala: "scala",
-    sql: "sql",
-    html: "html",
-    css: "css",
-    scss: "scss",
-    json: "json",
-    yaml: "yaml",
-    yml: "yaml",
-    md: "markdown",
-    sh: "bash",
-    bash: "bash",
-    dockerfile: "dockerfile",
-  }
+function getFirstLine(parsedDiff: ParsedDiff): string | undefined {
+  return parsedDiff.hunks[0]?.lines.find((l) => l.newLineNumber === 1)?.content
+}
 
-  if (filename.toLowerCase() === "dockerfile") return "dockerfile"
-  
-  return ext ? languageMap[ext] : undefined
+/**
+ * Detect a file's language by name, or by its shebang when `content` starts with one
+ */
+export function detectLanguage(filename: string, content?: string): string {
+  return classifyLanguage(filename, content).name
 }
 
 /**
@@ -264,7 +317,7 @@ export function groupFilesByLanguage(
   const grouped: Record<string, FileChange[]> = {}
 
   for (const file of files) {
-    const lang = file.language || "unknown"
+    const lang = file.language || UNKNOWN_LANGUAGE.name
     if (!grouped[lang]) {
       grouped[lang] = []
     }
@@ -312,7 +365,7 @@ export function calculateDiffStats(parsedDiffs: ParsedDiff[]): DiffStats {
       (stats.filesByStatus[diff.status] || 0) + 1
 
     // Count by language
-    const lang = detectLanguage(diff.filename) || "unknown"
+    const lang = diff.language ?? detectLanguage(diff.filename)
     stats.filesByLanguage[lang] = (stats.filesByLanguage[lang] || 0) + 1
 
     // Track file changes
@@ -398,13 +451,28 @@ export function shouldReviewFile(filename: string): boolean {
   return !skipPatterns.some((pattern) => pattern.test(filename))
 }
 
+/**
+ * Why a file isn't reviewed, or null when it is. `linguist-generated=false` or
+ * `linguist-vendored=false` in .gitattributes overrides the built-in skip list.
+ */
+export function getSkipReason(file: ParsedDiff, gitAttributes: GitAttributesRule[] = []): SkipReason | null {
+  if (file.isBinary) return "binary"
+
+  for (const attribute of LINGUIST_ATTRIBUTES) {
+    if (getLinguistAttribute(gitAttributes, file.filename, attribute)) return attribute
+  }
+
+  const keep =
+    getLinguistAttribute(gitAttributes, file.filename, "linguist-generated") === false ||
+    getLinguistAttribute(gitAttributes, file.filename, "linguist-vendored") === false
+  return !keep && !shouldReviewFile(file.filename) ? "default" : null
+}
+
 /**
  * Filter files that need review
  */
-export function filterReviewableFiles(files: ParsedDiff[]): ParsedDiff[] {
-  return files.filter(
-    (file) => !file.isBinary && shouldReviewFile(file.filename)
-  )
+export function filterReviewableFiles(files: ParsedDiff[], gitAttributes: GitAttributesRule[] = []): ParsedDiff[] {
+  return files.filter((file) => getSkipReason(file, gitAttributes) === null)
 }
 
 /**
@@ -503,6 +571,115 @@ export function calculateDiffComplexity(parsedDiff: ParsedDiff): number {
   return Math.min(score, 100) // Cap at 100
 }
 
+/**
+ * Whether a file without a patch had its content changed. Pure renames and copies, mode
+ * changes and empty files have no patch either, but aren't binary.
+ */
+function hasContentChange(file: { status: string; sha?: string | null }): boolean {
+  return ["added", "modified", "removed"].includes(file.status) && file.sha !== EMPTY_BLOB_SHA
+}
+
+/**
+ * Build a unified diff from per-file patches (as returned by the pulls/compare APIs)
+ * so it can go through parseDiff like a full PR diff
+ */
+export function buildDiffFromPatches(
+  files: Array<{
+    filename: string
+    status: string
+    patch?: string
+    previous_filename?: string
+    changes?: number
+    sha?: string | null
+  }>
+): string {
+  const sections: string[] = []
+
+  for (const file of files) {
+    const oldPath = file.previous_filename || file.filename
+    const header = [`diff --git a/${oldPath} b/${file.filename}`]
+
+    if (file.status === "added") {
+      header.push("new file mode 100644")
+    } else if (file.status === "removed") {
+      header.push("deleted file mode 100644")
+    } else if (file.status === "copied") {
+      header.push(`copy from ${oldPath}`, `copy to ${file.filename}`)
+    } else if (oldPath !== file.filename) {
+      header.push(`rename from ${oldPath}`, `rename to ${file.filename}`)
+    }
+
+    if (!file.patch) {
+      // GitHub omits the patch for binary files and very large diffs; only the latter count changed lines
+      if (!isPatchTruncated(file) && hasContentChange(file)) {
+        header.push(`Binary files a/${oldPath} and b/${file.filename} differ`)
+      }
+      sections.push(header.join("\n"))
+      continue
+    }
+
+    header.push(
+      `--- ${file.status === "added" ? "/dev/null" : `a/${oldPath}`}`,
+      `+++ ${file.status === "removed" ? "/dev/null" : `b/${file.filename}`}`
+    )
+    sections.push([...header, file.patch].join("\n"))
+  }
+
+  return sections.join("\n")
+}
+
+/**
+ * Map a line number in the old version of a file to the new version.
+ * Returns null if the line was deleted or modified by the diff.
+ */
+export function mapLineThroughDiff(parsedDiff: ParsedDiff, oldLine: number): number | null {
+  if (parsedDiff.status === "removed") return null
+
+  let offset = 0
+
+  for (const hunk of parsedDiff.hunks) {
+    // Pure insertion: "@@ -5,0 +6,2 @@" adds lines after old line 5
+    if (hunk.oldLines === 0) {
+      if (oldLine <= hunk.oldStart) return oldLine + offset
+      offset += hunk.newLines
+      continue
+    }
+
+    if (oldLine < hunk.oldStart) return oldLine + offset
+
+    if (oldLine < hunk.oldStart + hunk.oldLines) {
+      const line = hunk.lines.find(
+        (l) => l.type === "context" && l.oldLineNumber === oldLine
+      )
+      return line?.newLineNumber ?? null
+    }
+
+    offset += hunk.newLines - hunk.oldLines
+  }
+
+  return oldLine + offset
+}
+
+/**
+ * Map a line range through a diff. Returns null if any line in the range
+ * was touched, or if lines were inserted inside it.
+ */
+export function mapLineRangeThroughDiff(
+  parsedDiff: ParsedDiff,
+  startLine: number,
+  endLine: number = startLine
+): { startLine: number; endLine: number } | null {
+  const mappedStart = mapLineThroughDiff(parsedDiff, startLine)
+  if (mappedStart === null) return null
+
+  for (let line = startLine + 1; line <= endLine; line++) {
+    const mapped = mapLineThroughDiff(parsedDiff, line)
+    if (mapped !== mappedStart + (line - startLine)) return null
+  }
+
+  return { startLine: mappedStart, endLine: mappedStart + (endLine - startLine) }
+}
+
 /**
  * Summarize a diff in human-readable format
  */
@@ -521,3 +698,34 @@ export function summarizeDiff(stats: DiffStats): string {
 
   return parts.join(", ")
 }
+
+/**
+ * Whether GitHub left out a file's patch because it was too large. Binary files
+ * have no patch either, but GitHub reports no changed lines for them.
+ */
+export function isPatchTruncated(file: { patch?: string; changes?: number }): boolean {
+  return !file.patch && (file.changes ?? 0) > 0
+}
+
+/**
+ * Flag the parsed files whose patches GitHub truncated, taking their line counts from
+ * the file list since the diff has none
+ */
+export function markTruncatedPatches(
+  parsedDiffs: ParsedDiff[],
+  files: Array<{ filename: string; patch?: string; additions: number; deletions: number; changes: number }>
+): string[] {
+  const truncated = new Map(files.filter(isPatchTruncated).map((f) => [f.filename, f]))
+
+  for (const diff of parsedDiffs) {
+    const file = truncated.get(diff.filename)
+    if (!file || diff.isBinary || diff.hunks.length > 0) continue
+
+    diff.patchTruncated = true
+    diff.additions = file.additions
+    diff.deletions = file.deletions
+    diff.changes = file.changes
+  }
+
+  return parsedDiffs.filter((d) => d.patchTruncated).map((d) => d.filename)
+}
@@ -0,0 +1,160 @@
+/**
+ * Diff Positions
+ * GitHub only accepts inline comments on lines inside a diff hunk. Findings are checked
+ * against the PR's hunks, snapped to the nearest commentable line when they're close,
+ * and otherwise demoted to a file-level comment or the review summary.
+ */
+
+import type { PullRequestWithRepo } from "@/db/types";
+import { buildDiffFromPatches, parseDiff, type ParsedDiff } from "@/lib/diff-parser";
+import type { GitHubAPIClient, GitHubFile } from "@/lib/github-pr";
+
+export type DiffSide = "LEFT" | "RIGHT";
+
+// How far outside a hunk a finding may be and still be moved onto it
+export const MAX_SNAP_DISTANCE = 5;
+
+// PR diffs kept for placing the findings of running reviews
+const DIFF_CACHE_SIZE = 20;
+
+// Files GitHub's compare API lists at most; a full page may be truncated
+const COMPARE_FILE_LIMIT = 300;
+
+export interface FindingPosition {
+  filePath: string;
+  startLine: number | null;
+  endLine: number | null;
+  side?: string | null;
+}
+
+// filePath is the file's name in the diff, which differs from the finding's when it was renamed
+export type CommentPosition =
+  | { placement: "line"; filePath: string; startLine: number; endLine: number; side: DiffSide; snapped: boolean }
+  | { placement: "file"; filePath: string }
+  | { placement: "summary" };
+
+interface LineRange {
+  start: number;
+  end: number;
+}
+
+const diffCache = new Map<string, Promise<ParsedDiff[]>>();
+
+/**
+ * Line ranges of a file that can take inline comments on one side, one per hunk.
+ * A multi-line comment has to stay within a single range.
+ */
+export function commentableRanges(fileDiff: ParsedDiff, side: DiffSide): LineRange[] {
+  const ranges: LineRange[] = [];
+
+  for (const hunk of fileDiff.hunks) {
+    const lines = hunk.lines
+      .map((l) => (side === "RIGHT" ? l.newLineNumber : l.oldLineNumber))
+      .filter((n): n is number => n !== undefined);
+    if (lines.length === 0) continue;
+    ranges.push({ start: Math.min(...lines), end: Math.max(...lines) });
+  }
+
+  return ranges;
+}
+
+/**
+ * Where a finding can be posted in a PR diff: on its lines, snapped onto the nearest hunk,
+ * as a file-level comment, or only in the summary when its file isn't part of the diff
+ */
+export function placeComment(diff: ParsedDiff[], finding: FindingPosition): CommentPosition {
+  const side: DiffSide = finding.side === "LEFT" ? "LEFT" : "RIGHT";
+  const fileDiff =
+    diff.find((d) => d.filename === finding.filePath) ??
+    diff.find((d) => d.status === "renamed" && d.previousFilename === finding.filePath);
+
+  if (!fileDiff) return { placement: "summary" };
+
+  // GitHub only takes comments on the file's current path
+  const filePath = fileDiff.filename;
+  if (finding.startLine === null) return { placement: "file", filePath };
+
+  const start = finding.startLine;
+  const end = Math.max(finding.endLine ?? start, start);
+  const ranges = commentableRanges(fileDiff, side);
+
+  // Overlapping a hunk: keep the part of the range inside the hunk it overlaps most
+  let best: LineRange | null = null;
+  let bestOverlap = 0;
+  for (const range of ranges) {
+    const overlap = Math.min(end, range.end) - Math.max(start, range.start) + 1;
+    if (overlap > bestOverlap) {
+      best = range;
+      bestOverlap = overlap;
+    }
+  }
+
+  if (best) {
+    const startLine = Math.max(start, best.start);
+    const endLine = Math.min(end, best.end);
+    return { placement: "line", filePath, startLine, endLine, side, snapped: startLine !== start || endLine !== end };
+  }
+
+  // Just outside a hunk: move onto its closest line
+  let nearest: { line: number; distance: number } | null = null;
+  for (const range of ranges) {
+    const candidate = range.end < start
+      ? { line: range.end, distance: start - range.end }
+      : { line: range.start, distance: range.start - end };
+    if (!nearest || candidate.distance < nearest.distance) nearest = candidate;
+  }
+
+  if (nearest && nearest.distance <= MAX_SNAP_DISTANCE) {
+    return { placement: "line", filePath, startLine: nearest.line, endLine: nearest.line, side, snapped: true };
+  }
+
+  return { placement: "file", filePath };
+}
+
+/**
+ * Changed files of a PR at a head commit. Compared from the base branch, like the PR's own diff;
+ * a comparison too large to list in full uses the PR's files, as long as the PR is still at that head.
+ */
+async function getPRFilesAt(
+  client: GitHubAPIClient,
+  owner: string,
+  repo: string,
+  pr: PullRequestWithRepo,
+  headSha: string
+): Promise<GitHubFile[]> {
+  const comparison = await client.compareCommits(owner, repo, pr.baseBranch, headSha);
+  if (comparison.files.length < COMPARE_FILE_LIMIT) return comparison.files;
+
+  const current = await client.getPullRequest(owner, repo, pr.prNumber);
+  if (current.head.sha !== headSha) {
+    throw new Error(`PR #${pr.prNumber} is no longer at ${headSha.slice(0, 7)}, its files don't match that head`);
+  }
+  return await client.getPRFiles(owner, repo, pr.prNumber);
+}
+
+/**
+ * Parsed diff of a PR at a head commit. Findings of one review arrive one by one,
+ * so the diff is fetched once per head and reused.
+ */
+export async function getPRDiffForPlacement(pr: PullRequestWithRepo, headSha: string): Promise<ParsedDiff[]> {
+  const key = `${pr.id}:${headSha}`;
+  const cached = diffCache.get(key);
+  if (cached) return cached;
+
+  const { GitHubAPIClient, parseRepoFullName } = await import("@/lib/github-pr");
+  const { owner, repo } = parseRepoFullName(pr.repository.fullName);
+  const client = new GitHubAPIClient(pr.repository.installation.installationId);
+
+  const pending = getPRFilesAt(client, owner, repo, pr, headSha)
+    .then((files) => parseDiff(buildDiffFromPatches(files)));
+
+  // A failed fetch shouldn't stick around for the rest of the review
+  pending.catch(() => diffCache.delete(key));
+
+  diffCache.set(key, pending);
+  if (diffCache.size > DIFF_CACHE_SIZE) {
+    diffCache.delete(diffCache.keys().next().value!);
+  }
+
+  return pending;
+}
@@ -0,0 +1,135 @@
+/**
+ * Finding Feedback
+ * Developer ratings of review comments: 👍/👎 reactions on GitHub and votes on the dashboard
+ */
+
+import { and, eq, isNotNull, notInArray } from "drizzle-orm";
+import { db, codeReviews, pullRequests, reviewCommentFeedback, reviewComments } from "@/db/schema";
+import type { FindingFeedback } from "@/db/types";
+
+export interface FeedbackCounts {
+  helpful: number;
+  notHelpful: number;
+  wrong: number;
+}
+
+export interface SyncFeedbackReactionsJobPayload {
+  repoDbId: string;
+  repoFullName: string;
+  prNumber: number;
+  installationId: number;
+}
+
+/**
+ * Rating a GitHub reaction counts as; other reactions are ignored
+ */
+export function reactionToFeedback(content: string): FindingFeedback | null {
+  if (content === "+1") return "helpful";
+  if (content === "-1") return "not_helpful";
+  return null;
+}
+
+/**
+ * Percentage of rated findings that were helpful, or null when nothing was rated
+ */
+export function computePrecision(counts: FeedbackCounts): number | null {
+  const total = counts.helpful + counts.notHelpful + counts.wrong;
+  return total > 0 ? (counts.helpful / total) * 100 : null;
+}
+
+/**
+ * Set (or clear, with null) a dashboard user's rating of a finding
+ */
+export async function setDashboardFeedback(
+  reviewCommentId: string,
+  userId: string,
+  rating: FindingFeedback | null
+): Promise<void> {
+  const match = and(
+    eq(reviewCommentFeedback.reviewCommentId, reviewCommentId),
+    eq(reviewCommentFeedback.source, "dashboard"),
+    eq(reviewCommentFeedback.author, userId)
+  );
+
+  if (!rating) {
+    await db.delete(reviewCommentFeedback).where(match);
+    return;
+  }
+
+  await db
+    .insert(reviewCommentFeedback)
+    .values({ reviewCommentId, rating, source: "dashboard", author: userId })
+    .onConflictDoUpdate({
+      target: [reviewCommentFeedback.reviewCommentId, reviewCommentFeedback.source, reviewCommentFeedback.author],
+      set: { rating, updatedAt: new Date() },
+    });
+}
+
+/**
+ * Replace a finding's reaction ratings with the reactions currently on GitHub
+ */
+export async function replaceReactionFeedback(
+  reviewCommentId: string,
+  reactions: Array<{ content: string; user: { login: string; type: string } | null }>
+): Promise<void> {
+  // One rating per person; a later reaction wins over an earlier one
+  const ratings = new Map<string, FindingFeedback>();
+  for (const reaction of reactions) {
+    const rating = reactionToFeedback(reaction.content);
+    if (!rating || !reaction.user || reaction.user.type === "Bot") continue;
+    ratings.set(reaction.user.login, rating);
+  }
+
+  const authors = [...ratings.keys()];
+  await db
+    .delete(reviewCommentFeedback)
+    .where(
+      and(
+        eq(reviewCommentFeedback.reviewCommentId, reviewCommentId),
+        eq(reviewCommentFeedback.source, "reaction"),
+        ...(authors.length > 0 ? [notInArray(reviewCommentFeedback.author, authors)] : [])
+      )
+    );
+
+  for (const [author, rating] of ratings) {
+    await db
+      .insert(reviewCommentFeedback)
+      .values({ reviewCommentId, rating, source: "reaction", author })
+      .onConflictDoUpdate({
+        target: [reviewCommentFeedback.reviewCommentId, reviewCommentFeedback.source, reviewCommentFeedback.author],
+        set: { rating, updatedAt: new Date() },
+      });
+  }
+}
+
+/**
+ * Collect reactions on every posted comment of a PR.
+ * GitHub sends no webhook for reactions, so this runs whenever the PR moves on.
+ */
+export async function syncFeedbackReactionsJob(job: SyncFeedbackReactionsJobPayload): Promise<void> {
+  const posted = await db
+    .select({ id: reviewComments.id, githubCommentId: reviewComments.githubCommentId })
+    .from(reviewComments)
+    .innerJoin(codeReviews, eq(reviewComments.reviewId, codeReviews.id))
+    .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
+    .where(
+      and(
+        eq(pullRequests.repositoryId, job.repoDbId),
+        eq(pullRequests.prNumber, job.prNumber),
+        isNotNull(reviewComments.githubCommentId)
+      )
+    );
+
+  if (posted.length === 0) return;
+
+  const { GitHubAPIClient, parseRepoFullName } = await import("@/lib/github-pr");
+  const { owner, repo } = parseRepoFullName(job.repoFullName);
+  const client = new GitHubAPIClient(job.installationId);
+
+  for (const comment of posted) {
+    const reactions = await client.listReviewCommentReactions(owner, repo, comment.githubCommentId!);
+    await replaceReactionFeedback(comment.id, reactions);
+  }
+
+  console.log(`👍 Synced reactions on ${posted.length} comments of ${job.repoFullName}#${job.prNumber}`);
+}
@@ -0,0 +1,278 @@
+/**
+ * Finding Lifecycle
+ * Tracks findings across review versions of a PR: the same issue is posted once,
+ * and findings the author fixed are resolved automatically
+ */
+
+import crypto from "crypto";
+import { and, desc, eq, inArray, isNotNull, ne } from "drizzle-orm";
+import { db, codeReviews, pullRequests, reviewComments } from "@/db/schema";
+import { getCodeReviewWithDetails } from "@/db/queries";
+import type { ReviewComment } from "@/db/types";
+import {
+  buildDiffFromPatches,
+  getPathBeforeDiff,
+  mapLineRangeThroughDiff,
+  parseDiff,
+  type ParsedDiff,
+} from "@/lib/diff-parser";
+import { hashSnippet, normalizeFindingTitle, type SuppressibleFinding } from "@/lib/finding-suppressions";
+import type { GitHubAPIClient } from "@/lib/github-pr";
+
+// The compare API caps the file list; a full page may be missing files
+const COMPARE_FILE_LIMIT = 300;
+
+export interface ResolveFixedFindingsJobPayload {
+  reviewId: string;
+}
+
+// Where a fixed finding's thread lives, and the calls that close it
+export interface FixedThreadTarget {
+  client: Pick<GitHubAPIClient, "replyToReviewComment" | "resolveReviewThread">;
+  owner: string;
+  repo: string;
+  prNumber: number;
+  threadIds: Map<number, string>; // Unresolved thread node IDs by the comment that started them
+}
+
+/**
+ * Fingerprint of a finding that stays the same when it's raised again on unchanged code
+ */
+export function computeFindingFingerprint(finding: SuppressibleFinding): string {
+  const key = [
+    finding.category,
+    normalizeFindingTitle(finding.title),
+    finding.filePath,
+    hashSnippet(finding.codeSnippet) ?? "",
+  ].join("|");
+  return crypto.createHash("sha256").update(key).digest("hex").slice(0, 32);
+}
+
+/**
+ * Looser key for "is this issue still reported in this file", ignoring the code itself
+ */
+function issueKey(finding: Pick<SuppressibleFinding, "category" | "title">, filePath: string): string {
+  return `${finding.category}|${normalizeFindingTitle(finding.title)}|${filePath}`;
+}
+
+/**
+ * Open findings whose lines were changed by a diff and that the new review didn't report again.
+ * Findings on untouched lines, file-level and base-side findings are left alone.
+ */
+export function selectFixedFindings<T extends Pick<ReviewComment, "category" | "title" | "filePath" | "startLine" | "endLine" | "side">>(
+  openFindings: T[],
+  diff: ParsedDiff[],
+  currentFindings: Array<Pick<SuppressibleFinding, "category" | "title" | "filePath">>
+): T[] {
+  const diffsByOldPath = new Map(diff.map((d) => [getPathBeforeDiff(d), d]));
+  const stillReported = new Set(currentFindings.map((f) => issueKey(f, f.filePath)));
+
+  return openFindings.filter((finding) => {
+    if (finding.startLine === null || finding.side === "LEFT") return false;
+
+    const fileDiff = diffsByOldPath.get(finding.filePath);
+    if (!fileDiff) return false;
+
+    if (fileDiff.status !== "removed") {
+      const touched = !mapLineRangeThroughDiff(fileDiff, finding.startLine, finding.endLine ?? finding.startLine);
+      if (!touched) return false;
+    }
+
+    return !stillReported.has(issueKey(finding, fileDiff.filename));
+  });
+}
+
+/**
+ * Latest open, posted finding of a PR with this fingerprint (including copies in the current review)
+ */
+export async function findOpenFindingByFingerprint(
+  pullRequestId: string,
+  fingerprint: string
+): Promise<ReviewComment | null> {
+  const [row] = await db
+    .select({ comment: reviewComments })
+    .from(reviewComments)
+    .innerJoin(codeReviews, eq(reviewComments.reviewId, codeReviews.id))
+    .where(
+      and(
+        eq(codeReviews.pullRequestId, pullRequestId),
+        eq(reviewComments.fingerprint, fingerprint),
+        eq(reviewComments.isResolved, false),
+        isNotNull(reviewComments.githubCommentId)
+      )
+    )
+    .orderBy(desc(reviewComments.createdAt))
+    .limit(1);
+  return row?.comment ?? null;
+}
+
+/**
+ * Finding of a review with this fingerprint, e.g. one already reported by another chunk of the review
+ */
+export async function findReviewFindingByFingerprint(
+  reviewId: string,
+  fingerprint: string
+): Promise<ReviewComment | null> {
+  const [comment] = await db
+    .select()
+    .from(reviewComments)
+    .where(and(eq(reviewComments.reviewId, reviewId), eq(reviewComments.fingerprint, fingerprint)))
+    .limit(1);
+  return comment ?? null;
+}
+
+/**
+ * Open findings already posted on a PR, one per GitHub thread (newest copy)
+ */
+export async function getOpenPostedFindings(pullRequestId: string): Promise<ReviewComment[]> {
+  const rows = await db
+    .select({ comment: reviewComments })
+    .from(reviewComments)
+    .innerJoin(codeReviews, eq(reviewComments.reviewId, codeReviews.id))
+    .where(
+      and(
+        eq(codeReviews.pullRequestId, pullRequestId),
+        eq(reviewComments.isResolved, false),
+        isNotNull(reviewComments.githubCommentId)
+      )
+    )
+    .orderBy(desc(reviewComments.createdAt));
+
+  const byThread = new Map<number, ReviewComment>();
+  for (const { comment } of rows) {
+    if (!byThread.has(comment.githubCommentId!)) byThread.set(comment.githubCommentId!, comment);
+  }
+  return [...byThread.values()];
+}
+
+/**
+ * Resolve or reopen every copy of a posted finding. Copies carried into later
+ * review versions share the GitHub comment, so they share its thread state too.
+ */
+export async function setFindingThreadResolution(
+  repoDbId: string,
+  githubCommentId: number,
+  resolution: { resolvedBy: string; resolvedInSha?: string | null } | null
+): Promise<number> {
+  const repoReviews = db
+    .select({ id: codeReviews.id })
+    .from(codeReviews)
+    .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
+    .where(eq(pullRequests.repositoryId, repoDbId));
+
+  const updated = await db
+    .update(reviewComments)
+    .set({
+      isResolved: !!resolution,
+      resolvedAt: resolution ? new Date() : null,
+      resolvedBy: resolution?.resolvedBy ?? null,
+      resolvedInSha: resolution?.resolvedInSha ?? null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(reviewComments.githubCommentId, githubCommentId), inArray(reviewComments.reviewId, repoReviews)))
+    .returning({ id: reviewComments.id });
+  return updated.length;
+}
+
+/**
+ * Resolve a fixed finding's thread on GitHub and note the fixing commit in it.
+ * A thread that's no longer unresolved on GitHub only gets the note.
+ */
+export async function closeFixedFindingThread(
+  target: FixedThreadTarget,
+  githubCommentId: number,
+  headSha: string
+): Promise<void> {
+  const { client, owner, repo, prNumber, threadIds } = target;
+
+  const threadId = threadIds.get(githubCommentId);
+  if (threadId) {
+    await client.resolveReviewThread(threadId);
+    threadIds.delete(githubCommentId);
+  }
+
+  await client.replyToReviewComment(owner, repo, prNumber, githubCommentId, `✅ Fixed in ${headSha.slice(0, 7)}`);
+}
+
+/**
+ * After a review completes, resolve earlier findings on lines the new commits changed
+ * that the review no longer reports, and resolve their GitHub threads with a note of the fixing commit.
+ * Runs as a job; throws so GitHub errors are retried.
+ */
+export async function resolveFixedFindingsJob(job: ResolveFixedFindingsJobPayload): Promise<void> {
+  const review = await getCodeReviewWithDetails(job.reviewId);
+  if (!review || review.status !== "completed" || !review.headCommitSha) return;
+
+  // Scoped reviews and commands don't look at every changed file
+  if (review.reviewMode !== "full" && review.reviewMode !== "incremental") return;
+
+  const headSha = review.headCommitSha;
+
+  // Findings carried into this review sit on untouched lines and are still open
+  const carriedThreads = new Set(review.comments.map((c) => c.githubCommentId).filter((id) => id !== null));
+
+  const candidates = await db
+    .select({ comment: reviewComments, reviewHeadSha: codeReviews.headCommitSha })
+    .from(reviewComments)
+    .innerJoin(codeReviews, eq(reviewComments.reviewId, codeReviews.id))
+    .where(
+      and(
+        eq(codeReviews.pullRequestId, review.pullRequestId),
+        ne(codeReviews.id, review.id),
+        isNotNull(codeReviews.headCommitSha),
+        ne(codeReviews.headCommitSha, headSha),
+        eq(reviewComments.isResolved, false),
+        isNotNull(reviewComments.githubCommentId)
+      )
+    )
+    .orderBy(desc(codeReviews.createdAt));
+
+  // The newest copy of each thread has line numbers closest to the new head
+  const openByThread = new Map<number, { comment: ReviewComment; reviewHeadSha: string }>();
+  for (const { comment, reviewHeadSha } of candidates) {
+    const threadId = comment.githubCommentId!;
+    if (carriedThreads.has(threadId) || openByThread.has(threadId)) continue;
+    openByThread.set(threadId, { comment, reviewHeadSha: reviewHeadSha! });
+  }
+
+  if (openByThread.size === 0) return;
+
+  const { GitHubAPIClient, parseRepoFullName } = await import("@/lib/github-pr");
+  const { repository } = review.pullRequest;
+  const { owner, repo } = parseRepoFullName(repository.fullName);
+  const client = new GitHubAPIClient(repository.installation.installationId);
+
+  const prNumber = review.pullRequest.prNumber;
+  const target: FixedThreadTarget = {
+    client,
+    owner,
+    repo,
+    prNumber,
+    threadIds: await client.getUnresolvedReviewThreads(owner, repo, prNumber),
+  };
+
+  const byHead = new Map<string, ReviewComment[]>();
+  for (const { comment, reviewHeadSha } of openByThread.values()) {
+    byHead.set(reviewHeadSha, [...(byHead.get(reviewHeadSha) ?? []), comment]);
+  }
+
+  let resolved = 0;
+  for (const [baseSha, findings] of byHead) {
+    const comparison = await client.compareCommits(owner, repo, baseSha, headSha);
+
+    // After a force-push the old head isn't an ancestor; its line numbers can't be mapped
+    if (comparison.status !== "ahead" || comparison.files.length >= COMPARE_FILE_LIMIT) continue;
+
+    const diff = parseDiff(buildDiffFromPatches(comparison.files));
+    for (const finding of selectFixedFindings(findings, diff, review.comments)) {
+      await closeFixedFindingThread(target, finding.githubCommentId!, headSha);
+      await setFindingThreadResolution(repository.id, finding.githubCommentId!, {
+        resolvedBy: "graphbug",
+        resolvedInSha: headSha,
+      });
+      resolved++;
+    }
+  }
+
+  console.log(`✅ Auto-resolved ${resolved} fixed finding(s) after review ${review.id}`);
+}
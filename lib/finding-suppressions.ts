@@ -0,0 +1,77 @@
+/**
+ * Finding Suppressions
+ * Fingerprints of dismissed findings, so the same comment isn't posted again on later PRs
+ */
+
+import crypto from "crypto";
+import { escapeGlob, matchesGlob } from "@/lib/glob";
+
+export interface SuppressibleFinding {
+  category: string;
+  title: string;
+  filePath: string;
+  codeSnippet: string | null;
+}
+
+export interface SuppressionFingerprint {
+  category: string;
+  normalizedTitle: string;
+  fileGlob: string;
+  snippetHash: string | null;
+}
+
+/**
+ * Normalize a finding title so rewordings of identifiers, numbers and quoting still match,
+ * e.g. "Unused variable `foo` on line 12" and "Unused variable 'bar' on line 40"
+ */
+export function normalizeFindingTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/`[^`]*`|"[^"]*"|'[^']*'/g, " _ ")
+    .replace(/\d+/g, " # ")
+    .replace(/[^a-z_#]+/g, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Hash of a code snippet, ignoring whitespace differences
+ */
+export function hashSnippet(snippet: string | null): string | null {
+  const normalized = snippet?.replace(/\s+/g, " ").trim();
+  if (!normalized) return null;
+  return crypto.createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+}
+
+/**
+ * Fingerprint of a dismissed finding; the glob starts as its exact file and can be widened later
+ */
+export function fingerprintFinding(finding: SuppressibleFinding): SuppressionFingerprint {
+  return {
+    category: finding.category,
+    normalizedTitle: normalizeFindingTitle(finding.title),
+    fileGlob: escapeGlob(finding.filePath),
+    snippetHash: hashSnippet(finding.codeSnippet),
+  };
+}
+
+/**
+ * Whether a finding matches a suppression's fingerprint
+ */
+export function matchesSuppression(finding: SuppressibleFinding, suppression: SuppressionFingerprint): boolean {
+  if (finding.category !== suppression.category) return false;
+  if (normalizeFindingTitle(finding.title) !== suppression.normalizedTitle) return false;
+  // Globs stored before paths were escaped hold the raw path, e.g. "app/[id]/page.tsx"
+  if (finding.filePath !== suppression.fileGlob && !matchesGlob(finding.filePath, suppression.fileGlob)) return false;
+  return !suppression.snippetHash || hashSnippet(finding.codeSnippet) === suppression.snippetHash;
+}
+
+/**
+ * First suppression a finding matches, if any
+ */
+export function findMatchingSuppression<T extends SuppressionFingerprint>(
+  finding: SuppressibleFinding,
+  suppressions: T[]
+): T | null {
+  return suppressions.find((s) => matchesSuppression(finding, s)) ?? null;
+}
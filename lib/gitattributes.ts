@@ -0,0 +1,86 @@
+/**
+ * Git Attributes
+ * Linguist markers from a repository's .gitattributes: files marked generated, vendored or
+ * documentation aren't reviewed, the same way GitHub leaves them out of its language stats
+ */
+
+import type { GitHubAPIClient } from "@/lib/github-pr";
+import { matchesGlob } from "@/lib/glob";
+
+export const LINGUIST_ATTRIBUTES = ["linguist-generated", "linguist-vendored", "linguist-documentation"] as const;
+
+export type LinguistAttribute = (typeof LINGUIST_ATTRIBUTES)[number];
+
+export interface GitAttributesRule {
+  pattern: string;
+  attribute: LinguistAttribute;
+  value: boolean; // "attr" / "attr=true" set it, "-attr" / "attr=false" clear it
+}
+
+/**
+ * Parse .gitattributes contents into its linguist rules, in file order.
+ * Other attributes and macros are ignored.
+ */
+export function parseGitAttributes(text: string): GitAttributesRule[] {
+  const rules: GitAttributesRule[] = [];
+
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const [pattern, ...attributes] = line.split(/\s+/);
+    for (const entry of attributes) {
+      const [, unset, name, value] = entry.match(/^(-?)([^=]+)(?:=(.*))?$/) ?? [];
+      if (!LINGUIST_ATTRIBUTES.includes(name as LinguistAttribute)) continue;
+
+      rules.push({
+        pattern: pattern.replace(/^"(.*)"$/, "$1"),
+        attribute: name as LinguistAttribute,
+        value: !unset && (value === undefined || value === "true"),
+      });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Value of a linguist attribute for a path: the last matching rule wins, like git.
+ * Undefined when no rule mentions it.
+ */
+export function getLinguistAttribute(
+  rules: GitAttributesRule[],
+  path: string,
+  attribute: LinguistAttribute
+): boolean | undefined {
+  let value: boolean | undefined;
+  for (const rule of rules) {
+    if (rule.attribute === attribute && matchesGlob(path, rule.pattern)) value = rule.value;
+  }
+  return value;
+}
+
+/**
+ * Load the root .gitattributes at a commit. A repository without one, or one that
+ * can't be read, gets no rules; it never stops a review.
+ */
+export async function loadGitAttributes(
+  client: GitHubAPIClient,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<GitAttributesRule[]> {
+  try {
+    const file = await client.getFileContent(owner, repo, ".gitattributes", ref);
+    const rules = parseGitAttributes(file.content);
+    if (rules.length > 0) {
+      console.log(`🏷️ Loaded ${rules.length} linguist rule(s) from .gitattributes at ${ref.slice(0, 7)}`);
+    }
+    return rules;
+  } catch (error) {
+    if ((error as { status?: number }).status !== 404) {
+      console.error("Failed to load .gitattributes:", error);
+    }
+    return [];
+  }
+}
@@ -7,14 +7,18 @@ import { Octokit } from "@octokit/rest"
 import { createAppAuth } from "@octokit/auth-app"
 import { throttling } from "@octokit/plugin-throttling"
 import { retry } from "@octokit/plugin-retry"
+import { buildDiffFromPatches, isPatchTruncated } from "./diff-parser"
 
 // Extend Octokit with plugins
 const OctokitWithPlugins = Octokit.plugin(throttling, retry)
 
+// The PR files API lists at most this many files
+const PR_FILES_LIMIT = 3000
+
 // Types
 export interface GitHubFile {
   filename: string
-  status: "added" | "removed" | "modified" | "renamed"
+  status: "added" | "removed" | "modified" | "renamed" | "copied"
   additions: number
   deletions: number
   changes: number
@@ -68,6 +72,7 @@ export interface GitHubPRDetails {
 
 export interface GitHubDiff {
   diff: string
+  source: "diff" | "patches" // The unified diff, or rebuilt from per-file patches when GitHub won't produce it
   files: GitHubFile[]
   stats: {
     total_files: number
@@ -77,6 +82,15 @@ export interface GitHubDiff {
   }
 }
 
+export interface GitHubComparison {
+  status: "ahead" | "behind" | "diverged" | "identical"
+  ahead_by: number
+  behind_by: number
+  total_commits: number
+  commits: Array<{ sha: string; message: string; author: string; date: string }>
+  files: GitHubFile[]
+}
+
 export interface GitHubFileContent {
   filename: string
   content: string
@@ -86,6 +100,42 @@ export interface GitHubFileContent {
   language?: string
 }
 
+export interface CheckRunAnnotation {
+  path: string
+  start_line: number
+  end_line: number
+  annotation_level: "notice" | "warning" | "failure"
+  title?: string
+  message: string
+  raw_details?: string
+}
+
+export interface CheckRunOutput {
+  title: string
+  summary: string
+  text?: string
+  annotations?: CheckRunAnnotation[] // Max 50 per request
+}
+
+export interface CheckRunUpdate {
+  status?: "queued" | "in_progress" | "completed"
+  conclusion?: "success" | "failure" | "neutral" | "cancelled" | "timed_out" | "action_required"
+  completed_at?: string
+  details_url?: string
+  output?: CheckRunOutput
+}
+
+interface ReviewThreadsQueryResult {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null }
+        nodes: Array<{ id: string; isResolved: boolean; comments: { nodes: Array<{ databaseId: number | null }> } }>
+      }
+    }
+  }
+}
+
 export interface RateLimitInfo {
   limit: number
   remaining: number
@@ -268,7 +318,7 @@ export class GitHubAPIClient {
       files.push(
         ...data.map((file) => ({
           filename: file.filename,
-          status: file.status as "added" | "removed" | "modified" | "renamed",
+          status: file.status as GitHubFile["status"],
           additions: file.additions,
           deletions: file.deletions,
           changes: file.changes,
@@ -304,20 +354,33 @@ export class GitHubAPIClient {
     // Fetch files and diff separately for better reliability
     const files = await this.getPRFiles(owner, repo, prNumber)
 
-    // Get the actual diff content
-    const { data: diffData } = await this.octokit.request(
-      "GET /repos/{owner}/{repo}/pulls/{pull_number}",
-      {
-        owner,
-        repo,
-        pull_number: prNumber,
-        headers: {
-          accept: "application/vnd.github.v3.diff",
-        },
+    // Get the actual diff content; GitHub refuses it for PRs that are too large
+    let diff: string
+    let source: GitHubDiff["source"] = "diff"
+    try {
+      const { data: diffData } = await this.octokit.request(
+        "GET /repos/{owner}/{repo}/pulls/{pull_number}",
+        {
+          owner,
+          repo,
+          pull_number: prNumber,
+          headers: {
+            accept: "application/vnd.github.v3.diff",
+          },
+        }
+      )
+      diff = typeof diffData === "string" ? diffData : ""
+    } catch (error) {
+      if (!isDiffTooLargeError(error)) throw error
+
+      diff = buildDiffFromPatches(files)
+      source = "patches"
+      const truncated = files.filter(isPatchTruncated).length
+      console.log(`⚠️ Diff for PR #${prNumber} is too large, rebuilt from ${files.length} file patches (${truncated} truncated)`)
+      if (files.length >= PR_FILES_LIMIT) {
+        console.log(`⚠️ PR #${prNumber} lists the maximum of ${PR_FILES_LIMIT} files; later files are missing`)
       }
-    )
-
-    const diff = typeof diffData === "string" ? diffData : ""
+    }
 
     const stats = {
       total_files: files.length,
@@ -328,6 +391,7 @@ export class GitHubAPIClient {
 
     return {
       diff,
+      source,
       files,
       stats,
     }
@@ -359,7 +423,7 @@ export class GitHubAPIClient {
     const content = Buffer.from(data.content, "base64").toString("utf-8")
 
     return {
-      filename: data.name,
+      filename: data.path,
       content,
       encoding: data.encoding,
       sha: data.sha,
@@ -445,6 +509,51 @@ export class GitHubAPIClient {
     return commits
   }
 
+  /**
+   * Compare two commits (base...head)
+   * GitHub returns at most 300 files; callers should treat a full page as possibly truncated
+   */
+  async compareCommits(
+    owner: string,
+    repo: string,
+    base: string,
+    head: string
+  ): Promise<GitHubComparison> {
+    await this.checkRateLimit()
+
+    const { data } = await this.octokit.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+    })
+
+    return {
+      status: data.status,
+      ahead_by: data.ahead_by,
+      behind_by: data.behind_by,
+      total_commits: data.total_commits,
+      commits: data.commits.map((commit) => ({
+        sha: commit.sha,
+        message: commit.commit.message,
+        author: commit.commit.author?.name || "unknown",
+        date: commit.commit.author?.date || "",
+      })),
+      files: (data.files || []).map((file) => ({
+        filename: file.filename,
+        status: file.status as GitHubFile["status"],
+        additions: file.additions,
+        deletions: file.deletions,
+        changes: file.changes,
+        patch: file.patch,
+        previous_filename: file.previous_filename,
+        blob_url: file.blob_url,
+        raw_url: file.raw_url,
+        contents_url: file.contents_url,
+        sha: file.sha,
+      })),
+    }
+  }
+
   /**
    * Post a comment on a PR
    */
@@ -480,7 +589,8 @@ export class GitHubAPIClient {
     path: string,
     body: string,
     line: number,
-    side: "LEFT" | "RIGHT" = "RIGHT"
+    side: "LEFT" | "RIGHT" = "RIGHT",
+    startLine?: number // First line of a multi-line comment; line is the last
   ): Promise<{ id: number; html_url: string }> {
     await this.checkRateLimit()
 
@@ -493,6 +603,36 @@ export class GitHubAPIClient {
       body,
       line,
       side,
+      ...(startLine && startLine < line ? { start_line: startLine, start_side: side } : {}),
+    })
+
+    return {
+      id: data.id,
+      html_url: data.html_url,
+    }
+  }
+
+  /**
+   * Post a comment on a whole file of the PR rather than on its lines
+   */
+  async postPRFileComment(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    commit_id: string,
+    path: string,
+    body: string
+  ): Promise<{ id: number; html_url: string }> {
+    await this.checkRateLimit()
+
+    const { data } = await this.octokit.pulls.createReviewComment({
+      owner,
+      repo,
+      pull_number: prNumber,
+      commit_id,
+      path,
+      body,
+      subject_type: "file",
     })
 
     return {
@@ -516,6 +656,7 @@ export class GitHubAPIClient {
       line: number
       body: string
       side?: "LEFT" | "RIGHT"
+      start_line?: number // First line of a multi-line comment; line is the last
     }>
   ): Promise<{ id: number; html_url: string }> {
     await this.checkRateLimit()
@@ -532,6 +673,9 @@ export class GitHubAPIClient {
         line: c.line,
         body: c.body,
         side: c.side || "RIGHT",
+        ...(c.start_line && c.start_line < c.line
+          ? { start_line: c.start_line, start_side: c.side || "RIGHT" }
+          : {}),
       })),
     })
 
@@ -541,6 +685,47 @@ export class GitHubAPIClient {
     }
   }
 
+  /**
+   * List the inline comments that were submitted with a review
+   */
+  async listReviewCommentsForReview(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    reviewId: number
+  ): Promise<Array<{ id: number; html_url: string; path: string; body: string }>> {
+    await this.checkRateLimit()
+
+    const comments: Array<{ id: number; html_url: string; path: string; body: string }> = []
+    let page = 1
+    const per_page = 100
+
+    while (true) {
+      const { data } = await this.octokit.pulls.listCommentsForReview({
+        owner,
+        repo,
+        pull_number: prNumber,
+        review_id: reviewId,
+        per_page,
+        page,
+      })
+
+      comments.push(
+        ...data.map((comment) => ({
+          id: comment.id,
+          html_url: comment.html_url,
+          path: comment.path,
+          body: comment.body,
+        }))
+      )
+
+      if (data.length < per_page) break
+      page++
+    }
+
+    return comments
+  }
+
   /**
    * Update an existing comment
    */
@@ -560,6 +745,204 @@ export class GitHubAPIClient {
     })
   }
 
+  /**
+   * Create a check run on a commit
+   */
+  async createCheckRun(
+    owner: string,
+    repo: string,
+    params: CheckRunUpdate & {
+      name: string
+      head_sha: string
+      external_id?: string
+      started_at?: string
+    }
+  ): Promise<{ id: number; html_url: string | null }> {
+    await this.checkRateLimit()
+
+    const { data } = await this.octokit.checks.create({
+      owner,
+      repo,
+      ...params,
+    })
+
+    return {
+      id: data.id,
+      html_url: data.html_url,
+    }
+  }
+
+  /**
+   * Update a check run's status, conclusion or output
+   * Annotations are appended, so large sets can be sent over several calls
+   */
+  async updateCheckRun(
+    owner: string,
+    repo: string,
+    checkRunId: number,
+    params: CheckRunUpdate
+  ): Promise<void> {
+    await this.checkRateLimit()
+
+    await this.octokit.checks.update({
+      owner,
+      repo,
+      check_run_id: checkRunId,
+      ...params,
+    })
+  }
+
+  /**
+   * Reply in the thread of an inline review comment
+   */
+  async replyToReviewComment(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    commentId: number,
+    body: string
+  ): Promise<{ id: number; html_url: string }> {
+    await this.checkRateLimit()
+
+    const { data } = await this.octokit.pulls.createReplyForReviewComment({
+      owner,
+      repo,
+      pull_number: prNumber,
+      comment_id: commentId,
+      body,
+    })
+
+    return {
+      id: data.id,
+      html_url: data.html_url,
+    }
+  }
+
+  /**
+   * GraphQL node IDs of a PR's unresolved review threads, keyed by the ID of the comment that started each
+   */
+  async getUnresolvedReviewThreads(
+    owner: string,
+    repo: string,
+    prNumber: number
+  ): Promise<Map<number, string>> {
+    const threads = new Map<number, string>()
+    let after: string | null = null
+
+    do {
+      await this.checkRateLimit()
+
+      const result: ReviewThreadsQueryResult = await this.octokit.graphql(
+        `query($owner: String!, $repo: String!, $number: Int!, $after: String) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) {
+              reviewThreads(first: 100, after: $after) {
+                pageInfo { hasNextPage endCursor }
+                nodes { id isResolved comments(first: 1) { nodes { databaseId } } }
+              }
+            }
+          }
+        }`,
+        { owner, repo, number: prNumber, after }
+      )
+
+      const { pageInfo, nodes } = result.repository.pullRequest.reviewThreads
+      for (const thread of nodes) {
+        const rootCommentId = thread.comments.nodes[0]?.databaseId
+        if (!thread.isResolved && rootCommentId) {
+          threads.set(rootCommentId, thread.id)
+        }
+      }
+      after = pageInfo.hasNextPage ? pageInfo.endCursor : null
+    } while (after)
+
+    return threads
+  }
+
+  /**
+   * Mark a review thread resolved, as the "Resolve conversation" button does
+   */
+  async resolveReviewThread(threadId: string): Promise<void> {
+    await this.checkRateLimit()
+
+    await this.octokit.graphql(
+      `mutation($threadId: ID!) {
+        resolveReviewThread(input: { threadId: $threadId }) { thread { id } }
+      }`,
+      { threadId }
+    )
+  }
+
+  /**
+   * Get a user's permission on a repository: "admin", "write", "read" or "none"
+   */
+  async getCollaboratorPermission(
+    owner: string,
+    repo: string,
+    username: string
+  ): Promise<string> {
+    await this.checkRateLimit()
+
+    try {
+      const { data } = await this.octokit.repos.getCollaboratorPermissionLevel({
+        owner,
+        repo,
+        username,
+      })
+      return data.permission
+    } catch (error) {
+      // Users who aren't collaborators get a 404
+      if ((error as { status?: number }).status === 404) return "none"
+      throw error
+    }
+  }
+
+  /**
+   * React to an issue or PR conversation comment
+   */
+  async addCommentReaction(
+    owner: string,
+    repo: string,
+    commentId: number,
+    content: "+1" | "-1" | "laugh" | "confused" | "heart" | "hooray" | "rocket" | "eyes"
+  ): Promise<void> {
+    await this.checkRateLimit()
+
+    await this.octokit.reactions.createForIssueComment({
+      owner,
+      repo,
+      comment_id: commentId,
+      content,
+    })
+  }
+
+  /**
+   * List reactions on an inline review comment (empty if the comment was deleted)
+   */
+  async listReviewCommentReactions(
+    owner: string,
+    repo: string,
+    commentId: number
+  ): Promise<Array<{ content: string; user: { login: string; type: string } | null }>> {
+    await this.checkRateLimit()
+
+    try {
+      const { data } = await this.octokit.reactions.listForPullRequestReviewComment({
+        owner,
+        repo,
+        comment_id: commentId,
+        per_page: 100,
+      })
+      return data.map((reaction) => ({
+        content: reaction.content,
+        user: reaction.user ? { login: reaction.user.login, type: reaction.user.type } : null,
+      }))
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) return []
+      throw error
+    }
+  }
+
   /**
    * Delete a comment
    */
@@ -578,6 +961,16 @@ export class GitHubAPIClient {
   }
 }
 
+/**
+ * Whether GitHub refused a PR's unified diff for being too large
+ * (406 "the diff exceeded the maximum number of files/lines", or 422 "too_large")
+ */
+function isDiffTooLargeError(error: unknown): boolean {
+  const { status, message, response } = error as { status?: number; message?: string; response?: { data?: unknown } }
+  const details = `${message ?? ""} ${JSON.stringify(response?.data ?? "")}`
+  return (status === 406 || status === 422) && /diff exceeded|too.large/i.test(details)
+}
+
 /**
  * Create a GitHub API client for an installation
  */
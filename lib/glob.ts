@@ -0,0 +1,94 @@
+/**
+ * Glob Matching - gitignore-style path patterns
+ * Supports **, *, ?, {a,b} and [abc]. Patterns without a slash match the file name at any depth.
+ */
+
+const cache = new Map<string, RegExp>()
+
+/**
+ * Compile a glob pattern to a regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern)
+  if (cached) return cached
+
+  let glob = pattern.trim()
+
+  // "dir/" means everything under dir
+  if (glob.endsWith("/")) glob += "**"
+
+  // No slash: match the basename anywhere ("*.snap" == "**/*.snap")
+  const anchored = glob.includes("/")
+  if (glob.startsWith("/")) glob = glob.slice(1)
+
+  let source = ""
+  let braceDepth = 0
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (glob[i + 2] === "/") {
+          source += "(?:.*/)?"
+          i += 2
+        } else {
+          source += ".*"
+          i += 1
+        }
+      } else {
+        source += "[^/]*"
+      }
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "[") {
+      // A "]" straight after "[" or "[!" is a literal member, so "[]]" matches "]"
+      const first = glob[i + 1] === "!" ? i + 2 : i + 1
+      const end = glob.indexOf("]", first + 1)
+      if (end === -1) {
+        source += "\\["
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, "^").replace(/[\\\]]/g, "\\$&")
+        source += `[${body}]`
+        i = end
+      }
+    } else if (char === "{") {
+      braceDepth++
+      source += "(?:"
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--
+      source += ")"
+    } else if (char === "," && braceDepth > 0) {
+      source += "|"
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&")
+    }
+  }
+
+  const regex = new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}$`)
+  cache.set(pattern, regex)
+  return regex
+}
+
+/**
+ * Glob that matches exactly this path, with metacharacters wrapped in brackets:
+ * "app/[id]/page.tsx" becomes "app/[[]id[]]/page.tsx"
+ */
+export function escapeGlob(path: string): string {
+  return path.replace(/[*?[\]{}]/g, "[$&]")
+}
+
+/**
+ * Check whether a repo-relative path matches a glob pattern
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(path.replace(/^\.?\//, ""))
+}
+
+/**
+ * Check whether a path matches any of the patterns
+ */
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesGlob(path, pattern))
+}
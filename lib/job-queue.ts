@@ -0,0 +1,431 @@
+/**
+ * Job Queue
+ * Postgres-backed background jobs with retries, dead-lettering and per-installation concurrency
+ */
+
+import crypto from "crypto";
+import { and, asc, desc, eq, gte, isNull, like, lt, lte, notLike, or, sql } from "drizzle-orm";
+import { db, jobs } from "@/db/schema";
+import type { CodeReview, Job } from "@/db/types";
+import {
+  abandonAICodeReview,
+  triggerAICodeReview,
+  triggerAutoIngestion,
+  type AIReviewJobPayload,
+  type AutoIngestionJobPayload,
+} from "@/lib/review-pipeline";
+import { publishReviewCheck, type PublishCheckJobPayload } from "@/lib/review-checks";
+import {
+  abandonExplainFinding,
+  explainFindingJob,
+  type ExplainFindingJobPayload,
+} from "@/lib/bot-commands";
+import { answerFollowUpJob, type FindingFollowUpJobPayload } from "@/lib/review-conversations";
+import { syncFeedbackReactionsJob, type SyncFeedbackReactionsJobPayload } from "@/lib/finding-feedback";
+import { resolveFixedFindingsJob, type ResolveFixedFindingsJobPayload } from "@/lib/finding-lifecycle";
+import {
+  getMaxPostAttempts,
+  publishReviewCommentsJob,
+  type PublishReviewCommentsJobPayload,
+} from "@/lib/review-publisher";
+import { publishSummaryCommentJob, type PublishSummaryCommentJobPayload } from "@/lib/summary-comment";
+
+// Max jobs running at once for a single GitHub installation
+const MAX_RUNNING_PER_INSTALLATION = 2;
+
+// Advisory lock serializing claims, so two workers can't both see a free slot for an installation
+const CLAIM_LOCK_KEY = "job_queue:claim";
+
+// A running job whose worker hasn't finished within this window is assumed dead
+const JOB_LEASE_MS = 15 * 60 * 1000;
+
+// Retry backoff: 30s, 1m, 2m, 4m... capped at 30m
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+// Inserts tried when a job with the same dedupe key finishes mid-enqueue
+const ENQUEUE_ATTEMPTS = 3;
+
+// Comments for a review may still be arriving when it's reported finished
+const PUBLISH_CHECK_DELAY_MS = 30 * 1000;
+
+export interface JobPayloads {
+  ai_review: AIReviewJobPayload;
+  auto_ingestion: AutoIngestionJobPayload;
+  publish_check: PublishCheckJobPayload;
+  explain_finding: ExplainFindingJobPayload;
+  finding_followup: FindingFollowUpJobPayload;
+  sync_feedback_reactions: SyncFeedbackReactionsJobPayload;
+  resolve_fixed_findings: ResolveFixedFindingsJobPayload;
+  publish_review_comments: PublishReviewCommentsJobPayload;
+  publish_summary_comment: PublishSummaryCommentJobPayload;
+}
+
+export type JobType = keyof JobPayloads;
+
+const JOB_HANDLERS: { [K in JobType]: (payload: JobPayloads[K]) => Promise<void> } = {
+  ai_review: triggerAICodeReview,
+  auto_ingestion: triggerAutoIngestion,
+  publish_check: publishReviewCheck,
+  explain_finding: explainFindingJob,
+  finding_followup: answerFollowUpJob,
+  sync_feedback_reactions: syncFeedbackReactionsJob,
+  resolve_fixed_findings: resolveFixedFindingsJob,
+  publish_review_comments: publishReviewCommentsJob,
+  publish_summary_comment: publishSummaryCommentJob,
+};
+
+// Cleanup run once when a job is dead-lettered
+const DEAD_JOB_HANDLERS: { [K in JobType]?: (payload: JobPayloads[K]) => Promise<void> } = {
+  ai_review: abandonAICodeReview,
+  explain_finding: abandonExplainFinding,
+};
+
+export interface EnqueueJobOptions<K extends JobType> {
+  type: K;
+  payload: JobPayloads[K];
+  installationId?: number;
+  dedupeKey?: string;
+  priority?: number;
+  maxAttempts?: number;
+  delayMs?: number; // Don't run before this much time has passed
+}
+
+export interface RunJobsOptions {
+  maxJobs?: number;
+  timeBudgetMs?: number;
+}
+
+export interface RunJobsResult {
+  workerId: string;
+  reclaimed: number;
+  succeeded: number;
+  retried: number;
+  dead: number;
+}
+
+/**
+ * Exponential backoff delay before the next attempt
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * Add a job to the queue.
+ * If a queued or running job with the same dedupe key exists, that job is returned instead.
+ */
+export async function enqueueJob<K extends JobType>(options: EnqueueJobOptions<K>): Promise<Job> {
+  // The conflicting job can finish between the insert and the lookup; inserting again then succeeds
+  for (let attempt = 1; attempt <= ENQUEUE_ATTEMPTS; attempt++) {
+    const [created] = await db
+      .insert(jobs)
+      .values({
+        type: options.type,
+        payload: options.payload,
+        installationId: options.installationId ?? null,
+        dedupeKey: options.dedupeKey ?? null,
+        priority: options.priority ?? 0,
+        maxAttempts: options.maxAttempts ?? 5,
+        runAt: new Date(Date.now() + (options.delayMs ?? 0)),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (created) {
+      console.log(`📥 Job ${created.id} queued (${created.type})`);
+      return created;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(jobs)
+      .where(
+        and(
+          eq(jobs.dedupeKey, options.dedupeKey!),
+          sql`${jobs.status} in ('queued', 'running')`
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      console.log(`⏭️ Job for ${options.dedupeKey} already ${existing.status}, not queuing again`);
+      return existing;
+    }
+  }
+
+  throw new Error(`Could not queue ${options.type} job for ${options.dedupeKey}: dedupe key kept conflicting`);
+}
+
+/**
+ * Publish a review that reached a final state: its check run, and for completed reviews
+ * its findings, summary comment and fixed-finding resolution.
+ * Called again for findings stored after the review finished; the jobs are deduped while queued.
+ */
+export async function enqueueFinishedReviewJobs(review: CodeReview): Promise<void> {
+  // Finish the review's GitHub check run once it reaches a final state
+  if (review.status === "completed" || review.status === "failed") {
+    await enqueueJob({
+      type: "publish_check",
+      payload: { reviewId: review.id },
+      dedupeKey: `publish_check:${review.id}`,
+      delayMs: PUBLISH_CHECK_DELAY_MS,
+    });
+  }
+
+  if (review.status === "completed") {
+    // Post the run's findings as one GitHub review; failed posts are retried
+    await enqueueJob({
+      type: "publish_review_comments",
+      payload: { reviewId: review.id },
+      dedupeKey: `publish_review_comments:${review.id}`,
+      delayMs: PUBLISH_CHECK_DELAY_MS,
+      // A run per posting attempt, plus a few for waiting out rate limits
+      maxAttempts: getMaxPostAttempts() + 3,
+    });
+
+    // Edit the PR's summary comment in place
+    await enqueueJob({
+      type: "publish_summary_comment",
+      payload: { reviewId: review.id },
+      dedupeKey: `publish_summary_comment:${review.id}`,
+      delayMs: PUBLISH_CHECK_DELAY_MS,
+    });
+
+    // Close out earlier findings the new commits fixed
+    await enqueueJob({
+      type: "resolve_fixed_findings",
+      payload: { reviewId: review.id },
+      dedupeKey: `resolve_fixed_findings:${review.id}`,
+      delayMs: PUBLISH_CHECK_DELAY_MS,
+    });
+  }
+}
+
+/**
+ * Cancel queued jobs whose dedupe key starts with `prefix`, except those whose key starts with `keepPrefix`.
+ * Running jobs are left alone; their handlers check for cancellation themselves.
+ */
+export async function cancelQueuedJobs(prefix: string, keepPrefix?: string): Promise<number> {
+  const conditions = [
+    eq(jobs.status, "queued"),
+    like(jobs.dedupeKey, `${prefix}%`),
+  ];
+  if (keepPrefix) {
+    conditions.push(notLike(jobs.dedupeKey, `${keepPrefix}%`));
+  }
+
+  const cancelled = await db
+    .update(jobs)
+    .set({ status: "cancelled", lastError: "Superseded", updatedAt: new Date() })
+    .where(and(...conditions))
+    .returning({ id: jobs.id });
+
+  if (cancelled.length > 0) {
+    console.log(`🚫 Cancelled ${cancelled.length} superseded job(s) for ${prefix}`);
+  }
+  return cancelled.length;
+}
+
+/**
+ * Claim the next runnable job, skipping installations already at their concurrency limit.
+ * Claims run one at a time under a transaction-scoped advisory lock: the running-job count
+ * below would otherwise race between workers under READ COMMITTED.
+ */
+export async function claimNextJob(workerId: string): Promise<Job | null> {
+  return await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${CLAIM_LOCK_KEY}))`);
+
+    const [candidate] = await tx
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(
+        and(
+          eq(jobs.status, "queued"),
+          lte(jobs.runAt, new Date()),
+          or(
+            isNull(jobs.installationId),
+            sql`(select count(*) from job running
+                 where running.status = 'running'
+                 and running.installation_id = ${jobs.installationId}) < ${MAX_RUNNING_PER_INSTALLATION}`
+          )
+        )
+      )
+      .orderBy(desc(jobs.priority), asc(jobs.runAt))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    if (!candidate) return null;
+
+    const [job] = await tx
+      .update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedAt: new Date(),
+        lockedBy: workerId,
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, candidate.id))
+      .returning();
+
+    return job;
+  });
+}
+
+/**
+ * Mark a job as finished
+ */
+export async function completeJob(job: Job): Promise<void> {
+  await db
+    .update(jobs)
+    .set({
+      status: "completed",
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(jobs.id, job.id));
+}
+
+/**
+ * Record a failed attempt: schedule a retry, or dead-letter the job once attempts run out
+ */
+export async function failJob(job: Job, error: unknown): Promise<"retried" | "dead"> {
+  const lastError = error instanceof Error ? error.message : String(error);
+  const outOfAttempts = job.attempts >= job.maxAttempts;
+
+  await db
+    .update(jobs)
+    .set({
+      status: outOfAttempts ? "dead" : "queued",
+      runAt: outOfAttempts ? job.runAt : new Date(Date.now() + getRetryDelayMs(job.attempts)),
+      lockedAt: null,
+      lockedBy: null,
+      lastError,
+      updatedAt: new Date(),
+    })
+    .where(eq(jobs.id, job.id));
+
+  if (outOfAttempts) {
+    console.error(`💀 Job ${job.id} (${job.type}) dead after ${job.attempts} attempts: ${lastError}`);
+    return "dead";
+  }
+
+  console.warn(`🔁 Job ${job.id} (${job.type}) failed attempt ${job.attempts}/${job.maxAttempts}, retrying: ${lastError}`);
+  return "retried";
+}
+
+/**
+ * Run a dead-lettered job's cleanup, if its type has one
+ */
+async function cleanUpDeadJob(job: Job): Promise<void> {
+  const onDead = DEAD_JOB_HANDLERS[job.type as JobType] as ((payload: unknown) => Promise<void>) | undefined;
+  if (!onDead) return;
+
+  try {
+    await onDead(job.payload);
+  } catch (cleanupError) {
+    console.error(`❌ Dead job cleanup failed for ${job.id}:`, cleanupError);
+  }
+}
+
+/**
+ * Put jobs whose worker died mid-run back in the queue.
+ * Jobs that already used their last attempt are dead-lettered instead.
+ */
+export async function reclaimStaleJobs(): Promise<{ reclaimed: number; dead: number }> {
+  const stale = and(
+    eq(jobs.status, "running"),
+    lt(jobs.lockedAt, new Date(Date.now() - JOB_LEASE_MS))
+  );
+
+  const dead = await db
+    .update(jobs)
+    .set({
+      status: "dead",
+      lockedAt: null,
+      lockedBy: null,
+      lastError: "Worker lease expired on the last attempt",
+      updatedAt: new Date(),
+    })
+    .where(and(stale, gte(jobs.attempts, jobs.maxAttempts)))
+    .returning();
+
+  for (const job of dead) {
+    console.error(`💀 Job ${job.id} (${job.type}) dead after its worker expired on attempt ${job.attempts}`);
+    await cleanUpDeadJob(job);
+  }
+
+  const reclaimed = await db
+    .update(jobs)
+    .set({
+      status: "queued",
+      lockedAt: null,
+      lockedBy: null,
+      lastError: "Worker lease expired",
+      updatedAt: new Date(),
+    })
+    .where(stale)
+    .returning({ id: jobs.id });
+
+  if (reclaimed.length > 0) {
+    console.warn(`♻️ Reclaimed ${reclaimed.length} stale job(s)`);
+  }
+  return { reclaimed: reclaimed.length, dead: dead.length };
+}
+
+/**
+ * Run a single claimed job through its handler
+ */
+async function executeJob(job: Job): Promise<"succeeded" | "retried" | "dead"> {
+  const handler = JOB_HANDLERS[job.type as JobType] as ((payload: unknown) => Promise<void>) | undefined;
+
+  if (!handler) {
+    // Retrying won't help an unknown job type
+    return await failJob({ ...job, attempts: job.maxAttempts }, new Error(`Unknown job type: ${job.type}`));
+  }
+
+  try {
+    console.log(`⚙️ Running job ${job.id} (${job.type}, attempt ${job.attempts}/${job.maxAttempts})`);
+    await handler(job.payload);
+    await completeJob(job);
+    return "succeeded";
+  } catch (error) {
+    const outcome = await failJob(job, error);
+    if (outcome === "dead") {
+      await cleanUpDeadJob(job);
+    }
+
+    return outcome;
+  }
+}
+
+/**
+ * Drain the queue until it's empty, `maxJobs` have run, or the time budget is spent
+ */
+export async function runJobs(options: RunJobsOptions = {}): Promise<RunJobsResult> {
+  const { maxJobs = 10, timeBudgetMs = 4 * 60 * 1000 } = options;
+  const startedAt = Date.now();
+
+  const stale = await reclaimStaleJobs();
+  const result: RunJobsResult = {
+    workerId: `worker-${crypto.randomUUID()}`,
+    reclaimed: stale.reclaimed,
+    succeeded: 0,
+    retried: 0,
+    dead: stale.dead,
+  };
+
+  for (let run = 0; run < maxJobs && Date.now() - startedAt < timeBudgetMs; run++) {
+    const job = await claimNextJob(result.workerId);
+    if (!job) break;
+
+    const outcome = await executeJob(job);
+    result[outcome]++;
+  }
+
+  return result;
+}
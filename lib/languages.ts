@@ -0,0 +1,197 @@
+/**
+ * Language Classification
+ * The one place a file's language is decided, by file name, extension or shebang line.
+ * Names match GitHub's (e.g. "TypeScript React", "Shell"); files it can't place are "Unknown".
+ */
+
+export type LanguageCategory = "programming" | "markup" | "config" | "data" | "prose" | "unknown";
+
+export interface LanguageInfo {
+  name: string;
+  category: LanguageCategory;
+}
+
+export const UNKNOWN_LANGUAGE: LanguageInfo = { name: "Unknown", category: "unknown" };
+
+const language = (name: string, category: LanguageCategory = "programming"): LanguageInfo => ({ name, category });
+
+const TYPESCRIPT = language("TypeScript");
+const JAVASCRIPT = language("JavaScript");
+const PYTHON = language("Python");
+const RUBY = language("Ruby");
+const SHELL = language("Shell");
+const DOCKERFILE = language("Dockerfile", "config");
+const MAKEFILE = language("Makefile", "config");
+const TERRAFORM = language("Terraform", "config");
+const JSON_DATA = language("JSON", "data");
+const YAML = language("YAML", "data");
+const MARKDOWN = language("Markdown", "prose");
+const DOTENV = language("Dotenv", "config");
+const IGNORE_LIST = language("Ignore List", "config");
+
+// Lowercase extension, without the dot. Longer extensions ("d.ts") are tried first.
+const EXTENSIONS: Record<string, LanguageInfo> = {
+  ts: TYPESCRIPT,
+  mts: TYPESCRIPT,
+  cts: TYPESCRIPT,
+  tsx: language("TypeScript React"),
+  js: JAVASCRIPT,
+  mjs: JAVASCRIPT,
+  cjs: JAVASCRIPT,
+  jsx: language("JavaScript React"),
+  vue: language("Vue"),
+  svelte: language("Svelte"),
+  astro: language("Astro"),
+  py: PYTHON,
+  pyi: PYTHON,
+  rb: RUBY,
+  rake: RUBY,
+  go: language("Go"),
+  rs: language("Rust"),
+  java: language("Java"),
+  kt: language("Kotlin"),
+  kts: language("Kotlin Script"),
+  scala: language("Scala"),
+  groovy: language("Groovy"),
+  gradle: language("Gradle", "config"),
+  c: language("C"),
+  h: language("C"),
+  cpp: language("C++"),
+  cc: language("C++"),
+  cxx: language("C++"),
+  hpp: language("C++"),
+  cs: language("C#"),
+  swift: language("Swift"),
+  m: language("Objective-C"),
+  php: language("PHP"),
+  dart: language("Dart"),
+  ex: language("Elixir"),
+  exs: language("Elixir"),
+  erl: language("Erlang"),
+  hs: language("Haskell"),
+  lua: language("Lua"),
+  pl: language("Perl"),
+  r: language("R"),
+  sol: language("Solidity"),
+  sql: language("SQL"),
+  graphql: language("GraphQL"),
+  gql: language("GraphQL"),
+  proto: language("Protocol Buffer"),
+  sh: SHELL,
+  bash: SHELL,
+  zsh: SHELL,
+  ps1: language("PowerShell"),
+  tf: TERRAFORM,
+  tfvars: TERRAFORM,
+  hcl: language("HCL", "config"),
+  dockerfile: DOCKERFILE,
+  mk: MAKEFILE,
+  html: language("HTML", "markup"),
+  htm: language("HTML", "markup"),
+  xml: language("XML", "markup"),
+  svg: language("SVG", "markup"),
+  css: language("CSS", "markup"),
+  scss: language("SCSS", "markup"),
+  sass: language("Sass", "markup"),
+  less: language("Less", "markup"),
+  json: JSON_DATA,
+  jsonc: language("JSON with Comments", "data"),
+  json5: language("JSON5", "data"),
+  yaml: YAML,
+  yml: YAML,
+  toml: language("TOML", "config"),
+  ini: language("INI", "config"),
+  cfg: language("INI", "config"),
+  properties: language("Java Properties", "config"),
+  env: DOTENV,
+  csv: language("CSV", "data"),
+  md: MARKDOWN,
+  mdx: language("MDX", "prose"),
+  rst: language("reStructuredText", "prose"),
+  txt: language("Text", "prose"),
+};
+
+// Whole lowercase file names, for files without a telling extension
+const FILENAMES: Record<string, LanguageInfo> = {
+  dockerfile: DOCKERFILE,
+  containerfile: DOCKERFILE,
+  makefile: MAKEFILE,
+  gnumakefile: MAKEFILE,
+  "cmakelists.txt": language("CMake", "config"),
+  gemfile: RUBY,
+  rakefile: RUBY,
+  podfile: RUBY,
+  vagrantfile: RUBY,
+  jenkinsfile: language("Groovy"),
+  procfile: language("Procfile", "config"),
+  ".env": DOTENV,
+  ".gitignore": IGNORE_LIST,
+  ".dockerignore": IGNORE_LIST,
+  ".npmignore": IGNORE_LIST,
+  ".gitattributes": language("Git Attributes", "config"),
+  ".editorconfig": language("EditorConfig", "config"),
+  ".bashrc": SHELL,
+  ".zshrc": SHELL,
+  ".profile": SHELL,
+};
+
+const VARIANT_BASES = new Set(["dockerfile", "containerfile", "makefile", ".env"]);
+
+// Interpreter named by a "#!" line
+const INTERPRETERS: Record<string, LanguageInfo> = {
+  sh: SHELL,
+  bash: SHELL,
+  zsh: SHELL,
+  dash: SHELL,
+  ksh: SHELL,
+  node: JAVASCRIPT,
+  deno: TYPESCRIPT,
+  bun: TYPESCRIPT,
+  "ts-node": TYPESCRIPT,
+  tsx: TYPESCRIPT,
+  python: PYTHON,
+  ruby: RUBY,
+  perl: language("Perl"),
+  php: language("PHP"),
+  lua: language("Lua"),
+  make: MAKEFILE,
+};
+
+/**
+ * Language named by a shebang line, e.g. "#!/usr/bin/env python3" or "#!/bin/bash -e"
+ */
+export function getShebangLanguage(firstLine: string): LanguageInfo | null {
+  const [, command = "", args = ""] = firstLine.match(/^#!\s*(\S+)\s*(.*)$/) ?? [];
+  // "/usr/bin/env [-S] python3 -u" names the interpreter in its arguments
+  const interpreter = command.endsWith("/env")
+    ? args.split(/\s+/).find((arg) => arg && !arg.startsWith("-") && !arg.includes("="))
+    : command;
+  const name = interpreter?.split("/").pop()?.replace(/[\d.]+$/, "");
+  return name ? INTERPRETERS[name] ?? null : null;
+}
+
+/**
+ * Classify a file by its name, then its extension, then (for files neither tells apart,
+ * like scripts in bin/) the shebang on the first line of `content`, when given
+ */
+export function classifyLanguage(filename: string, content?: string): LanguageInfo {
+  const basename = filename.split("/").pop()!.toLowerCase();
+
+  const byName = FILENAMES[basename];
+  if (byName) return byName;
+
+  // Variants named after a known file: Dockerfile.prod, Makefile.inc, .env.local
+  const variantOf = basename.startsWith(".env.") ? ".env" : basename.split(".")[0];
+  if (variantOf !== basename && VARIANT_BASES.has(variantOf)) return FILENAMES[variantOf];
+
+  const parts = basename.split(".").slice(1);
+  for (let i = 0; i < parts.length; i++) {
+    const byExtension = EXTENSIONS[parts.slice(i).join(".")];
+    if (byExtension) return byExtension;
+  }
+
+  if (content?.startsWith("#!")) {
+    return getShebangLanguage(content.split("\n", 1)[0]) ?? UNKNOWN_LANGUAGE;
+  }
+  return UNKNOWN_LANGUAGE;
+}
@@ -11,23 +11,46 @@ import type {
 } from "./github-pr"
 import {
   parseDiff,
+  buildDiffFromPatches,
   extractChangedLines,
   filterReviewableFiles,
+  getSkipReason,
   getContextRange,
+  isContentUnchanged,
+  markTruncatedPatches,
   calculateDiffStats,
   calculateDiffComplexity,
+  detectLanguage,
   extractAffectedFunctions,
   type ParsedDiff,
   type FileChange,
   type DiffStats,
+  type SkipReason,
 } from "./diff-parser"
+import { loadGitAttributes } from "./gitattributes"
+import { UNKNOWN_LANGUAGE } from "./languages"
+import { getChangedHeadLines, resolveEnclosingSymbols } from "./symbol-scopes"
+import { getContextTokenBudget, packFiles } from "./context-packer"
+import { planReviewChunks, type ReviewChunkPlan } from "./review-chunks"
 
 export interface PRContext {
   pr: GitHubPRDetails
   diff: GitHubDiff
   parsedDiffs: ParsedDiff[]
   fileChanges: FileChange[]
+  // Renames, copies and mode changes without content edits; there's nothing in them to review
+  unchangedFiles: Array<{
+    filename: string
+    previousFilename?: string
+    status: ParsedDiff["status"]
+    oldMode?: string
+    newMode?: string
+  }>
+  // Binary, lock/build files and files .gitattributes marks generated, vendored or documentation
+  skippedFiles: Array<{ filename: string; reason: SkipReason }>
   fileContents: Map<string, GitHubFileContent>
+  // Groups of files reviewed as separate ai-service runs; a single chunk unless the PR is large
+  chunks: ReviewChunkPlan[]
   commits: Array<{
     sha: string
     message: string
@@ -39,6 +62,12 @@ export interface PRContext {
     overall: number
     perFile: Record<string, number>
   }
+  // Set when only the commits since an earlier review were diffed
+  incremental?: {
+    baseSha: string
+    headSha: string
+    commits: number
+  } | null
   metadata: {
     languages: string[]
     affectedAreas: string[]
@@ -52,18 +81,27 @@ export interface ContextBuildOptions {
   includeFileContents?: boolean
   includeCommits?: boolean
   contextLines?: number
-  maxFilesToFetch?: number
+  maxFilesToFetch?: number // Per review chunk
+  maxFilesPerChunk?: number
   skipBinaryFiles?: boolean
   skipGeneratedFiles?: boolean
+  sinceSha?: string | null // Diff only the changes from this commit to the PR head
+  pathFilter?: ((filename: string) => boolean) | null // Extra per-repo include/exclude rules
 }
 
+// The compare API caps the file list; a full page may be missing files
+const COMPARE_FILE_LIMIT = 300
+
 const DEFAULT_OPTIONS: Required<ContextBuildOptions> = {
   includeFileContents: true,
   includeCommits: true,
   contextLines: 10,
   maxFilesToFetch: 50,
+  maxFilesPerChunk: 50,
   skipBinaryFiles: true,
   skipGeneratedFiles: true,
+  sinceSha: null,
+  pathFilter: null,
 }
 
 /**
@@ -84,26 +122,94 @@ export async function buildPRContext(
   console.log("📋 Fetching PR details...")
   const pr = await client.getPullRequest(owner, repo, prNumber)
 
-  // 2. Fetch diff
-  console.log("📄 Fetching PR diff...")
-  const diff = await client.getPRDiff(owner, repo, prNumber)
+  // 2. Fetch diff: just the new commits when possible, otherwise the whole PR
+  let diff: GitHubDiff | null = null
+  let incremental: PRContext["incremental"] = null
+
+  if (opts.sinceSha && opts.sinceSha !== pr.head.sha) {
+    console.log(`📄 Comparing ${opts.sinceSha.slice(0, 7)}...${pr.head.sha.slice(0, 7)}...`)
+    const comparison = await client.compareCommits(owner, repo, opts.sinceSha, pr.head.sha)
+
+    // A force-push leaves the old head off the new history; its delta isn't meaningful
+    if (comparison.status === "ahead" && comparison.files.length < COMPARE_FILE_LIMIT) {
+      diff = {
+        diff: buildDiffFromPatches(comparison.files),
+        source: "patches",
+        files: comparison.files,
+        stats: {
+          total_files: comparison.files.length,
+          total_additions: comparison.files.reduce((sum, f) => sum + f.additions, 0),
+          total_deletions: comparison.files.reduce((sum, f) => sum + f.deletions, 0),
+          total_changes: comparison.files.reduce((sum, f) => sum + f.changes, 0),
+        },
+      }
+      incremental = {
+        baseSha: opts.sinceSha,
+        headSha: pr.head.sha,
+        commits: comparison.total_commits,
+      }
+    } else {
+      console.log(`⚠️ Compare status "${comparison.status}" with ${comparison.files.length} files, falling back to full diff`)
+    }
+  }
+
+  if (!diff) {
+    console.log("📄 Fetching PR diff...")
+    diff = await client.getPRDiff(owner, repo, prNumber)
+  }
 
   // 3. Parse diff
   console.log("🔍 Parsing diff...")
   const allParsedDiffs = parseDiff(diff.diff)
-  
-  // Filter reviewable files
-  const parsedDiffs = opts.skipGeneratedFiles
-    ? filterReviewableFiles(allParsedDiffs)
+
+  // Patches GitHub cut for size leave files with no hunks; flag them so they aren't taken for renames
+  const truncatedPatches = markTruncatedPatches(allParsedDiffs, diff.files)
+  if (truncatedPatches.length > 0) {
+    console.log(`⚠️ GitHub truncated the patches of ${truncatedPatches.length} file(s); their review coverage is partial`)
+  }
+
+  // Filter reviewable files, with the linguist markers in .gitattributes as of the base commit
+  const gitAttributes = opts.skipGeneratedFiles ? await loadGitAttributes(client, owner, repo, pr.base.sha) : []
+  const reviewableDiffs = opts.skipGeneratedFiles
+    ? filterReviewableFiles(allParsedDiffs, gitAttributes)
     : allParsedDiffs.filter((d) => !d.isBinary || !opts.skipBinaryFiles)
+  const skippedFiles = allParsedDiffs
+    .filter((d) => !reviewableDiffs.includes(d))
+    .map((d) => ({ filename: d.filename, reason: getSkipReason(d, gitAttributes) ?? "binary" }))
+  if (skippedFiles.length > 0) {
+    console.log(`⏭️ Skipping ${skippedFiles.length} binary, generated or vendored file(s)`)
+  }
+  const filteredDiffs = opts.pathFilter
+    ? reviewableDiffs.filter((d) => opts.pathFilter!(d.filename))
+    : reviewableDiffs
+
+  // Renamed files are reviewed by their edits only, and not at all when the content didn't change
+  const parsedDiffs = filteredDiffs.filter((d) => !isContentUnchanged(d))
+  const unchangedFiles = filteredDiffs.filter(isContentUnchanged).map((d) => ({
+    filename: d.filename,
+    previousFilename: d.previousFilename,
+    status: d.status,
+    oldMode: d.oldMode,
+    newMode: d.newMode,
+  }))
+  if (unchangedFiles.length > 0) {
+    console.log(`↪️ Skipping ${unchangedFiles.length} renamed/copied/mode-only file(s) without content changes`)
+  }
 
   // 4. Extract file changes
   const fileChanges = parsedDiffs.map((d) => {
     const change = extractChangedLines(d)
     change.affectedFunctions = extractAffectedFunctions(d)
+    d.language = change.language
     return change
   })
 
+  // Large PRs are split so every file gets reviewed, instead of stopping at the file limit
+  const chunks = planReviewChunks(fileChanges, opts.maxFilesPerChunk)
+  if (chunks.length > 1) {
+    console.log(`🧩 Split ${fileChanges.length} files into ${chunks.length} review chunks`)
+  }
+
   // 5. Fetch commits if requested
   let commits: Array<{ sha: string; message: string; author: string; date: string }> = []
   if (opts.includeCommits) {
@@ -115,13 +221,16 @@ export async function buildPRContext(
   const fileContents = new Map<string, GitHubFileContent>()
   if (opts.includeFileContents) {
     console.log("📦 Fetching file contents...")
-    const filesToFetch = parsedDiffs
-      .filter((d) => d.status !== "removed")
-      .slice(0, opts.maxFilesToFetch)
-      .map((d) => ({
-        path: d.filename,
-        ref: pr.head.sha,
-      }))
+    const removed = new Set(parsedDiffs.filter((d) => d.status === "removed").map((d) => d.filename))
+    const filesToFetch = chunks.flatMap((chunk) =>
+      chunk.files
+        .filter((filename) => !removed.has(filename))
+        .slice(0, opts.maxFilesToFetch)
+        .map((filename) => ({
+          path: filename,
+          ref: pr.head.sha,
+        }))
+    )
 
     const contents = await client.getFileContents(owner, repo, filesToFetch)
     for (const content of contents) {
@@ -129,6 +238,24 @@ export async function buildPRContext(
     }
   }
 
+  // 6b. With the head contents, classify scripts by their shebang and resolve the
+  // class/function/method around each change
+  for (const change of fileChanges) {
+    const content = fileContents.get(change.filename)
+    const parsedDiff = parsedDiffs.find((d) => d.filename === change.filename)
+    if (!content || !parsedDiff) continue
+
+    change.language = parsedDiff.language = detectLanguage(change.filename, content.content)
+
+    const symbols = resolveEnclosingSymbols(content.content, change.language, getChangedHeadLines(parsedDiff))
+    if (symbols.length === 0) continue
+
+    change.enclosingSymbols = symbols
+    change.affectedFunctions = Array.from(
+      new Set([...symbols.map((s) => s.name), ...(change.affectedFunctions ?? [])])
+    )
+  }
+
   // 7. Calculate stats
   const stats = calculateDiffStats(parsedDiffs)
 
@@ -149,21 +276,45 @@ export async function buildPRContext(
   // 9. Extract metadata
   const metadata = extractMetadata(pr, parsedDiffs, stats, complexity.overall)
 
-  console.log(`✅ Context built: ${parsedDiffs.length} files, ${stats.totalChanges} changes`)
+  console.log(`✅ Context built: ${parsedDiffs.length} files, ${stats.totalChanges} changes${incremental ? ` (incremental, ${incremental.commits} commits)` : ""}`)
 
   return {
     pr,
     diff,
     parsedDiffs,
     fileChanges,
+    unchangedFiles,
+    skippedFiles,
     fileContents,
+    chunks,
     commits,
     stats,
     complexity,
+    incremental,
     metadata,
   }
 }
 
+// Paths that touch credentials, auth or configuration
+const SENSITIVE_PATTERNS = [
+  /auth/i,
+  /security/i,
+  /crypto/i,
+  /password/i,
+  /secret/i,
+  /token/i,
+  /key/i,
+  /\.env/i,
+  /config/i,
+]
+
+/**
+ * Check if a file is security-sensitive by its path
+ */
+export function isSensitiveFile(filename: string): boolean {
+  return SENSITIVE_PATTERNS.some((p) => p.test(filename))
+}
+
 /**
  * Extract metadata about the PR
  */
@@ -175,15 +326,8 @@ function extractMetadata(
 ): PRContext["metadata"] {
   // Get unique languages
   const languages = Array.from(
-    new Set(
-      parsedDiffs
-        .map((d) => {
-          const ext = d.filename.split(".").pop()?.toLowerCase()
-          return ext || "unknown"
-        })
-        .filter(Boolean)
-    )
-  )
+    new Set(parsedDiffs.map((d) => d.language ?? detectLanguage(d.filename)))
+  ).filter((language) => language !== UNKNOWN_LANGUAGE.name)
 
   // Determine affected areas based on filenames
   const affectedAreas = new Set<string>()
@@ -220,21 +364,7 @@ function extractMetadata(
   const isLargeChange = stats.totalFiles > 10 || stats.totalChanges > 500
 
   // Check for sensitive files
-  const sensitivePatterns = [
-    /auth/i,
-    /security/i,
-    /crypto/i,
-    /password/i,
-    /secret/i,
-    /token/i,
-    /key/i,
-    /\.env/i,
-    /config/i,
-  ]
-
-  const hasSensitiveFiles = parsedDiffs.some((d) =>
-    sensitivePatterns.some((p) => p.test(d.filename))
-  )
+  const hasSensitiveFiles = parsedDiffs.some((d) => isSensitiveFile(d.filename))
 
   // Determine if deep review is required
   const requiresDeepReview =
@@ -254,6 +384,31 @@ function extractMetadata(
   }
 }
 
+/**
+ * Narrow a PR context to the files of one review chunk, with stats and complexity for just those files
+ */
+export function selectChunkContext(context: PRContext, chunk: ReviewChunkPlan): PRContext {
+  const files = new Set(chunk.files)
+  const parsedDiffs = context.parsedDiffs.filter((d) => files.has(d.filename))
+  const perFile = Object.fromEntries(
+    Object.entries(context.complexity.perFile).filter(([filename]) => files.has(filename))
+  )
+  const scores = Object.values(perFile)
+
+  return {
+    ...context,
+    parsedDiffs,
+    fileChanges: context.fileChanges.filter((c) => files.has(c.filename)),
+    fileContents: new Map([...context.fileContents].filter(([filename]) => files.has(filename))),
+    chunks: [chunk],
+    stats: calculateDiffStats(parsedDiffs),
+    complexity: {
+      overall: scores.reduce((sum, score) => sum + score, 0) / Math.max(scores.length, 1),
+      perFile,
+    },
+  }
+}
+
 /**
  * Get focused context for specific files
  * Useful for targeted review of specific changes
@@ -371,6 +526,11 @@ export function generatePRSummary(context: PRContext): string {
     parts.push("- 🔍 Requires deep review")
   }
 
+  const truncated = context.parsedDiffs.filter((d) => d.patchTruncated)
+  if (truncated.length > 0) {
+    parts.push(`- ✂️ Partial coverage: GitHub truncated the patches of ${truncated.length} file(s)`)
+  }
+
   if (pr.body) {
     parts.push("")
     parts.push("## Description")
@@ -395,7 +555,10 @@ export function generatePRSummary(context: PRContext): string {
  * Prepare context for AI review
  * Formats the context in a way that's optimal for LLM consumption
  */
-export function prepareForAIReview(context: PRContext): {
+export function prepareForAIReview(
+  context: PRContext,
+  options: { tokenBudget?: number } = {}
+): {
   title: string
   description: string | null
   base_ref: string
@@ -403,74 +566,41 @@ export function prepareForAIReview(context: PRContext): {
   files: Array<{
     filename: string
     status: string
+    previous_filename?: string // Renamed/copied files: only the patch is new code
+    enclosing_symbols?: Array<{
+      name: string
+      kind: string
+      start_line: number
+      end_line: number
+      changed_lines: number[]
+    }>
     additions: number
     deletions: number
     patch?: string
+    packing: "full" | "trimmed" | "summary" // How much of the patch fit the token budget
+    patch_truncated?: boolean // GitHub left out the patch; the file's changes can't be seen
+    patch_summary?: string // Sent instead of the patch when it didn't fit
     language?: string
   }>
   metadata: Record<string, any>
 } {
-  // Helper function to reconstruct patch from parsed diff
-  const getPatchForFile = (filename: string): string | undefined => {
-    const parsedDiff = context.parsedDiffs.find(d => d.filename === filename)
-    if (!parsedDiff || parsedDiff.hunks.length === 0) {
-      return undefined
-    }
-
-    // Reconstruct unified diff format from hunks
-    const patchLines: string[] = []
-    for (const hunk of parsedDiff.hunks) {
-      patchLines.push(hunk.header)
-      for (const line of hunk.lines) {
-        if (line.type === 'add') {
-          patchLines.push(`+${line.content}`)
-        } else if (line.type === 'delete') {
-          patchLines.push(`-${line.content}`)
-        } else if (line.type === 'context') {
-          patchLines.push(` ${line.content}`)
-        }
-      }
-    }
-    return patchLines.join('\n')
-  }
+  // Fit the patches into the token budget, most important files first
+  const packing = packFiles(
+    context.fileChanges.map((change) => ({
+      filename: change.filename,
+      hunks: context.parsedDiffs.find((d) => d.filename === change.filename)?.hunks ?? [],
+      additions: change.additions,
+      deletions: change.deletions,
+      complexity: context.complexity.perFile[change.filename] ?? 0,
+      sensitive: isSensitiveFile(change.filename),
+      symbols: change.enclosingSymbols?.map((s) => s.name),
+    })),
+    options.tokenBudget ?? getContextTokenBudget()
+  )
+  const packedFiles = new Map(packing.files.map((f) => [f.filename, f]))
 
-  // Helper function to determine language from filename
-  const getLanguageFromFilename = (filename: string): string | undefined => {
-    const ext = filename.split('.').pop()?.toLowerCase()
-    const languageMap: Record<string, string> = {
-      'js': 'javascript',
-      'jsx': 'javascript',
-      'ts': 'typescript',
-      'tsx': 'typescript',
-      'py': 'python',
-      'rb': 'ruby',
-      'java': 'java',
-      'go': 'go',
-      'rs': 'rust',
-      'php': 'php',
-      'c': 'c',
-      'cpp': 'cpp',
-      'cc': 'cpp',
-      'h': 'c',
-      'hpp': 'cpp',
-      'cs': 'csharp',
-      'swift': 'swift',
-      'kt': 'kotlin',
-      'scala': 'scala',
-      'sh': 'bash',
-      'bash': 'bash',
-      'yaml': 'yaml',
-      'yml': 'yaml',
-      'json': 'json',
-      'xml': 'xml',
-      'html': 'html',
-      'css': 'css',
-      'scss': 'scss',
-      'sql': 'sql',
-      'md': 'markdown',
-      'txt': 'text',
-    }
-    return ext ? languageMap[ext] : undefined
+  if (packing.truncated.length > 0 || packing.dropped.length > 0) {
+    console.log(`✂️ Packed context into ~${packing.estimatedTokens}/${packing.tokenBudget} tokens: ${packing.truncated.length} file(s) truncated, ${packing.dropped.length} dropped`)
   }
 
   return {
@@ -478,13 +608,24 @@ export function prepareForAIReview(context: PRContext): {
     description: context.pr.body || null,
     base_ref: context.pr.base.ref,
     head_ref: context.pr.head.ref,
-    files: context.fileChanges.map((change) => ({
+    files: context.fileChanges.filter((change) => packedFiles.has(change.filename)).map((change) => ({
       filename: change.filename,
       status: change.status,
+      previous_filename: change.previousFilename,
       additions: change.additions,
       deletions: change.deletions,
-      patch: getPatchForFile(change.filename),
-      language: change.language || getLanguageFromFilename(change.filename),
+      patch: packedFiles.get(change.filename)!.patch,
+      packing: packedFiles.get(change.filename)!.mode,
+      patch_summary: packedFiles.get(change.filename)!.summary,
+      patch_truncated: change.patchTruncated,
+      language: change.language,
+      enclosing_symbols: change.enclosingSymbols?.map((symbol) => ({
+        name: symbol.name,
+        kind: symbol.kind,
+        start_line: symbol.startLine,
+        end_line: symbol.endLine,
+        changed_lines: symbol.changedLines,
+      })),
     })),
     metadata: {
       totalFiles: context.stats.totalFiles,
@@ -497,6 +638,22 @@ export function prepareForAIReview(context: PRContext): {
       languages: context.metadata.languages,
       isLargeChange: context.metadata.isLargeChange,
       hasSensitiveFiles: context.metadata.hasSensitiveFiles,
+      reviewMode: context.incremental ? "incremental" : "full",
+      diffSource: context.diff.source,
+      truncatedPatches: context.fileChanges.filter((c) => c.patchTruncated).map((c) => c.filename),
+      incrementalBaseSha: context.incremental?.baseSha ?? null,
+      contextBudget: {
+        tokenBudget: packing.tokenBudget,
+        estimatedTokens: packing.estimatedTokens,
+        truncatedFiles: packing.truncated,
+        droppedFiles: packing.dropped,
+      },
+      unchangedFiles: context.unchangedFiles.map((f) => ({
+        filename: f.filename,
+        previous_filename: f.previousFilename ?? null,
+        status: f.status,
+      })),
+      skippedFiles: context.skippedFiles,
     },
   }
 }
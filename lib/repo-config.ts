@@ -0,0 +1,175 @@
+/**
+ * Repository Configuration
+ * Per-repository review settings from a .graphbug.yml file on the PR's base branch
+ */
+
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import type { GitHubAPIClient } from "@/lib/github-pr";
+import type { ReviewCategory, ReviewSeverity } from "@/db/types";
+import { matchesAnyGlob } from "@/lib/glob";
+
+export const REPO_CONFIG_PATHS = [".graphbug.yml", ".graphbug.yaml"];
+
+const SEVERITY_ORDER: ReviewSeverity[] = ["info", "low", "medium", "high", "critical"];
+
+const CATEGORIES = [
+  "security",
+  "performance",
+  "bug",
+  "code_quality",
+  "best_practice",
+  "documentation",
+  "testing",
+  "accessibility",
+  "maintainability",
+] as const satisfies readonly ReviewCategory[];
+
+const GlobFilterSchema = z
+  .object({
+    include: z.array(z.string().min(1)).default([]), // Empty means everything
+    exclude: z.array(z.string().min(1)).default([]),
+  })
+  .strict();
+
+export const RepoConfigSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    paths: GlobFilterSchema.prefault({}),
+    branches: GlobFilterSchema.prefault({}), // Target (base) branches to review
+    categories: z.array(z.enum(CATEGORIES)).min(1).default([...CATEGORIES]),
+    min_severity: z.enum(SEVERITY_ORDER).default("info"), // Lowest severity posted to the PR
+    max_comments: z.number().int().min(0).max(100).default(25),
+    model: z.enum(["flash", "pro", "thinking"]).nullable().default(null), // Model tier preference
+    max_files: z.number().int().min(1).max(300).default(50),
+  })
+  .strict();
+
+export type RepoConfig = z.infer<typeof RepoConfigSchema>;
+
+export const DEFAULT_REPO_CONFIG: RepoConfig = RepoConfigSchema.parse({});
+
+export interface LoadedRepoConfig {
+  config: RepoConfig;
+  source: "file" | "default";
+  path: string | null;
+  sha: string | null; // Blob SHA of the config file
+  errors: string[]; // Problems found in the file; the defaults are used when there are any
+}
+
+/**
+ * Parse and validate .graphbug.yml contents.
+ * An invalid file falls back to the defaults, so a typo never stops reviews.
+ */
+export function parseRepoConfig(text: string): { config: RepoConfig; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (error) {
+    return {
+      config: DEFAULT_REPO_CONFIG,
+      errors: [`Invalid YAML: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  // An empty file is a valid "use the defaults"
+  const validation = RepoConfigSchema.safeParse(raw ?? {});
+  if (!validation.success) {
+    return {
+      config: DEFAULT_REPO_CONFIG,
+      errors: validation.error.issues.map((issue) =>
+        issue.path.length > 0 ? `\`${issue.path.join(".")}\`: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  return { config: validation.data, errors: [] };
+}
+
+/**
+ * Load the config from the base branch of a PR, so a PR can't change how it's reviewed
+ */
+export async function loadRepoConfig(
+  client: GitHubAPIClient,
+  owner: string,
+  repo: string,
+  baseRef: string
+): Promise<LoadedRepoConfig> {
+  for (const path of REPO_CONFIG_PATHS) {
+    let file;
+    try {
+      file = await client.getFileContent(owner, repo, path, baseRef);
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) continue;
+      throw error;
+    }
+
+    const { config, errors } = parseRepoConfig(file.content);
+    console.log(`⚙️ Loaded ${path} from ${baseRef}${errors.length > 0 ? ` with ${errors.length} error(s)` : ""}`);
+    return { config, source: "file", path, sha: file.sha, errors };
+  }
+
+  return { config: DEFAULT_REPO_CONFIG, source: "default", path: null, sha: null, errors: [] };
+}
+
+/**
+ * Whether PRs into this base branch should be reviewed
+ */
+export function isBranchReviewed(config: RepoConfig, baseRef: string): boolean {
+  const { include, exclude } = config.branches;
+  if (include.length > 0 && !matchesAnyGlob(baseRef, include)) return false;
+  return !matchesAnyGlob(baseRef, exclude);
+}
+
+/**
+ * Whether a changed file should be reviewed
+ */
+export function isPathReviewed(config: RepoConfig, path: string): boolean {
+  const { include, exclude } = config.paths;
+  if (include.length > 0 && !matchesAnyGlob(path, include)) return false;
+  return !matchesAnyGlob(path, exclude);
+}
+
+/**
+ * Whether a finding of this severity meets the configured minimum for posting
+ */
+export function meetsMinSeverity(config: RepoConfig, severity: ReviewSeverity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(config.min_severity);
+}
+
+/**
+ * Findings that may be posted to GitHub: enabled categories at or above the minimum
+ * severity, most severe first, capped at max_comments
+ */
+export function filterPostableFindings<T extends { severity: ReviewSeverity; category: ReviewCategory }>(
+  config: RepoConfig,
+  findings: T[]
+): T[] {
+  return findings
+    .filter((f) => config.categories.includes(f.category) && meetsMinSeverity(config, f.severity))
+    .sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity))
+    .slice(0, config.max_comments);
+}
+
+/**
+ * Config stored with a review, falling back to the defaults for older reviews
+ */
+export function getStoredRepoConfig(settings: unknown): RepoConfig {
+  const validation = RepoConfigSchema.safeParse(settings ?? {});
+  return validation.success ? validation.data : DEFAULT_REPO_CONFIG;
+}
+
+/**
+ * PR comment listing the problems in a config file
+ */
+export function formatConfigErrorComment(loaded: LoadedRepoConfig, baseRef: string): string {
+  return [
+    `### ⚠️ GraphBug configuration error`,
+    "",
+    `\`${loaded.path}\` on \`${baseRef}\` could not be used, so this PR was reviewed with the default settings:`,
+    "",
+    ...loaded.errors.map((e) => `- ${e}`),
+    "",
+    `Fix the file on \`${baseRef}\` and the next review will pick it up.`,
+  ].join("\n");
+}
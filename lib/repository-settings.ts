@@ -0,0 +1,62 @@
+/**
+ * Repository Review Settings
+ * Dashboard-managed controls deciding which pull requests get reviewed automatically
+ */
+
+import type { RepositorySettings } from "@/db/types";
+import { matchesAnyGlob } from "@/lib/glob";
+
+export type ReviewSettings = Pick<
+  RepositorySettings,
+  "autoReview" | "reviewDrafts" | "baseBranches" | "skipAuthors" | "commentMode"
+>;
+
+// Matches the column defaults, used for repos that were never configured
+export const DEFAULT_REVIEW_SETTINGS: ReviewSettings = {
+  autoReview: true,
+  reviewDrafts: true,
+  baseBranches: [],
+  skipAuthors: [],
+  commentMode: "inline",
+};
+
+/**
+ * Pick the review settings out of a stored row, or the defaults if there is none
+ */
+export function toReviewSettings(row: RepositorySettings | null): ReviewSettings {
+  if (!row) return DEFAULT_REVIEW_SETTINGS;
+  return {
+    autoReview: row.autoReview,
+    reviewDrafts: row.reviewDrafts,
+    baseBranches: row.baseBranches,
+    skipAuthors: row.skipAuthors,
+    commentMode: row.commentMode,
+  };
+}
+
+/**
+ * Why a pull request shouldn't be reviewed automatically, or null if it should
+ */
+export function getAutoReviewSkipReason(
+  settings: ReviewSettings,
+  pullRequest: { draft?: boolean; base: { ref: string }; user: { login: string } }
+): string | null {
+  if (!settings.autoReview) {
+    return "automatic reviews are turned off";
+  }
+
+  if (pullRequest.draft && !settings.reviewDrafts) {
+    return "draft pull requests are not reviewed";
+  }
+
+  if (settings.baseBranches.length > 0 && !matchesAnyGlob(pullRequest.base.ref, settings.baseBranches)) {
+    return `base branch ${pullRequest.base.ref} is not watched`;
+  }
+
+  const author = pullRequest.user.login.toLowerCase();
+  if (settings.skipAuthors.some((login) => login.toLowerCase() === author)) {
+    return `author ${pullRequest.user.login} is skipped`;
+  }
+
+  return null;
+}
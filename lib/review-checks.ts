@@ -0,0 +1,271 @@
+/**
+ * Review Check Runs
+ * Mirrors each code review as a GitHub Check Run, so it can be enforced as a required status check
+ */
+
+import { inArray } from "drizzle-orm";
+import { db, reviewComments } from "@/db/schema";
+import type {
+  GitHubAPIClient,
+  CheckRunAnnotation,
+  CheckRunOutput,
+  CheckRunUpdate,
+} from "@/lib/github-pr";
+import { getCodeReviewWithDetails, updateCodeReview } from "@/db/queries";
+import type { CodeReview, ReviewComment, ReviewSeverity, ReviewSummary } from "@/db/types";
+import { filterPostableFindings, getStoredRepoConfig } from "@/lib/repo-config";
+
+export const REVIEW_CHECK_NAME = "GraphBug Review";
+
+// GitHub accepts at most 50 annotations per create/update request
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+const ANNOTATION_LEVELS: Record<ReviewSeverity, CheckRunAnnotation["annotation_level"]> = {
+  critical: "failure",
+  high: "failure",
+  medium: "warning",
+  low: "notice",
+  info: "notice",
+};
+
+export interface PublishCheckJobPayload {
+  reviewId: string;
+}
+
+/**
+ * Link to the review detail page, shown as "Details" on the check
+ */
+export function getReviewDetailsUrl(reviewId: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${appUrl}/analytics/reviews/${reviewId}`;
+}
+
+/**
+ * Stored findings of a review per severity
+ */
+export function countFindingsBySeverity(comments: Pick<ReviewComment, "severity">[]): Record<ReviewSeverity, number> {
+  const counts: Record<ReviewSeverity, number> = { critical: 0, high: 0, medium: 0, low: 0, info: 0 };
+  for (const comment of comments) {
+    counts[comment.severity]++;
+  }
+  return counts;
+}
+
+/**
+ * A review's summary with its issue counts taken from the stored findings. The ai-service's
+ * summary only counts what it found, not detected secrets or findings carried forward.
+ */
+export function withStoredFindingCounts(
+  summary: ReviewSummary | null,
+  comments: Pick<ReviewComment, "severity">[]
+): ReviewSummary | null {
+  if (!summary) return null;
+  return { ...summary, ...countFindingsBySeverity(comments), issuesFound: comments.length };
+}
+
+/**
+ * Check conclusion for a finished review: critical or high findings fail the check
+ */
+export function getCheckConclusion(
+  review: Pick<CodeReview, "status">,
+  comments: Pick<ReviewComment, "severity">[]
+): NonNullable<CheckRunUpdate["conclusion"]> {
+  if (review.status === "cancelled") return "cancelled";
+
+  // An AI outage shouldn't block merges; the output says the review didn't run
+  if (review.status === "failed") return "neutral";
+
+  const counts = countFindingsBySeverity(comments);
+  if (counts.critical + counts.high > 0) return "failure";
+
+  return "success";
+}
+
+/**
+ * Map line-level findings to check annotations. File-level and base-side
+ * findings have no head line to attach to and are only counted in the summary.
+ */
+export function toCheckAnnotations(comments: ReviewComment[]): CheckRunAnnotation[] {
+  return comments
+    .filter((c) => c.startLine !== null && c.side !== "LEFT")
+    .map((c) => ({
+      path: c.filePath,
+      start_line: c.startLine!,
+      end_line: Math.max(c.endLine ?? c.startLine!, c.startLine!),
+      annotation_level: ANNOTATION_LEVELS[c.severity],
+      title: `[${c.severity}] ${c.title}`,
+      message: c.message,
+      raw_details: c.suggestion ?? undefined,
+    }));
+}
+
+/**
+ * Title and markdown summary for a finished review
+ */
+export function buildCheckOutput(review: CodeReview, comments: ReviewComment[]): CheckRunOutput {
+  if (review.status === "cancelled") {
+    return {
+      title: "Review cancelled",
+      summary: review.errorMessage || "A newer commit was pushed before this review finished.",
+    };
+  }
+
+  if (review.status === "failed") {
+    return {
+      title: "Review could not be completed",
+      summary: `The AI review failed, so this commit was not reviewed.\n\n${review.errorMessage || ""}`.trim(),
+    };
+  }
+
+  const counts = countFindingsBySeverity(comments);
+  const total = comments.length;
+  const lines = [
+    total === 0 ? "No issues found." : `Found **${total}** issue${total === 1 ? "" : "s"}.`,
+    "",
+  ];
+
+  if (review.summary) {
+    lines.push(`**Overall score:** ${review.summary.overallScore}/100`, "");
+  }
+
+  if (total > 0) {
+    lines.push("| Severity | Count |", "| --- | --- |");
+    for (const severity of Object.keys(counts) as ReviewSeverity[]) {
+      if (counts[severity] > 0) lines.push(`| ${severity} | ${counts[severity]} |`);
+    }
+    lines.push("");
+  }
+
+  if (review.reviewMode === "incremental" && review.incrementalBaseSha) {
+    lines.push(`_Incremental review of changes since ${review.incrementalBaseSha.slice(0, 7)}._`);
+  }
+
+  if (review.repoConfig && review.repoConfig.errors.length > 0) {
+    lines.push(`_\`${review.repoConfig.path}\` has errors, so the default settings were used._`);
+  }
+
+  const blocking = counts.critical + counts.high;
+  return {
+    title: blocking > 0
+      ? `${blocking} critical/high issue${blocking === 1 ? "" : "s"} found`
+      : total > 0 ? `${total} minor issue${total === 1 ? "" : "s"} found` : "No issues found",
+    summary: lines.join("\n").trim(),
+  };
+}
+
+/**
+ * Create the in-progress check run for a review (reused if the review already has one).
+ * Failures are logged, not thrown: a missing Checks permission shouldn't stop the review.
+ */
+export async function startReviewCheck(
+  client: GitHubAPIClient,
+  owner: string,
+  repo: string,
+  review: CodeReview,
+  headSha: string
+): Promise<number | null> {
+  if (review.checkRunId) return review.checkRunId;
+
+  try {
+    const checkRun = await client.createCheckRun(owner, repo, {
+      name: REVIEW_CHECK_NAME,
+      head_sha: headSha,
+      external_id: review.id,
+      status: "in_progress",
+      started_at: new Date().toISOString(),
+      details_url: getReviewDetailsUrl(review.id),
+      output: {
+        title: "Review in progress",
+        summary: review.reviewMode === "incremental"
+          ? "Reviewing the commits pushed since the last review..."
+          : "Reviewing the changes in this pull request...",
+      },
+    });
+
+    await updateCodeReview(review.id, { checkRunId: checkRun.id });
+    console.log(`✅ Check run ${checkRun.id} started for review ${review.id}`);
+    return checkRun.id;
+  } catch (error) {
+    console.error(`⚠️ Failed to create check run for review ${review.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record findings whose annotations were sent to the check run
+ */
+async function markFindingsAnnotated(findings: ReviewComment[]): Promise<void> {
+  await db
+    .update(reviewComments)
+    .set({ checkAnnotated: true })
+    .where(inArray(reviewComments.id, findings.map((f) => f.id)));
+}
+
+/**
+ * Complete the check run of a finished review with its conclusion and annotations.
+ * Reruns update the conclusion and summary and add annotations for findings stored since.
+ * Runs as a job; throws so GitHub errors are retried.
+ */
+export async function publishReviewCheck(job: PublishCheckJobPayload): Promise<void> {
+  const review = await getCodeReviewWithDetails(job.reviewId);
+  if (!review) {
+    console.log(`ℹ️ Review ${job.reviewId} no longer exists, skipping check run`);
+    return;
+  }
+
+  if (review.status === "pending" || review.status === "in_progress") {
+    console.log(`ℹ️ Review ${review.id} is still ${review.status}, check run left running`);
+    return;
+  }
+
+  const { GitHubAPIClient, parseRepoFullName } = await import("@/lib/github-pr");
+  const { repository } = review.pullRequest;
+  const { owner, repo } = parseRepoFullName(repository.fullName);
+  const client = new GitHubAPIClient(repository.installation.installationId);
+
+  const output = buildCheckOutput(review, review.comments);
+  // Annotations follow the repo's posting settings; the summary still counts everything.
+  // GitHub appends the annotations of every update, so a rerun for late findings sends only theirs.
+  const postable = filterPostableFindings(getStoredRepoConfig(review.repoConfig?.settings), review.comments);
+  const unannotated = review.status === "completed" ? postable.filter((c) => !c.checkAnnotated) : [];
+  const batches: ReviewComment[][] = [];
+  for (let i = 0; i < unannotated.length; i += MAX_ANNOTATIONS_PER_REQUEST) {
+    batches.push(unannotated.slice(i, i + MAX_ANNOTATIONS_PER_REQUEST));
+  }
+
+  const completion: CheckRunUpdate = {
+    status: "completed",
+    conclusion: getCheckConclusion(review, review.comments),
+    completed_at: (review.completedAt ?? new Date()).toISOString(),
+    details_url: getReviewDetailsUrl(review.id),
+    output: { ...output, annotations: toCheckAnnotations(batches[0] ?? []) },
+  };
+
+  let checkRunId = review.checkRunId;
+  if (checkRunId) {
+    await client.updateCheckRun(owner, repo, checkRunId, completion);
+  } else {
+    // The check couldn't be created when the review started; publish it finished
+    const checkRun = await client.createCheckRun(owner, repo, {
+      ...completion,
+      name: REVIEW_CHECK_NAME,
+      head_sha: review.headCommitSha ?? review.pullRequest.headCommitSha,
+      external_id: review.id,
+    });
+    checkRunId = checkRun.id;
+    await updateCodeReview(review.id, { checkRunId });
+  }
+
+  if (batches.length > 0) await markFindingsAnnotated(batches[0]);
+
+  // Remaining annotations are appended in batches
+  for (const batch of batches.slice(1)) {
+    await client.updateCheckRun(owner, repo, checkRunId, {
+      output: { ...output, annotations: toCheckAnnotations(batch) },
+    });
+    await markFindingsAnnotated(batch);
+  }
+
+  const annotations = toCheckAnnotations(unannotated).length;
+  console.log(`✅ Check run ${checkRunId} completed (${completion.conclusion}, ${annotations} new annotations)`);
+}
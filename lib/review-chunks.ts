@@ -0,0 +1,226 @@
+/**
+ * Review Chunks
+ * Large PRs are reviewed in parts: files are grouped into chunks by language and directory,
+ * each chunk goes to the ai-service as its own run under its own ID, and the runs' results
+ * are merged back into the one review record once all of them have finished.
+ */
+
+import { and, eq, inArray } from "drizzle-orm";
+import { db, codeReviews, reviewChunks } from "@/db/schema";
+import {
+  createReviewChunks,
+  deleteReviewChunks,
+  getCodeReviewById,
+  getReviewChunkById,
+  getReviewChunks,
+  updateReviewChunk,
+} from "@/db/queries";
+import type { CodeReview, ReviewChunk, ReviewSummary, UpdateCodeReview, UpdateReviewChunk } from "@/db/types";
+import { groupFilesByLanguage, type FileChange } from "@/lib/diff-parser";
+import { UNKNOWN_LANGUAGE } from "@/lib/languages";
+
+export interface ReviewChunkPlan {
+  files: string[];
+  languages: string[];
+  directories: string[];
+}
+
+// Chunks that couldn't be sent aren't final: the review job's retry sends them again
+const FINAL_STATUSES = ["completed", "failed", "cancelled"];
+
+// Chunks a review job (re)sends; failed ones are sent again when a failed review is retried
+export const UNSENT_CHUNK_STATUSES: ReviewChunk["status"][] = ["pending", "send_failed", "failed"];
+
+/**
+ * Directory of a path, "" for files at the repository root
+ */
+function directoryOf(filename: string): string {
+  const slash = filename.lastIndexOf("/");
+  return slash === -1 ? "" : filename.slice(0, slash);
+}
+
+/**
+ * Plan entry for a chunk's files
+ */
+function toChunkPlan(files: FileChange[]): ReviewChunkPlan {
+  return {
+    files: files.map((f) => f.filename),
+    languages: Array.from(new Set(files.map((f) => f.language || UNKNOWN_LANGUAGE.name))),
+    directories: Array.from(new Set(files.map((f) => directoryOf(f.filename)))),
+  };
+}
+
+/**
+ * Split a PR's files into chunks of at most `maxFilesPerChunk`. Files are ordered by language,
+ * then directory, and each directory is kept in one chunk where it fits, so related files are
+ * reviewed together. Every file ends up in exactly one chunk.
+ */
+export function planReviewChunks(files: FileChange[], maxFilesPerChunk: number): ReviewChunkPlan[] {
+  if (files.length <= maxFilesPerChunk) return [toChunkPlan(files)];
+
+  const groups: FileChange[][] = [];
+  const byLanguage = groupFilesByLanguage(files);
+  for (const language of Object.keys(byLanguage).sort()) {
+    const byDirectory = new Map<string, FileChange[]>();
+    for (const file of [...byLanguage[language]].sort((a, b) => a.filename.localeCompare(b.filename))) {
+      const directory = directoryOf(file.filename);
+      byDirectory.set(directory, [...(byDirectory.get(directory) ?? []), file]);
+    }
+    groups.push(...[...byDirectory.keys()].sort().map((directory) => byDirectory.get(directory)!));
+  }
+
+  const chunks: FileChange[][] = [];
+  let current: FileChange[] = [];
+  for (const group of groups) {
+    // Start a new chunk rather than split a directory that would fit in one
+    if (current.length > 0 && current.length + group.length > maxFilesPerChunk) {
+      chunks.push(current);
+      current = [];
+    }
+    for (const file of group) {
+      if (current.length === maxFilesPerChunk) {
+        chunks.push(current);
+        current = [];
+      }
+      current.push(file);
+    }
+  }
+  if (current.length > 0) chunks.push(current);
+
+  return chunks.map(toChunkPlan);
+}
+
+/**
+ * Combined summary of the chunks' summaries. The score is averaged, weighted by files changed.
+ */
+export function mergeChunkSummaries(summaries: ReviewSummary[]): ReviewSummary | null {
+  if (summaries.length === 0) return null;
+
+  const total = (key: keyof ReviewSummary) => summaries.reduce((sum, s) => sum + s[key], 0);
+  const filesChanged = total("filesChanged");
+  const overallScore = filesChanged > 0
+    ? summaries.reduce((sum, s) => sum + s.overallScore * s.filesChanged, 0) / filesChanged
+    : total("overallScore") / summaries.length;
+
+  return {
+    overallScore: Math.round(overallScore),
+    filesChanged,
+    issuesFound: total("issuesFound"),
+    critical: total("critical"),
+    high: total("high"),
+    medium: total("medium"),
+    low: total("low"),
+    info: total("info"),
+  };
+}
+
+/**
+ * The review's result once all its chunks are done: completed only if every chunk completed,
+ * since a failed chunk leaves files unreviewed
+ */
+export function mergeChunkResults(chunks: ReviewChunk[]): UpdateCodeReview {
+  const unique = (lists: Array<string[] | null>) => Array.from(new Set(lists.flatMap((list) => list ?? [])));
+  const failed = chunks.filter((c) => c.status !== "completed");
+
+  return {
+    status: failed.length === 0 ? "completed" : "failed",
+    errorMessage: failed.length === 0
+      ? null
+      : `${failed.length} of ${chunks.length} review chunks failed: ${failed
+          .map((c) => `#${c.chunkIndex + 1} (${c.errorMessage ?? c.status})`)
+          .join(", ")}`,
+    summary: mergeChunkSummaries(chunks.flatMap((c) => (c.summary ? [c.summary] : []))),
+    keyChanges: unique(chunks.map((c) => c.keyChanges)),
+    recommendations: unique(chunks.map((c) => c.recommendations)),
+    positives: unique(chunks.map((c) => c.positives)),
+    modelsUsed: chunks.flatMap((c) => c.modelsUsed ?? []),
+    totalTokensInput: chunks.reduce((sum, c) => sum + (c.totalTokensInput ?? 0), 0),
+    totalTokensOutput: chunks.reduce((sum, c) => sum + (c.totalTokensOutput ?? 0), 0),
+    totalCost: chunks.reduce((sum, c) => sum + (c.totalCost ?? 0), 0),
+    // Chunks run in parallel
+    executionTimeMs: Math.max(0, ...chunks.map((c) => c.executionTimeMs ?? 0)),
+    completedAt: new Date(),
+  };
+}
+
+/**
+ * Chunk records for a review's plan. A retried review keeps the chunks it already has
+ * when the plan is unchanged, so chunks that were sent aren't sent again.
+ */
+export async function prepareReviewChunks(reviewId: string, plans: ReviewChunkPlan[]): Promise<ReviewChunk[]> {
+  const existing = await getReviewChunks(reviewId);
+  const samePlan =
+    existing.length === plans.length &&
+    existing.every((chunk, i) => chunk.files.join("\n") === plans[i].files.join("\n"));
+  if (samePlan) return existing;
+
+  await deleteReviewChunks(reviewId);
+  return await createReviewChunks(plans.map((plan, i) => ({ reviewId, chunkIndex: i, files: plan.files })));
+}
+
+/**
+ * The review a report from the ai-service belongs to. Chunked runs report under their chunk's ID.
+ */
+export async function getReviewForReport(
+  reviewOrChunkId: string
+): Promise<{ review: CodeReview; chunk: ReviewChunk | null } | null> {
+  const review = await getCodeReviewById(reviewOrChunkId);
+  if (review) return { review, chunk: null };
+
+  const chunk = await getReviewChunkById(reviewOrChunkId);
+  const parent = chunk ? await getCodeReviewById(chunk.reviewId) : null;
+  return chunk && parent ? { review: parent, chunk } : null;
+}
+
+/**
+ * Store a chunk's report. When it was the last chunk to finish, the merged results are written
+ * to the review and the finished review is returned; otherwise null.
+ */
+export async function recordChunkReport(chunk: ReviewChunk, update: UpdateReviewChunk): Promise<CodeReview | null> {
+  const updated = await updateReviewChunk(chunk.id, update);
+
+  if (!FINAL_STATUSES.includes(updated.status)) {
+    // The first chunk to start moves the review along
+    await db
+      .update(codeReviews)
+      .set({ status: "in_progress" })
+      .where(and(eq(codeReviews.id, chunk.reviewId), eq(codeReviews.status, "pending")));
+    return null;
+  }
+
+  return await mergeFinishedChunks(chunk.reviewId);
+}
+
+/**
+ * Once every chunk of a review has reported or failed, write their merged results to the review
+ * and return it; null while any chunk is still running, or when the review was already finished.
+ */
+export async function mergeFinishedChunks(reviewId: string): Promise<CodeReview | null> {
+  const chunks = await getReviewChunks(reviewId);
+  if (chunks.length === 0 || !chunks.every((c) => FINAL_STATUSES.includes(c.status))) return null;
+
+  // Chunks finishing together may both get here; only one moves the review to its final state
+  const [finished] = await db
+    .update(codeReviews)
+    .set(mergeChunkResults(chunks))
+    .where(and(eq(codeReviews.id, reviewId), inArray(codeReviews.status, ["pending", "in_progress"])))
+    .returning();
+
+  if (finished) {
+    console.log(`🧩 Merged ${chunks.length} chunk(s) into review ${finished.id} (${finished.status})`);
+  }
+  return finished ?? null;
+}
+
+/**
+ * Give up on a review's chunks that couldn't be sent, once its job is out of attempts, and merge
+ * the review if the chunks that were sent have all reported. Returns the finished review, or null.
+ */
+export async function abandonUnsentChunks(reviewId: string): Promise<CodeReview | null> {
+  await db
+    .update(reviewChunks)
+    .set({ status: "failed" })
+    .where(and(eq(reviewChunks.reviewId, reviewId), eq(reviewChunks.status, "send_failed")));
+
+  return await mergeFinishedChunks(reviewId);
+}
@@ -0,0 +1,181 @@
+/**
+ * Review Conversations
+ * Follow-up questions in the GitHub threads of our inline comments, answered by the ai-service
+ */
+
+import { and, asc, count, eq, inArray } from "drizzle-orm";
+import { db, reviewCommentMessages, reviewComments } from "@/db/schema";
+import type { ReviewCommentMessage } from "@/db/types";
+import { explainFinding } from "@/lib/ai-service";
+import { resolveUserApiKey } from "@/lib/review-pipeline";
+
+// Developer messages answered per thread, to bound AI spend on a single finding
+export const MAX_FOLLOW_UPS_PER_THREAD = 10;
+
+export interface FindingFollowUpJobPayload {
+  messageId: string; // Developer message to answer
+  repoDbId: string;
+  repoFullName: string;
+  prNumber: number;
+  installationId: number;
+  userId: string | null;
+}
+
+/**
+ * Store a developer reply. Returns null if this GitHub comment was already stored.
+ */
+export async function recordFollowUpMessage(
+  reviewCommentId: string,
+  comment: { id: number; html_url: string; body: string; user: { login: string } }
+): Promise<ReviewCommentMessage | null> {
+  const [message] = await db
+    .insert(reviewCommentMessages)
+    .values({
+      reviewCommentId,
+      role: "user",
+      author: comment.user.login,
+      body: comment.body,
+      githubCommentId: comment.id,
+      githubCommentUrl: comment.html_url,
+    })
+    .onConflictDoNothing()
+    .returning();
+  return message || null;
+}
+
+/**
+ * Number of developer messages already in a finding's thread
+ */
+export async function countFollowUps(reviewCommentId: string): Promise<number> {
+  const [result] = await db
+    .select({ count: count() })
+    .from(reviewCommentMessages)
+    .where(and(eq(reviewCommentMessages.reviewCommentId, reviewCommentId), eq(reviewCommentMessages.role, "user")));
+  return result?.count ?? 0;
+}
+
+/**
+ * Conversations of a review's findings, keyed by review comment ID
+ */
+export async function getConversationsForComments(
+  reviewCommentIds: string[]
+): Promise<Map<string, ReviewCommentMessage[]>> {
+  const conversations = new Map<string, ReviewCommentMessage[]>();
+  if (reviewCommentIds.length === 0) return conversations;
+
+  const messages = await db
+    .select()
+    .from(reviewCommentMessages)
+    .where(inArray(reviewCommentMessages.reviewCommentId, reviewCommentIds))
+    .orderBy(asc(reviewCommentMessages.createdAt));
+
+  for (const message of messages) {
+    const thread = conversations.get(message.reviewCommentId) ?? [];
+    thread.push(message);
+    conversations.set(message.reviewCommentId, thread);
+  }
+  return conversations;
+}
+
+/**
+ * Answer a developer's reply in the thread of one of our review comments.
+ * Runs as a job; throws so AI and GitHub errors are retried.
+ */
+export async function answerFollowUpJob(job: FindingFollowUpJobPayload): Promise<void> {
+  const [message] = await db
+    .select()
+    .from(reviewCommentMessages)
+    .where(eq(reviewCommentMessages.id, job.messageId))
+    .limit(1);
+
+  if (!message) {
+    console.log(`ℹ️ Follow-up message ${job.messageId} no longer exists`);
+    return;
+  }
+
+  // A retried job may have answered already, or stopped between posting and recording the answer
+  const [existingAnswer] = await db
+    .select({ id: reviewCommentMessages.id })
+    .from(reviewCommentMessages)
+    .where(eq(reviewCommentMessages.replyToMessageId, message.id))
+    .limit(1);
+  if (existingAnswer) return;
+
+  const [finding] = await db
+    .select()
+    .from(reviewComments)
+    .where(eq(reviewComments.id, message.reviewCommentId))
+    .limit(1);
+
+  if (!finding?.githubCommentId) return;
+
+  const credentials = job.userId ? await resolveUserApiKey(job.userId) : null;
+  if (!credentials) {
+    console.warn(`⚠️ No API key for installation ${job.installationId}, follow-up ${message.id} not answered`);
+    return;
+  }
+
+  // Everything up to and including the message being answered
+  const history = (await getConversationsForComments([finding.id])).get(finding.id) ?? [];
+  const turns = history.filter((m) => m.createdAt <= message.createdAt);
+
+  const result = await explainFinding({
+    repo_id: job.repoDbId,
+    provider: credentials.provider,
+    api_key: credentials.apiKey,
+    finding: {
+      file_path: finding.filePath,
+      start_line: finding.startLine,
+      end_line: finding.endLine,
+      severity: finding.severity,
+      category: finding.category,
+      title: finding.title,
+      message: finding.message,
+      suggestion: finding.suggestion,
+      code_snippet: finding.codeSnippet,
+    },
+    messages: turns.map((m) => ({
+      role: m.role as "user" | "assistant",
+      author: m.author,
+      body: m.body,
+    })),
+  });
+
+  // Stored before posting: a retry that finds it won't post a second answer
+  const [answer] = await db
+    .insert(reviewCommentMessages)
+    .values({
+      reviewCommentId: finding.id,
+      replyToMessageId: message.id,
+      role: "assistant",
+      author: "graphbug",
+      body: result.answer,
+      modelUsed: result.model ?? null,
+      tokensInput: result.tokens_input ?? null,
+      tokensOutput: result.tokens_output ?? null,
+      cost: result.cost ?? null,
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (!answer) return;
+
+  const { GitHubAPIClient, parseRepoFullName } = await import("@/lib/github-pr");
+  const { owner, repo } = parseRepoFullName(job.repoFullName);
+  const client = new GitHubAPIClient(job.installationId);
+
+  let posted: { id: number; html_url: string };
+  try {
+    posted = await client.replyToReviewComment(owner, repo, job.prNumber, finding.githubCommentId, result.answer);
+  } catch (error) {
+    // Nothing was posted, so the retry may answer again
+    await db.delete(reviewCommentMessages).where(eq(reviewCommentMessages.id, answer.id));
+    throw error;
+  }
+
+  await db
+    .update(reviewCommentMessages)
+    .set({ githubCommentId: posted.id, githubCommentUrl: posted.html_url })
+    .where(eq(reviewCommentMessages.id, answer.id));
+
+  console.log(`✅ Answered follow-up on finding ${finding.id} (PR #${job.prNumber})`);
+}
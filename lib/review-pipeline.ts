@@ -0,0 +1,966 @@
+/**
+ * Review Pipeline
+ * Long-running work started by webhooks, executed by job queue workers
+ */
+
+import { db, githubRepositories, users, pullRequests, codeReviews, reviewChunks, reviewComments } from "@/db/schema";
+import { eq, and, desc, exists, inArray, isNotNull, isNull, ne, or } from "drizzle-orm";
+import {
+  createCodeReview,
+  createReviewCommentsBatch,
+  getCodeReviewById,
+  getFindingSuppressions,
+  getLatestReviewForPR,
+  getRepositorySettings,
+} from "@/db/queries";
+import type { CodeReview, FindingSuppression, NewReviewComment, PullRequest, ReviewComment } from "@/db/types";
+import { decryptApiKey, signServiceRequest } from "@/lib/encryption";
+import { cancelReview } from "@/lib/ai-service";
+import { getPathBeforeDiff, parseDiff, mapLineRangeThroughDiff, type ParsedDiff } from "@/lib/diff-parser";
+import { publishReviewCheck, startReviewCheck } from "@/lib/review-checks";
+import {
+  formatConfigErrorComment,
+  isBranchReviewed,
+  isPathReviewed,
+  loadRepoConfig,
+  type LoadedRepoConfig,
+} from "@/lib/repo-config";
+import type { GitHubAPIClient } from "@/lib/github-pr";
+import { toReviewSettings } from "@/lib/repository-settings";
+import { matchesGlob } from "@/lib/glob";
+import { findMatchingSuppression } from "@/lib/finding-suppressions";
+import {
+  computeFindingFingerprint,
+  findOpenFindingByFingerprint,
+  getOpenPostedFindings,
+} from "@/lib/finding-lifecycle";
+import { abandonUnsentChunks, prepareReviewChunks, UNSENT_CHUNK_STATUSES } from "@/lib/review-chunks";
+import { scanDiffForSecrets, SECRET_SCANNER_MODEL, toSecretReviewComment } from "@/lib/secret-scanner";
+
+// The pull request fields a review reads: the webhook's pull_request object or one fetched from the API
+export interface ReviewPullRequest {
+  number: number;
+  id: number;
+  title: string;
+  body: string | null;
+  state: string;
+  draft?: boolean;
+  html_url: string;
+  diff_url: string;
+  patch_url: string;
+  changed_files?: number;
+  additions?: number;
+  deletions?: number;
+  user: { login: string; avatar_url: string };
+  base: { ref: string; sha: string; repo: { full_name: string } };
+  head: { ref: string; sha: string };
+}
+
+export interface AIReviewJobPayload {
+  repoDbId: string;
+  pullRequest: ReviewPullRequest;
+  installationId: number;
+  userId: string | null;
+  mode?: "full" | "incremental"; // Incremental diffs only commits since the last completed review
+  trigger?: ReviewTrigger; // Set for reviews requested with a bot command
+  scope?: string | null; // Only review files under this path (or matching this glob)
+}
+
+export interface ReviewTrigger {
+  command: string; // e.g. "review src/api"
+  requestedBy: string; // GitHub login
+}
+
+export interface AutoIngestionJobPayload {
+  repoDbId: string;
+  repository: { full_name: string; clone_url: string };
+  installationId: number;
+}
+
+/**
+ * Build the PR context and hand it to the ai-service for review.
+ * Throws on any failure so the job queue can retry it.
+ */
+export async function triggerAICodeReview(job: AIReviewJobPayload) {
+  const { repoDbId, pullRequest, installationId, userId, mode = "full", trigger, scope = null } = job;
+
+  try {
+    console.log(`📝 Starting AI review for PR #${pullRequest.number}: ${pullRequest.title}`);
+    
+    const prRecord = await upsertPullRequestRecord(repoDbId, pullRequest);
+    
+    if (!userId) {
+      console.warn(`⚠️ No user associated with installation ${installationId}, review will be skipped`);
+      return;
+    }
+
+    const credentials = await resolveUserApiKey(userId);
+    if (!credentials) return;
+    const { provider: resolvedProvider, apiKey: resolvedApiKey } = credentials;
+
+    // Kept for backward compat with older ai-service deployments that only read gemini_api_key
+    const geminiApiKey = resolvedProvider === "gemini" ? resolvedApiKey : null;
+
+    // Get PR details
+    const prNumber = pullRequest.number;
+    const prUrl = pullRequest.html_url;
+    const repoFullName = pullRequest.base.repo.full_name;
+    const [owner, repo] = repoFullName.split('/');
+    const baseRef: string = pullRequest.base.ref;
+
+    const { GitHubAPIClient } = await import("@/lib/github-pr");
+    const { buildPRContext, prepareForAIReview, selectChunkContext } = await import("@/lib/pr-context");
+    const client = new GitHubAPIClient(installationId);
+
+    // Read from the base branch, so a PR can't change how it gets reviewed.
+    // An explicit request from the bot overrides the enabled and branch filters.
+    const repoConfig = await loadRepoConfig(client, owner, repo, baseRef);
+    if (!trigger && !repoConfig.config.enabled) {
+      console.log(`⏭️ Reviews disabled by ${repoConfig.path} on ${baseRef}, skipping PR #${prNumber}`);
+      return;
+    }
+    if (!trigger && !isBranchReviewed(repoConfig.config, baseRef)) {
+      console.log(`⏭️ Target branch ${baseRef} excluded by ${repoConfig.path}, skipping PR #${prNumber}`);
+      return;
+    }
+
+    // Create the review record up front so a newer push can cancel it
+    const review = await startReviewRecord(prRecord.id, pullRequest.head.sha, trigger);
+    console.log(`📋 Review record ${review.id} (v${review.reviewVersion}) for ${pullRequest.head.sha.slice(0, 7)}`);
+
+    await db
+      .update(codeReviews)
+      .set({
+        reviewMode: scope ? "scoped" : "full",
+        repoConfig: {
+          source: repoConfig.source,
+          path: repoConfig.path,
+          sha: repoConfig.sha,
+          errors: repoConfig.errors,
+          settings: repoConfig.config,
+        },
+      })
+      .where(eq(codeReviews.id, review.id));
+
+    const settings = toReviewSettings(await getRepositorySettings(repoDbId));
+    const suppressions = await getFindingSuppressions(repoDbId);
+
+    // In check-only mode the check run output mentions the errors instead
+    if (repoConfig.errors.length > 0 && settings.commentMode !== "check_only") {
+      await reportConfigErrors(client, owner, repo, prNumber, review, repoConfig, baseRef);
+    }
+    
+    console.log(`✅ AI review queued for PR #${prNumber} in ${repoFullName}`);
+    console.log(`   📎 PR URL: ${prUrl}`);
+    console.log(`   🔬 Changed files: ${pullRequest.changed_files || 'unknown'}`);
+    console.log(`   ➕ Additions: +${pullRequest.additions || 0}`);
+    console.log(`   ➖ Deletions: -${pullRequest.deletions || 0}`);
+    
+    // Step 1: Build PR context with file contents
+    console.log(`🔨 Building full PR context with file contents...`);
+    
+    // Incremental mode diffs from the head of the last completed review
+    const previousReview = mode === "incremental"
+      ? await getLastCompletedReview(prRecord.id, pullRequest.head.sha)
+      : null;
+
+    await startReviewCheck(client, owner, repo, review, pullRequest.head.sha);
+
+    const context = await buildPRContext(client, owner, repo, prNumber, {
+      includeFileContents: true,
+      includeCommits: true,
+      contextLines: 10,
+      maxFilesToFetch: repoConfig.config.max_files,
+      maxFilesPerChunk: repoConfig.config.max_files,
+      sinceSha: previousReview?.headCommitSha ?? null,
+      pathFilter: (filename) => isPathReviewed(repoConfig.config, filename) && isInReviewScope(filename, scope),
+    });
+    
+    // Large PRs are sent as one ai-service run per chunk, prepared when they're sent
+    const chunked = context.chunks.length > 1;
+    const aiContext = chunked ? null : prepareForAIReview(context);
+    console.log(`✅ PR context built: ${context.fileChanges.length} files in ${context.chunks.length} chunk(s)`);
+
+    // The summary comment lists what wasn't reviewed and why
+    if (context.skippedFiles.length > 0) {
+      await db
+        .update(codeReviews)
+        .set({ skippedFiles: context.skippedFiles })
+        .where(eq(codeReviews.id, review.id));
+    }
+
+    // Findings on lines the new commits didn't touch stay valid; copy them instead of re-reviewing
+    let carriedFindings: ReviewComment[] = [];
+    if (previousReview && context.incremental) {
+      await db
+        .update(codeReviews)
+        .set({ reviewMode: "incremental", incrementalBaseSha: context.incremental.baseSha })
+        .where(eq(codeReviews.id, review.id));
+
+      carriedFindings = await carryForwardFindings(previousReview.id, review.id, context.diff.diff, suppressions);
+      console.log(`♻️ Carried forward ${carriedFindings.length} finding(s) from review ${previousReview.id}`);
+    }
+
+    // Leaked credentials are found locally, before (and whatever) the ai-service reports
+    const secretFindings = await recordSecretFindings(
+      review.id,
+      prRecord.id,
+      parseDiff(context.diff.diff).filter((d) => isInReviewScope(d.filename, scope)),
+      suppressions
+    );
+    if (secretFindings.length > 0) {
+      console.log(`🔑 Secret scan flagged ${secretFindings.length} possible secret(s)`);
+    }
+
+    // Building context is slow; a newer push may have superseded this review meanwhile
+    const latestState = await getCodeReviewById(review.id);
+    if (latestState?.status === "cancelled") {
+      console.log(`🚫 Review ${review.id} was superseded, not sending to ai-service`);
+      return;
+    }
+    
+    const postedFindings = await getOpenPostedFindings(prRecord.id);
+
+    // Trigger AI review workflow with full context
+    const aiServiceUrl = process.env.AI_SERVICE_URL || 'http://localhost:8000';
+    console.log(`🚀 Triggering AI review workflow with full context in ai-service...`);
+    console.log(`   🌐 AI Service URL: ${aiServiceUrl}/review`);
+    
+    try {
+      const reviewPayload = {
+        owner,
+        repo,
+        pr_number: prNumber,
+        installation_id: installationId.toString(),
+        repo_db_id: repoDbId,
+        pull_request_id: prRecord.id,
+        // Report results against this record (POST /api/reviews with review_id)
+        review_id: review.id,
+        head_sha: pullRequest.head.sha,
+        // M7: provider-agnostic fields (ai-service prefers these)
+        provider: resolvedProvider,
+        api_key: resolvedApiKey,
+        // Legacy field for backward compat with older ai-service deployments
+        gemini_api_key: geminiApiKey,
+        // CRITICAL: Include full context (per chunk for large PRs)
+        context: aiContext,
+        // Per-repo .graphbug.yml settings for what gets posted
+        review_config: {
+          categories: repoConfig.config.categories,
+          min_severity: repoConfig.config.min_severity,
+          max_comments: repoConfig.config.max_comments,
+        },
+        model_tier: repoConfig.config.model,
+        // Dashboard setting: inline, summary or check_only (no PR comments)
+        comment_mode: settings.commentMode,
+        // Inline findings are stored only; we post them as one batched GitHub review when the run completes
+        post_inline_comments: false,
+        // We keep a single summary comment per PR and edit it for every review version
+        post_summary_comment: false,
+        // Already-reported findings on unchanged lines and detected secrets, so they aren't raised again
+        previous_findings: [...carriedFindings, ...secretFindings].map((c) => ({
+          file_path: c.filePath,
+          start_line: c.startLine,
+          end_line: c.endLine,
+          category: c.category,
+          severity: c.severity,
+          title: c.title,
+        })),
+        // Open findings already posted on this PR; matching findings aren't posted again
+        posted_findings: postedFindings.map((c) => ({
+          fingerprint: c.fingerprint,
+          file_path: c.filePath,
+          start_line: c.startLine,
+          end_line: c.endLine,
+          category: c.category,
+          title: c.title,
+          github_comment_id: c.githubCommentId,
+        })),
+        // Fingerprints of findings dismissed in this repo; matching findings are dropped before posting
+        suppressed_findings: suppressions.map((s) => ({
+          id: s.id,
+          category: s.category,
+          normalized_title: s.normalizedTitle,
+          file_glob: s.fileGlob,
+          snippet_hash: s.snippetHash,
+        })),
+      };
+      
+      console.log(`   📦 Sending payload with context:`, {
+        owner,
+        repo,
+        pr_number: prNumber,
+        installation_id: installationId.toString(),
+        repo_db_id: repoDbId,
+        pull_request_id: prRecord.id,
+        review_id: review.id,
+        has_gemini_key: !!geminiApiKey,
+        context_files: context.fileChanges.length,
+        context_chunks: context.chunks.length,
+        context_size_kb: aiContext ? Math.round(JSON.stringify(aiContext).length / 1024) : null,
+      });
+
+      if (chunked) {
+        // Each chunk runs and reports under its own ID; the results are merged into this review
+        const chunks = await prepareReviewChunks(review.id, context.chunks);
+        const unsent = chunks.filter((c) => UNSENT_CHUNK_STATUSES.includes(c.status));
+        console.log(`🧩 Sending ${unsent.length} of ${chunks.length} review chunk(s) in parallel`);
+
+        const results = await Promise.allSettled(
+          unsent.map(async (chunk) => {
+            await sendReviewRequest(aiServiceUrl, {
+              ...reviewPayload,
+              review_id: chunk.id,
+              context: prepareForAIReview(selectChunkContext(context, context.chunks[chunk.chunkIndex])),
+              review_chunk: { review_id: review.id, index: chunk.chunkIndex, total: chunks.length },
+            });
+            await db
+              .update(reviewChunks)
+              .set({ status: "in_progress", errorMessage: null })
+              .where(and(eq(reviewChunks.id, chunk.id), inArray(reviewChunks.status, UNSENT_CHUNK_STATUSES)));
+          })
+        );
+
+        const failures = unsent.flatMap((chunk, i) => {
+          const result = results[i];
+          if (result.status === "fulfilled") return [];
+          return [{ chunk, message: result.reason instanceof Error ? result.reason.message : String(result.reason) }];
+        });
+        if (failures.length > 0) {
+          // The chunks fail, not the review: the ones that were sent keep running, a retry sends
+          // only the unsent ones, and the review's status is derived once every chunk has finished
+          for (const { chunk, message } of failures) {
+            await db
+              .update(reviewChunks)
+              .set({ status: "send_failed", errorMessage: message })
+              .where(and(eq(reviewChunks.id, chunk.id), inArray(reviewChunks.status, UNSENT_CHUNK_STATUSES)));
+          }
+          if (failures.length < unsent.length || chunks.length > unsent.length) {
+            await db
+              .update(codeReviews)
+              .set({ status: "in_progress", startedAt: new Date() })
+              .where(and(eq(codeReviews.id, review.id), eq(codeReviews.status, "pending")));
+          }
+          throw new Error(`${failures.length} of ${unsent.length} review chunk(s) couldn't be sent: ${failures[0].message}`);
+        }
+      } else {
+        const reviewData = await sendReviewRequest(aiServiceUrl, reviewPayload);
+        console.log(`   🔑 Review ID: ${reviewData.review_id || 'N/A'}`);
+        console.log(`   📊 Status: ${reviewData.status}`);
+        console.log(`   ⏱️  Estimated time: ${reviewData.estimated_time || 'Unknown'}`);
+      }
+
+      // Only move forward from pending; the ai-service may already have reported progress
+      await db
+        .update(codeReviews)
+        .set({ status: "in_progress", startedAt: new Date() })
+        .where(and(eq(codeReviews.id, review.id), eq(codeReviews.status, "pending")));
+
+      console.log(`✅ AI review workflow started successfully!`);
+    } catch (aiError) {
+      console.error(`❌ CRITICAL: Failed to trigger AI service!`);
+      console.error(`   🌐 Target URL: ${aiServiceUrl}/review`);
+      console.error(`   ❗ Error type: ${aiError instanceof Error ? aiError.constructor.name : typeof aiError}`);
+      console.error(`   💬 Error message: ${aiError instanceof Error ? aiError.message : String(aiError)}`);
+      if (aiError instanceof Error && aiError.stack) {
+        console.error(`   📚 Stack trace: ${aiError.stack.split('\n').slice(0, 3).join('\n')}`);
+      }
+      console.error(`   ⚙️  Make sure ai-service is running on ${aiServiceUrl}`);
+      console.error(`   💡 Check: 1) Service is running, 2) Port is correct, 3) No firewall blocking`);
+
+      // Retries pick this record up again (see startReviewRecord)
+      await db
+        .update(codeReviews)
+        .set({
+          status: "failed",
+          errorMessage: aiError instanceof Error ? aiError.message : String(aiError),
+        })
+        .where(and(eq(codeReviews.id, review.id), eq(codeReviews.status, "pending")));
+
+      // Re-throw so the job is retried; the PR record upsert above is idempotent
+      throw aiError;
+    }
+    
+  } catch (error) {
+    console.error(`❌ Failed to trigger AI review:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Create or update the PR record from a webhook or API pull request object
+ */
+export async function upsertPullRequestRecord(
+  repoDbId: string,
+  pullRequest: ReviewPullRequest
+): Promise<PullRequest> {
+  // Create or update PR record in database
+  console.log(`💾 Creating/updating PR record in database...`);
+  
+  let prRecord: PullRequest;
+  try {
+    // Try to find existing PR first
+    const existing = await db
+      .select()
+      .from(pullRequests)
+      .where(
+        and(
+          eq(pullRequests.repositoryId, repoDbId),
+          eq(pullRequests.prNumber, pullRequest.number)
+        )
+      )
+      .limit(1);
+    
+    if (existing.length > 0) {
+      // Update existing PR
+      console.log(`   Found existing PR record, updating...`);
+      [prRecord] = await db
+        .update(pullRequests)
+        .set({
+          title: pullRequest.title,
+          description: pullRequest.body || null,
+          headCommitSha: pullRequest.head.sha,
+          filesChanged: pullRequest.changed_files || 0,
+          additions: pullRequest.additions || 0,
+          deletions: pullRequest.deletions || 0,
+          totalChanges: (pullRequest.additions || 0) + (pullRequest.deletions || 0),
+          updatedAt: new Date(),
+        })
+        .where(eq(pullRequests.id, existing[0].id))
+        .returning();
+    } else {
+      // Create new PR
+      console.log(`   Creating new PR record...`);
+      [prRecord] = await db
+        .insert(pullRequests)
+        .values({
+          prNumber: pullRequest.number,
+          prId: pullRequest.id,
+          repositoryId: repoDbId,
+          title: pullRequest.title,
+          description: pullRequest.body || null,
+          author: pullRequest.user.login,
+          authorAvatarUrl: pullRequest.user.avatar_url,
+          htmlUrl: pullRequest.html_url,
+          diffUrl: pullRequest.diff_url,
+          patchUrl: pullRequest.patch_url,
+          baseBranch: pullRequest.base.ref,
+          headBranch: pullRequest.head.ref,
+          baseCommitSha: pullRequest.base.sha,
+          headCommitSha: pullRequest.head.sha,
+          status: pullRequest.state === "closed" ? "closed" : "open",
+          isDraft: pullRequest.draft || false,
+          filesChanged: pullRequest.changed_files || 0,
+          additions: pullRequest.additions || 0,
+          deletions: pullRequest.deletions || 0,
+          totalChanges: (pullRequest.additions || 0) + (pullRequest.deletions || 0),
+          reviewStatus: "pending",
+          reviewRequestedAt: new Date(),
+        })
+        .returning();
+    }
+    
+    console.log(`✅ PR record ${existing.length > 0 ? 'updated' : 'created'} (ID: ${prRecord.id})`);
+  } catch (dbError) {
+    console.error(`❌ Failed to create/update PR record in database!`);
+    console.error(`   Error:`, dbError);
+    if (dbError instanceof Error) {
+      console.error(`   Message: ${dbError.message}`);
+      if ('code' in dbError) {
+        console.error(`   DB Error Code: ${(dbError as any).code}`);
+        console.error(`   DB Error Detail: ${(dbError as any).detail}`);
+      }
+    }
+    throw dbError;
+  }
+
+  return prRecord;
+}
+
+/**
+ * Resolve a user's AI provider and decrypted API key, or null if they have none (M7).
+ * Priority: apiKeys[preferredProvider] → legacy geminiApiKey (gemini only).
+ */
+export async function resolveUserApiKey(userId: string): Promise<{ provider: string; apiKey: string } | null> {
+  let resolvedApiKey: string | null = null;
+
+  const [user] = await db
+    .select({
+      geminiApiKey: users.geminiApiKey,
+      apiKeys: users.apiKeys,
+      preferredProvider: users.preferredProvider,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const resolvedProvider = user?.preferredProvider ?? "gemini";
+
+  // Try new multi-provider apiKeys column first
+  if (user?.apiKeys) {
+    const encryptedKey = (user.apiKeys as Record<string, string>)[resolvedProvider];
+    if (encryptedKey) {
+      try {
+        resolvedApiKey = decryptApiKey(encryptedKey);
+        console.log(`✅ Using user's ${resolvedProvider} API key (M7 apiKeys column)`);
+      } catch (err) {
+        console.error(`❌ Failed to decrypt ${resolvedProvider} key from apiKeys:`, err);
+      }
+    }
+  }
+
+  // Fall back to legacy geminiApiKey column for gemini provider
+  if (!resolvedApiKey && resolvedProvider === "gemini" && user?.geminiApiKey) {
+    try {
+      resolvedApiKey = decryptApiKey(user.geminiApiKey);
+      console.log(`✅ Using user's Gemini API key (legacy column)`);
+    } catch (err) {
+      console.error(`❌ Failed to decrypt legacy Gemini API key:`, err);
+    }
+  }
+
+  if (!resolvedApiKey) {
+    console.warn(`⚠️ User ${userId} has no API key for provider "${resolvedProvider}", AI work will be skipped`);
+    return null;
+  }
+
+  return { provider: resolvedProvider, apiKey: resolvedApiKey };
+}
+
+/**
+ * Start a review run in the ai-service. The request is signed so the ai-service can verify it came from us.
+ */
+async function sendReviewRequest(
+  aiServiceUrl: string,
+  payload: Record<string, unknown>
+): Promise<{ review_id?: string; status?: string; estimated_time?: string }> {
+  // M12: sign the request so ai-service can verify it came from us
+  const reviewBody = JSON.stringify(payload);
+  const serviceSig = signServiceRequest(reviewBody);
+  const reviewHeaders: Record<string, string> = { "Content-Type": "application/json" };
+  if (serviceSig) reviewHeaders["X-Service-Signature"] = serviceSig;
+
+  const reviewResponse = await fetch(`${aiServiceUrl}/review`, {
+    method: "POST",
+    headers: reviewHeaders,
+    body: reviewBody,
+    signal: AbortSignal.timeout(30000),
+  });
+
+  console.log(`   📡 AI service response status: ${reviewResponse.status} ${reviewResponse.statusText}`);
+
+  if (!reviewResponse.ok) {
+    const errorText = await reviewResponse.text();
+    console.error(`❌ AI service returned error: ${reviewResponse.status}`);
+    console.error(`   Response body: ${errorText}`);
+    throw new Error(`AI service error: ${reviewResponse.status} - ${errorText}`);
+  }
+
+  return await reviewResponse.json();
+}
+
+// A chunked review some of whose chunks couldn't be sent, left in progress for the job's retry
+function awaitingChunkResend() {
+  return and(
+    eq(codeReviews.status, "in_progress"),
+    exists(
+      db
+        .select({ id: reviewChunks.id })
+        .from(reviewChunks)
+        .where(and(eq(reviewChunks.reviewId, codeReviews.id), eq(reviewChunks.status, "send_failed")))
+    )
+  );
+}
+
+/**
+ * Get the review record for a PR head, reusing a pending or failed one from an earlier attempt
+ */
+async function startReviewRecord(
+  pullRequestId: string,
+  headSha: string,
+  trigger?: ReviewTrigger
+): Promise<CodeReview> {
+  const triggerFields = trigger
+    ? { triggerType: "manual", triggerCommand: trigger.command, triggeredBy: trigger.requestedBy }
+    : {};
+
+  const [existing] = await db
+    .select()
+    .from(codeReviews)
+    .where(
+      and(
+        eq(codeReviews.pullRequestId, pullRequestId),
+        eq(codeReviews.headCommitSha, headSha),
+        or(inArray(codeReviews.status, ["pending", "failed"]), awaitingChunkResend())
+      )
+    )
+    .orderBy(desc(codeReviews.reviewVersion))
+    .limit(1);
+
+  if (existing) {
+    // A chunked review with chunks running stays in progress while the failed ones are sent again
+    const [restarted] = await db
+      .update(codeReviews)
+      .set({ ...(existing.status === "in_progress" ? {} : { status: "pending", errorMessage: null }), ...triggerFields })
+      .where(eq(codeReviews.id, existing.id))
+      .returning();
+    return restarted;
+  }
+
+  const latest = await getLatestReviewForPR(pullRequestId);
+  return await createCodeReview({
+    pullRequestId,
+    headCommitSha: headSha,
+    reviewVersion: (latest?.reviewVersion ?? 0) + 1,
+    triggerType: "automatic",
+    status: "pending",
+    ...triggerFields,
+  });
+}
+
+/**
+ * Tell the PR author their .graphbug.yml is invalid, once per PR and config version
+ */
+async function reportConfigErrors(
+  client: GitHubAPIClient,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  review: CodeReview,
+  repoConfig: LoadedRepoConfig,
+  baseRef: string
+): Promise<void> {
+  const [previous] = await db
+    .select({ repoConfig: codeReviews.repoConfig })
+    .from(codeReviews)
+    .where(
+      and(
+        eq(codeReviews.pullRequestId, review.pullRequestId),
+        ne(codeReviews.id, review.id),
+        // Bot command rows don't load the config
+        ne(codeReviews.reviewMode, "command")
+      )
+    )
+    .orderBy(desc(codeReviews.reviewVersion))
+    .limit(1);
+
+  if (previous?.repoConfig?.sha === repoConfig.sha && previous.repoConfig.errors.length > 0) {
+    console.log(`ℹ️ Config errors in ${repoConfig.path} already reported on PR #${prNumber}`);
+    return;
+  }
+
+  // Reporting is best-effort; the review goes ahead with the defaults either way
+  try {
+    await client.postPRComment(owner, repo, prNumber, formatConfigErrorComment(repoConfig, baseRef));
+    console.log(`⚠️ Reported ${repoConfig.errors.length} config error(s) on PR #${prNumber}`);
+  } catch (error) {
+    console.error(`❌ Failed to report config errors on PR #${prNumber}:`, error);
+  }
+}
+
+/**
+ * Whether a file is inside the path a scoped review was asked for
+ */
+export function isInReviewScope(filename: string, scope: string | null): boolean {
+  if (!scope) return true;
+
+  // Checked first: paths like "app/[id]/page.tsx" would be read as globs and never match themselves
+  const prefix = scope.replace(/^\.?\//, "").replace(/\/+$/, "");
+  if (filename === prefix || filename.startsWith(`${prefix}/`)) return true;
+
+  return /[*?[{]/.test(scope) && matchesGlob(filename, scope);
+}
+
+/**
+ * Called when an AI review job runs out of attempts: fail its review and close the check run.
+ * A chunked review with chunks still running is left for them to finish.
+ */
+export async function abandonAICodeReview(job: AIReviewJobPayload): Promise<void> {
+  const [review] = await db
+    .select({ id: codeReviews.id, status: codeReviews.status })
+    .from(codeReviews)
+    .innerJoin(pullRequests, eq(codeReviews.pullRequestId, pullRequests.id))
+    .where(
+      and(
+        eq(pullRequests.repositoryId, job.repoDbId),
+        eq(pullRequests.prNumber, job.pullRequest.number),
+        eq(codeReviews.headCommitSha, job.pullRequest.head.sha),
+        or(inArray(codeReviews.status, ["pending", "failed"]), awaitingChunkResend())
+      )
+    )
+    .orderBy(desc(codeReviews.reviewVersion))
+    .limit(1);
+
+  if (!review) return;
+
+  if (review.status === "in_progress") {
+    // The unsent chunks fail; the ones that were sent finish the review when they report, or now if they all have
+    const finished = await abandonUnsentChunks(review.id);
+    if (finished) await publishReviewCheck({ reviewId: review.id });
+    return;
+  }
+
+  await db
+    .update(codeReviews)
+    .set({ status: "failed", completedAt: new Date() })
+    .where(eq(codeReviews.id, review.id));
+
+  await publishReviewCheck({ reviewId: review.id });
+}
+
+/**
+ * Most recent completed review of a PR at a different head, with a known head SHA
+ */
+async function getLastCompletedReview(pullRequestId: string, headSha: string): Promise<CodeReview | null> {
+  const [review] = await db
+    .select()
+    .from(codeReviews)
+    .where(
+      and(
+        eq(codeReviews.pullRequestId, pullRequestId),
+        eq(codeReviews.status, "completed"),
+        isNotNull(codeReviews.headCommitSha),
+        ne(codeReviews.headCommitSha, headSha)
+      )
+    )
+    .orderBy(desc(codeReviews.reviewVersion))
+    .limit(1);
+  return review || null;
+}
+
+/**
+ * Copy unresolved findings from an earlier review into a new one, moving their line
+ * numbers through the diff between the two heads. Findings on touched lines are dropped;
+ * the incremental review covers those.
+ */
+async function carryForwardFindings(
+  previousReviewId: string,
+  reviewId: string,
+  diffText: string,
+  suppressions: FindingSuppression[]
+): Promise<ReviewComment[]> {
+  // Changed files keyed by their path in the previous head
+  const diffsByOldPath = new Map(
+    parseDiff(diffText).map((d) => [getPathBeforeDiff(d), d])
+  );
+
+  const previous = await db
+    .select()
+    .from(reviewComments)
+    .where(eq(reviewComments.reviewId, previousReviewId));
+
+  const carried: NewReviewComment[] = [];
+
+  for (const comment of previous) {
+    if (comment.isResolved) continue;
+    // Dismissed since the previous review
+    if (findMatchingSuppression(comment, suppressions)) continue;
+
+    const { id, createdAt, updatedAt, ...rest } = comment;
+    void createdAt;
+    void updatedAt;
+
+    const fileDiff = diffsByOldPath.get(comment.filePath);
+    let lines = { startLine: comment.startLine, endLine: comment.endLine };
+
+    if (fileDiff) {
+      if (fileDiff.status === "removed") continue;
+
+      // Base-side and file-level comments don't move with head changes
+      if (comment.startLine !== null && comment.side !== "LEFT") {
+        const mapped = mapLineRangeThroughDiff(
+          fileDiff,
+          comment.startLine,
+          comment.endLine ?? comment.startLine
+        );
+        if (!mapped) continue;
+        lines = { startLine: mapped.startLine, endLine: comment.endLine === null ? null : mapped.endLine };
+      }
+    }
+
+    const filePath = fileDiff?.filename ?? comment.filePath;
+    carried.push({
+      ...rest,
+      ...lines,
+      reviewId,
+      filePath,
+      fingerprint: computeFindingFingerprint({ ...comment, filePath }),
+      carriedFromCommentId: comment.carriedFromCommentId ?? id,
+    });
+  }
+
+  // A retried job may already have copied them
+  await db
+    .delete(reviewComments)
+    .where(and(eq(reviewComments.reviewId, reviewId), isNotNull(reviewComments.carriedFromCommentId)));
+
+  return await createReviewCommentsBatch(carried);
+}
+
+/**
+ * Store the secrets the scanner finds in the added lines as findings of the review.
+ * Secrets already posted on the PR link to their existing thread instead of being posted again.
+ */
+async function recordSecretFindings(
+  reviewId: string,
+  pullRequestId: string,
+  parsedDiffs: ParsedDiff[],
+  suppressions: FindingSuppression[]
+): Promise<ReviewComment[]> {
+  const findings: NewReviewComment[] = [];
+
+  for (const secret of scanDiffForSecrets(parsedDiffs)) {
+    const comment = toSecretReviewComment(secret, reviewId);
+    if (findMatchingSuppression(comment, suppressions)) continue;
+
+    const fingerprint = computeFindingFingerprint(comment);
+    if (findings.some((f) => f.fingerprint === fingerprint)) continue;
+
+    const original = await findOpenFindingByFingerprint(pullRequestId, fingerprint);
+    findings.push({
+      ...comment,
+      fingerprint,
+      githubCommentId: original?.githubCommentId ?? null,
+      githubCommentUrl: original?.githubCommentUrl ?? null,
+      isPosted: !!original,
+    });
+  }
+
+  // A retried job may already have stored them
+  await db
+    .delete(reviewComments)
+    .where(and(eq(reviewComments.reviewId, reviewId), eq(reviewComments.modelUsed, SECRET_SCANNER_MODEL)));
+
+  return await createReviewCommentsBatch(findings);
+}
+
+/**
+ * Cancel pending/in-progress reviews of a PR that ran against an older head,
+ * and tell the ai-service to stop working on them
+ */
+export async function cancelSupersededReviews(pullRequestId: string, headSha: string): Promise<string[]> {
+  const reason = `Superseded by ${headSha.slice(0, 7)}`;
+
+  const superseded = await db
+    .update(codeReviews)
+    .set({ status: "cancelled", completedAt: new Date(), errorMessage: reason })
+    .where(
+      and(
+        eq(codeReviews.pullRequestId, pullRequestId),
+        inArray(codeReviews.status, ["pending", "in_progress"]),
+        // Bot command rows (e.g. a running explain) have no head and aren't reviews
+        ne(codeReviews.reviewMode, "command"),
+        or(isNull(codeReviews.headCommitSha), ne(codeReviews.headCommitSha, headSha))
+      )
+    )
+    .returning({ id: codeReviews.id });
+
+  if (superseded.length > 0) {
+    console.log(`🚫 Cancelled ${superseded.length} superseded review(s): ${reason}`);
+
+    // Chunked reviews run in the ai-service under their chunks' IDs
+    const chunks = await db
+      .select({ id: reviewChunks.id })
+      .from(reviewChunks)
+      .where(inArray(reviewChunks.reviewId, superseded.map((r) => r.id)));
+    await Promise.allSettled([...superseded, ...chunks].map((r) => cancelReview(r.id, reason)));
+  }
+
+  return superseded.map((r) => r.id);
+}
+
+/**
+ * Ask the ai-service to re-ingest a repository after a PR merge (Phase 8).
+ * Throws on failure so the job queue can retry it.
+ */
+export async function triggerAutoIngestion(job: AutoIngestionJobPayload) {
+  const { repository, installationId } = job;
+
+  const [repoRecord] = await db
+    .select()
+    .from(githubRepositories)
+    .where(eq(githubRepositories.id, job.repoDbId))
+    .limit(1);
+
+  if (!repoRecord) {
+    console.log(`ℹ️ Repository ${repository.full_name} was removed, skipping auto-ingestion`);
+    return;
+  }
+
+  try {
+    console.log(`📦 Starting auto-ingestion for ${repository.full_name}`);
+    console.log(`   📊 Current ingestion status: ${repoRecord.ingestionStatus}`);
+    
+    const AI_SERVICE_URL = process.env.AI_SERVICE_URL || 'http://localhost:8000';
+    
+    // Update ingestion status to "in_progress"
+    await db
+      .update(githubRepositories)
+      .set({
+        ingestionStatus: "in_progress",
+        ingestionStartedAt: new Date(),
+      })
+      .where(eq(githubRepositories.id, repoRecord.id));
+    
+    console.log(`🔄 Ingestion status updated to "in_progress"`);
+    
+    // Construct clone URL with authentication
+    // For GitHub App, use installation token (we'll pass installation_id to ai-service)
+    const cloneUrl = repository.clone_url;
+    
+    // Call ai-service /ingest endpoint
+    const ingestResponse = await fetch(`${AI_SERVICE_URL}/ingest`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        repo_url: cloneUrl,
+        repo_id: repoRecord.id,
+        installation_id: installationId.toString(),
+      }),
+    });
+
+    if (!ingestResponse.ok) {
+      const errorText = await ingestResponse.text();
+      console.error(`❌ AI service ingestion failed: ${ingestResponse.status} ${errorText}`);
+      
+      // Update ingestion status to "failed"
+      await db
+        .update(githubRepositories)
+        .set({
+          ingestionStatus: "failed",
+          ingestionCompletedAt: new Date(),
+        })
+        .where(eq(githubRepositories.id, repoRecord.id));
+      
+      throw new Error(`AI service ingestion failed: ${ingestResponse.status}`);
+    }
+
+    const ingestData = await ingestResponse.json();
+    console.log(`✅ Auto-ingestion queued:`, ingestData);
+    console.log(`   🔑 Repo ID: ${repoRecord.id}`);
+    console.log(`   📦 Status: ${ingestData.status}`);
+    
+    // Note: Ingestion happens in background, status will be updated by ai-service webhook or polling
+    console.log(`⏳ Ingestion running in background for ${repository.full_name}`);
+    
+  } catch (error) {
+    console.error(`❌ Failed to trigger auto-ingestion:`, error);
+    
+    // Update ingestion status to "failed"
+    try {
+      await db
+        .update(githubRepositories)
+        .set({
+          ingestionStatus: "failed",
+          ingestionCompletedAt: new Date(),
+        })
+        .where(eq(githubRepositories.id, repoRecord.id));
+    } catch (dbError) {
+      console.error(`❌ Failed to update ingestion status:`, dbError);
+    }
+
+    throw error;
+  }
+}
@@ -0,0 +1,450 @@
+/**
+ * Review Publisher
+ * Posts the findings of a finished review as one GitHub pull request review, so developers
+ * get a single notification, with suggested fixes they can apply in one click.
+ * Findings that fail to post stay in an outbox and are retried.
+ */
+
+import {
+  getCodeReviewWithDetails,
+  getRepositorySettings,
+  markCommentAsPosted,
+  updateReviewComment,
+} from "@/db/queries";
+import { and, eq, inArray } from "drizzle-orm";
+import { db, reviewComments } from "@/db/schema";
+import type { ReviewComment, ReviewSeverity } from "@/db/types";
+import type { GitHubAPIClient } from "@/lib/github-pr";
+import { filterPostableFindings, getStoredRepoConfig } from "@/lib/repo-config";
+import { toReviewSettings } from "@/lib/repository-settings";
+
+// Attempts per finding unless COMMENT_POST_MAX_ATTEMPTS says otherwise
+const DEFAULT_MAX_POST_ATTEMPTS = 5;
+
+// GitHub requests left alone for the installation's other work
+const RATE_LIMIT_RESERVE = 50;
+
+const SEVERITY_ICONS: Record<ReviewSeverity, string> = {
+  critical: "🔴",
+  high: "🟠",
+  medium: "🟡",
+  low: "🔵",
+  info: "⚪",
+};
+
+export interface PublishReviewCommentsJobPayload {
+  reviewId: string;
+}
+
+interface PostTarget {
+  owner: string;
+  repo: string;
+  prNumber: number;
+  headSha: string;
+}
+
+export interface DraftReviewComment {
+  path: string;
+  line: number;
+  start_line?: number;
+  side: "LEFT" | "RIGHT";
+  body: string;
+}
+
+export interface DraftFileComment {
+  path: string;
+  body: string;
+}
+
+type PublishableFinding = Pick<
+  ReviewComment,
+  | "filePath"
+  | "startLine"
+  | "endLine"
+  | "side"
+  | "placement"
+  | "lineSnapped"
+  | "severity"
+  | "title"
+  | "message"
+  | "suggestion"
+>;
+
+/**
+ * Whether a finding's suggestion can be a GitHub suggestion block: it replaces exactly the
+ * commented head lines, so the finding must sit on its own lines of the new code
+ */
+function canSuggest(finding: PublishableFinding): boolean {
+  return (
+    finding.startLine !== null &&
+    (finding.placement ?? "line") === "line" &&
+    finding.side !== "LEFT" &&
+    !finding.lineSnapped
+  );
+}
+
+/**
+ * Code fence long enough not to be closed by backticks inside the code
+ */
+function fenceFor(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(Math.max(3, longest + 1));
+}
+
+/**
+ * Markdown body of an inline finding
+ */
+export function formatFindingBody(finding: PublishableFinding): string {
+  const lines = [`${SEVERITY_ICONS[finding.severity]} **${finding.title}**`, "", finding.message];
+
+  if (finding.suggestion) {
+    const fence = fenceFor(finding.suggestion);
+    lines.push(
+      "",
+      canSuggest(finding) ? `${fence}suggestion` : `**Suggested fix:**\n\n${fence}`,
+      finding.suggestion.replace(/\n$/, ""),
+      fence
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Split findings into inline review comments, file-level comments, and the ones that can only
+ * go in the review body (findings on files outside the diff, or without a known placement)
+ */
+export function toDraftReviewComments<T extends PublishableFinding>(findings: T[]): {
+  inline: Array<{ finding: T; draft: DraftReviewComment }>;
+  files: Array<{ finding: T; draft: DraftFileComment }>;
+  other: T[];
+} {
+  const inline: Array<{ finding: T; draft: DraftReviewComment }> = [];
+  const files: Array<{ finding: T; draft: DraftFileComment }> = [];
+  const other: T[] = [];
+
+  for (const finding of findings) {
+    if (finding.placement === "file") {
+      files.push({ finding, draft: { path: finding.filePath, body: formatFindingBody(finding) } });
+      continue;
+    }
+
+    if (finding.startLine === null || (finding.placement ?? "line") !== "line") {
+      other.push(finding);
+      continue;
+    }
+
+    const endLine = Math.max(finding.endLine ?? finding.startLine, finding.startLine);
+    inline.push({
+      finding,
+      draft: {
+        path: finding.filePath,
+        line: endLine,
+        ...(endLine > finding.startLine ? { start_line: finding.startLine } : {}),
+        side: finding.side === "LEFT" ? "LEFT" : "RIGHT",
+        body: formatFindingBody(finding),
+      },
+    });
+  }
+
+  return { inline, files, other };
+}
+
+/**
+ * One-line markdown list item for a finding, for places without an inline thread
+ */
+export function formatFindingListItem(finding: PublishableFinding): string {
+  const location = finding.startLine !== null ? `${finding.filePath}:${finding.startLine}` : finding.filePath;
+  return `- ${SEVERITY_ICONS[finding.severity]} **${finding.title}** (\`${location}\`): ${finding.message}`;
+}
+
+/**
+ * Body of the batched review: a count, plus the findings that have no file or line to attach to
+ */
+export function buildReviewBody(commentCount: number, other: PublishableFinding[]): string {
+  const total = commentCount + other.length;
+  const lines = [`### 🔍 GraphBug found ${total} issue${total === 1 ? "" : "s"}`];
+
+  if (other.length > 0) {
+    lines.push("", "**Outside the changed lines:**", "");
+    lines.push(...other.map(formatFindingListItem));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Attempts at posting a finding before it's left for a manual retry (COMMENT_POST_MAX_ATTEMPTS)
+ */
+export function getMaxPostAttempts(): number {
+  const configured = parseInt(process.env.COMMENT_POST_MAX_ATTEMPTS || "");
+  return configured > 0 ? configured : DEFAULT_MAX_POST_ATTEMPTS;
+}
+
+/**
+ * Unposted findings that still have attempts left
+ */
+export function selectPendingFindings<T extends Pick<ReviewComment, "isPosted" | "postAttempts">>(
+  findings: T[],
+  maxAttempts: number
+): T[] {
+  return findings.filter((f) => !f.isPosted && (f.postAttempts ?? 0) < maxAttempts);
+}
+
+/**
+ * Record a failed attempt at posting a finding
+ */
+async function recordPostFailure(finding: ReviewComment, error: unknown): Promise<void> {
+  const postError = error instanceof Error ? error.message : String(error);
+  await updateReviewComment(finding.id, { postAttempts: (finding.postAttempts ?? 0) + 1, postError });
+  console.warn(`⚠️ Posting finding ${finding.id} failed (attempt ${(finding.postAttempts ?? 0) + 1}): ${postError}`);
+}
+
+/**
+ * Post file-level findings, which the reviews API can't take, one request each.
+ * Returns the findings that couldn't be posted.
+ */
+async function postFileComments(
+  client: GitHubAPIClient,
+  target: PostTarget,
+  files: Array<{ finding: ReviewComment; draft: DraftFileComment }>
+): Promise<ReviewComment[]> {
+  const { retryWithBackoff } = await import("@/lib/github-pr");
+  const { owner, repo, prNumber, headSha } = target;
+  const failed: ReviewComment[] = [];
+
+  for (const { finding, draft } of files) {
+    try {
+      const posted = await retryWithBackoff(() =>
+        client.postPRFileComment(owner, repo, prNumber, headSha, draft.path, draft.body)
+      );
+      await updateReviewComment(finding.id, {
+        isPosted: true,
+        githubCommentId: posted.id,
+        githubCommentUrl: posted.html_url,
+        postAttempts: (finding.postAttempts ?? 0) + 1,
+        postError: null,
+      });
+    } catch (error) {
+      await recordPostFailure(finding, error);
+      failed.push(finding);
+    }
+  }
+
+  return failed;
+}
+
+/**
+ * Link the inline comments of a submitted review back to their findings. GitHub doesn't say
+ * which created comment is which, so they're matched by file and body. A finding left unmatched
+ * is still on GitHub, in the review, so it's marked posted without a thread of its own.
+ */
+async function reconcileSubmittedReview(
+  client: GitHubAPIClient,
+  target: PostTarget,
+  reviewId: number,
+  inline: Array<{ finding: ReviewComment; draft: DraftReviewComment }>
+): Promise<void> {
+  const { owner, repo, prNumber } = target;
+  const created = await client.listReviewCommentsForReview(owner, repo, prNumber, reviewId);
+
+  for (const { finding, draft } of inline) {
+    const index = created.findIndex((c) => c.path === draft.path && c.body === draft.body);
+    if (index === -1) {
+      console.warn(`⚠️ No comment of review ${reviewId} matches finding ${finding.id}, linking it to the review`);
+      await updateReviewComment(finding.id, {
+        isPosted: true,
+        githubCommentUrl: `https://github.com/${owner}/${repo}/pull/${prNumber}#pullrequestreview-${reviewId}`,
+        postError: null,
+      });
+      continue;
+    }
+
+    const [comment] = created.splice(index, 1);
+    await markCommentAsPosted(finding.id, comment.id, comment.html_url);
+  }
+}
+
+/**
+ * Post findings as a single review and link the created comments back to them.
+ * File-level findings follow as comments of their own. Returns the findings that couldn't
+ * be posted, or null when GitHub rejected the review and nothing was posted.
+ */
+async function submitBatchedReview(
+  client: GitHubAPIClient,
+  target: PostTarget,
+  findings: ReviewComment[]
+): Promise<ReviewComment[] | null> {
+  const { inline, files, other } = toDraftReviewComments(findings);
+  const { owner, repo, prNumber, headSha } = target;
+
+  if (inline.length > 0 || other.length > 0) {
+    let submitted: { id: number; html_url: string };
+    try {
+      submitted = await client.submitPRReview(
+        owner,
+        repo,
+        prNumber,
+        headSha,
+        buildReviewBody(inline.length + files.length, other),
+        "COMMENT",
+        inline.map((c) => c.draft)
+      );
+    } catch (error) {
+      console.warn(`⚠️ Batched review was rejected:`, error);
+      return null;
+    }
+
+    // Recorded first: if anything below fails, the retry links this review instead of submitting another
+    if (inline.length > 0) {
+      await db
+        .update(reviewComments)
+        .set({ githubReviewId: submitted.id, updatedAt: new Date() })
+        .where(inArray(reviewComments.id, inline.map((c) => c.finding.id)));
+    }
+
+    // Findings outside the diff are part of the review body; they have no thread of their own
+    for (const finding of other) {
+      await updateReviewComment(finding.id, { isPosted: true, githubCommentUrl: submitted.html_url, postError: null });
+    }
+
+    await reconcileSubmittedReview(client, target, submitted.id, inline);
+    console.log(`✅ Posted review ${submitted.id} with ${inline.length} inline comment(s)`);
+  }
+
+  return await postFileComments(client, target, files);
+}
+
+/**
+ * Post findings one request at a time, so one bad line doesn't hold back the rest.
+ * Returns the findings that couldn't be posted.
+ */
+async function postFindingsIndividually(
+  client: GitHubAPIClient,
+  target: PostTarget,
+  findings: ReviewComment[]
+): Promise<ReviewComment[]> {
+  const { retryWithBackoff } = await import("@/lib/github-pr");
+  const { inline, files, other } = toDraftReviewComments(findings);
+  const { owner, repo, prNumber, headSha } = target;
+  const failed: ReviewComment[] = [];
+
+  for (const { finding, draft } of inline) {
+    try {
+      const posted = await retryWithBackoff(() =>
+        client.postPRReviewComment(owner, repo, prNumber, headSha, draft.path, draft.body, draft.line, draft.side, draft.start_line)
+      );
+      await updateReviewComment(finding.id, {
+        isPosted: true,
+        githubCommentId: posted.id,
+        githubCommentUrl: posted.html_url,
+        postAttempts: (finding.postAttempts ?? 0) + 1,
+        postError: null,
+      });
+    } catch (error) {
+      await recordPostFailure(finding, error);
+      failed.push(finding);
+    }
+  }
+
+  failed.push(...(await postFileComments(client, target, files)));
+
+  if (other.length > 0) {
+    try {
+      const submitted = await retryWithBackoff(() =>
+        client.submitPRReview(owner, repo, prNumber, headSha, buildReviewBody(0, other), "COMMENT", [])
+      );
+      for (const finding of other) {
+        await updateReviewComment(finding.id, {
+          isPosted: true,
+          githubCommentUrl: submitted.html_url,
+          postAttempts: (finding.postAttempts ?? 0) + 1,
+          postError: null,
+        });
+      }
+    } catch (error) {
+      for (const finding of other) {
+        await recordPostFailure(finding, error);
+        failed.push(finding);
+      }
+    }
+  }
+
+  return failed;
+}
+
+/**
+ * Comment outbox: post a completed review's unposted findings to GitHub.
+ * The first run submits them as one review. A rejected review fails as a whole, so that
+ * run and later ones post each finding on its own, recording attempts and errors, until
+ * it's posted or out of attempts. A review that was submitted is never submitted again: its
+ * findings remember it, and retries only link them to its comments.
+ * Runs as a job; throws to be retried while findings remain.
+ */
+export async function publishReviewCommentsJob(job: PublishReviewCommentsJobPayload): Promise<void> {
+  const review = await getCodeReviewWithDetails(job.reviewId);
+  if (!review || review.status !== "completed" || !review.headCommitSha) return;
+
+  const { repository } = review.pullRequest;
+  const settings = toReviewSettings(await getRepositorySettings(repository.id));
+  if (settings.commentMode !== "inline") return;
+
+  // Carried and duplicate findings are already on GitHub
+  const maxAttempts = getMaxPostAttempts();
+  const postable = filterPostableFindings(getStoredRepoConfig(review.repoConfig?.settings), review.comments);
+  // Submitted in a review by an earlier run that stopped before linking their comments
+  const submitted = postable.filter((f) => !f.isPosted && f.githubReviewId);
+  const pending = selectPendingFindings(postable.filter((f) => !f.githubReviewId), maxAttempts);
+  if (pending.length === 0 && submitted.length === 0) return;
+
+  const { GitHubAPIClient, parseRepoFullName } = await import("@/lib/github-pr");
+  const { owner, repo } = parseRepoFullName(repository.fullName);
+  const client = new GitHubAPIClient(repository.installation.installationId);
+  const target = { owner, repo, prNumber: review.pullRequest.prNumber, headSha: review.headCommitSha };
+
+  // Leave headroom for the installation's other work; the job retries later
+  const rateLimit = await client.getRateLimit();
+  if (rateLimit.remaining < pending.length + RATE_LIMIT_RESERVE) {
+    throw new Error(
+      `GitHub rate limit low (${rateLimit.remaining} left until ${rateLimit.reset.toISOString()}), posting deferred`
+    );
+  }
+
+  const byReview = new Map<number, ReviewComment[]>();
+  for (const finding of submitted) {
+    byReview.set(finding.githubReviewId!, [...(byReview.get(finding.githubReviewId!) ?? []), finding]);
+  }
+  for (const [reviewId, findings] of byReview) {
+    await reconcileSubmittedReview(client, target, reviewId, toDraftReviewComments(findings).inline);
+  }
+  if (pending.length === 0) return;
+
+  let failed: ReviewComment[] | null = null;
+  if (pending.every((f) => !f.postAttempts)) {
+    failed = await submitBatchedReview(client, target, pending);
+    if (!failed) {
+      console.warn(`⚠️ Posting the findings of review ${review.id} one by one`);
+    }
+  }
+
+  failed ??= await postFindingsIndividually(client, target, pending);
+  const retryable = failed.filter((f) => (f.postAttempts ?? 0) + 1 < maxAttempts);
+
+  console.log(`📬 Posted ${pending.length - failed.length}/${pending.length} finding(s) of review ${review.id}`);
+
+  if (retryable.length > 0) {
+    throw new Error(`${retryable.length} finding(s) of review ${review.id} couldn't be posted yet`);
+  }
+}
+
+/**
+ * Give a review's unposted findings a fresh set of attempts. Returns how many there are.
+ */
+export async function resetFailedPosts(reviewId: string): Promise<number> {
+  const reset = await db
+    .update(reviewComments)
+    .set({ postAttempts: 0, postError: null, updatedAt: new Date() })
+    .where(and(eq(reviewComments.reviewId, reviewId), eq(reviewComments.isPosted, false)))
+    .returning({ id: reviewComments.id });
+  return reset.length;
+}
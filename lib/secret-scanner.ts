@@ -0,0 +1,179 @@
+/**
+ * Secret Scanner
+ * Deterministic pass over the lines a PR adds, run before the ai-service is called.
+ * Provider token formats and high-entropy values assigned to secret-looking names become
+ * critical security findings, with the secret masked, at no LLM cost.
+ */
+
+import type { NewReviewComment } from "@/db/types";
+import type { ParsedDiff } from "@/lib/diff-parser";
+
+// Recorded as the findings' model, so they can be told apart from the ai-service's
+export const SECRET_SCANNER_MODEL = "secret-scanner";
+
+export interface SecretRule {
+  id: string;
+  name: string;
+  pattern: RegExp; // The first capture group is the secret, or the whole match without one
+  minEntropy?: number; // Bits per character the secret needs, to skip words and repeated characters
+  showMatch?: boolean; // The match isn't itself secret (a key's BEGIN line)
+}
+
+export interface SecretFinding {
+  ruleId: string;
+  ruleName: string;
+  filePath: string;
+  line: number;
+  redacted: string; // The secret, masked after its first characters
+  snippet: string; // The added line with every secret on it masked
+  entropy: number;
+}
+
+const SECRET_RULES: SecretRule[] = [
+  { id: "aws-access-key-id", name: "AWS access key ID", pattern: /\b((?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16})\b/ },
+  {
+    id: "aws-secret-access-key",
+    name: "AWS secret access key",
+    pattern: /aws.{0,20}?(?:secret|private).{0,20}?[:=]\s*["'`]?([A-Za-z0-9/+]{40})(?![A-Za-z0-9/+])/i,
+    minEntropy: 4,
+  },
+  { id: "github-token", name: "GitHub token", pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,255})\b/ },
+  { id: "github-fine-grained-token", name: "GitHub token", pattern: /\b(github_pat_[A-Za-z0-9_]{22,255})\b/ },
+  { id: "stripe-secret-key", name: "Stripe secret key", pattern: /\b((?:sk|rk)_(?:live|test)_[A-Za-z0-9]{24,99})\b/ },
+  {
+    id: "private-key",
+    name: "private key",
+    pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/,
+    showMatch: true,
+  },
+  {
+    id: "jwt",
+    name: "JSON Web Token",
+    pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/,
+  },
+  {
+    id: "generic-secret",
+    name: "hard-coded secret",
+    pattern: /(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credential|auth[_-]?key)[\w.-]*["']?\s*[:=]\s*["'`]([^"'`\s]{16,})["'`]/i,
+    minEntropy: 3.5,
+  },
+];
+
+// Values that are obviously not real: docs examples, templates and references to the environment
+const PLACEHOLDER = /example|sample|dummy|placeholder|your[_-]|x{4,}|\*{3,}|changeme|redacted|<[^>]*>|\$\{|\{\{|process\.env|os\.environ/i;
+
+/**
+ * Shannon entropy of a string, in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Mask a secret, keeping only enough of its start to recognize it
+ */
+export function redactSecret(secret: string): string {
+  return secret.length >= 12 ? `${secret.slice(0, 4)}********` : "********";
+}
+
+/**
+ * Secrets on one line of code, one per rule (the first match)
+ */
+export function scanLineForSecrets(line: string): Array<{ rule: SecretRule; secret: string; entropy: number }> {
+  const hits: Array<{ rule: SecretRule; secret: string; entropy: number }> = [];
+
+  for (const rule of SECRET_RULES) {
+    const match = line.match(rule.pattern);
+    if (!match) continue;
+
+    const secret = match[1] ?? match[0];
+    const entropy = shannonEntropy(secret);
+    if (rule.minEntropy !== undefined && entropy < rule.minEntropy) continue;
+    if (!rule.showMatch && PLACEHOLDER.test(secret)) continue;
+    // A provider token also matches the generic rule when it's assigned to a "token" or "secret"
+    if (hits.some((hit) => hit.secret.includes(secret) || secret.includes(hit.secret))) continue;
+
+    hits.push({ rule, secret, entropy });
+  }
+
+  return hits;
+}
+
+/**
+ * Scan the lines the diffs add for secrets
+ */
+export function scanDiffForSecrets(parsedDiffs: ParsedDiff[]): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+
+  for (const diff of parsedDiffs) {
+    if (diff.isBinary) continue;
+
+    for (const hunk of diff.hunks) {
+      for (const line of hunk.lines) {
+        if (line.type !== "add" || line.newLineNumber === undefined) continue;
+
+        const hits = scanLineForSecrets(line.content);
+        if (hits.length === 0) continue;
+
+        const snippet = hits
+          .filter((hit) => !hit.rule.showMatch)
+          .reduce((text, hit) => text.split(hit.secret).join(redactSecret(hit.secret)), line.content)
+          .trim();
+
+        for (const { rule, secret, entropy } of hits) {
+          findings.push({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            filePath: diff.filename,
+            line: line.newLineNumber,
+            redacted: rule.showMatch ? secret : redactSecret(secret),
+            snippet,
+            entropy,
+          });
+        }
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Review comment for a detected secret, on the line that adds it
+ */
+export function toSecretReviewComment(
+  finding: SecretFinding,
+  reviewId: string
+): NewReviewComment & { codeSnippet: string } {
+  const generic = finding.ruleId === "generic-secret";
+
+  return {
+    reviewId,
+    filePath: finding.filePath,
+    startLine: finding.line,
+    endLine: finding.line,
+    side: "RIGHT",
+    placement: "line",
+    severity: "critical",
+    category: "security",
+    title: `Possible ${finding.ruleName} committed`,
+    message:
+      `This line adds what looks like a secret (${finding.ruleName}: \`${finding.redacted}\`). ` +
+      "Anyone who can read the repository can use it, and deleting it in a later commit leaves it in the git history. " +
+      "Revoke or rotate it, then load it from an environment variable or a secret manager instead.",
+    codeSnippet: finding.snippet,
+    confidence: generic ? 0.7 : 0.95,
+    modelUsed: SECRET_SCANNER_MODEL,
+    reasoning: generic
+      ? `Value assigned to a secret-like name, with ${finding.entropy.toFixed(1)} bits of entropy per character`
+      : `Matches the ${finding.ruleName} format`,
+  };
+}
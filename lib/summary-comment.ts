@@ -0,0 +1,247 @@
+/**
+ * Summary Comment
+ * One summary comment per PR, edited in place by every review version instead of
+ * posting a new one, with a collapsible history of how the score and issues changed
+ */
+
+import { and, asc, desc, eq, isNotNull, ne } from "drizzle-orm";
+import { db, codeReviews } from "@/db/schema";
+import { getCodeReviewWithDetails, getRepositorySettings, updateCodeReview } from "@/db/queries";
+import type { CodeReview, ReviewComment, ReviewSummary } from "@/db/types";
+import { filterPostableFindings, getStoredRepoConfig } from "@/lib/repo-config";
+import { toReviewSettings } from "@/lib/repository-settings";
+import { getReviewDetailsUrl, withStoredFindingCounts } from "@/lib/review-checks";
+import { formatFindingListItem } from "@/lib/review-publisher";
+
+export interface PublishSummaryCommentJobPayload {
+  reviewId: string;
+}
+
+export type SummaryHistoryEntry = Pick<CodeReview, "reviewVersion" | "headCommitSha" | "summary">;
+
+/**
+ * Signed change between two numbers, e.g. "+7", "−2", or "±0"
+ */
+export function formatDelta(current: number, previous: number): string {
+  const delta = current - previous;
+  if (delta === 0) return "±0";
+  return delta > 0 ? `+${delta}` : `−${Math.abs(delta)}`;
+}
+
+/**
+ * Collapsible table of every review version's score and issue counts, newest first
+ */
+export function formatSummaryHistory(history: SummaryHistoryEntry[]): string {
+  const rows = history.filter((h): h is SummaryHistoryEntry & { summary: ReviewSummary } => !!h.summary);
+  if (rows.length < 2) return "";
+
+  const lines = [
+    "<details>",
+    `<summary>Review history (${rows.length} versions)</summary>`,
+    "",
+    "| Version | Commit | Score | Issues | Critical | High |",
+    "| --- | --- | --- | --- | --- | --- |",
+  ];
+
+  for (let i = rows.length - 1; i >= 0; i--) {
+    const { reviewVersion, headCommitSha, summary } = rows[i];
+    const previous = rows[i - 1]?.summary;
+    const score = previous
+      ? `${summary.overallScore} (${formatDelta(summary.overallScore, previous.overallScore)})`
+      : `${summary.overallScore}`;
+    const issues = previous
+      ? `${summary.issuesFound} (${formatDelta(summary.issuesFound, previous.issuesFound)})`
+      : `${summary.issuesFound}`;
+    const commit = headCommitSha ? `\`${headCommitSha.slice(0, 7)}\`` : "—";
+    lines.push(`| v${reviewVersion} | ${commit} | ${score} | ${issues} | ${summary.critical} | ${summary.high} |`);
+  }
+
+  lines.push("", "</details>");
+  return lines.join("\n");
+}
+
+const SKIP_REASONS: Record<string, string> = {
+  binary: "binary file",
+  default: "lock file, build output or asset",
+  "linguist-generated": "`linguist-generated` in .gitattributes",
+  "linguist-vendored": "`linguist-vendored` in .gitattributes",
+  "linguist-documentation": "`linguist-documentation` in .gitattributes",
+};
+
+/**
+ * Collapsible list of the changed files that weren't reviewed, with the reason for each
+ */
+export function formatSkippedFiles(skippedFiles: NonNullable<CodeReview["skippedFiles"]>): string {
+  if (skippedFiles.length === 0) return "";
+
+  return [
+    "<details>",
+    `<summary>Files not reviewed (${skippedFiles.length})</summary>`,
+    "",
+    ...skippedFiles.map((f) => `- \`${f.filename}\` — ${SKIP_REASONS[f.reason] ?? f.reason}`),
+    "",
+    "</details>",
+  ].join("\n");
+}
+
+/**
+ * Body of the summary comment for a review. `findings` are listed when there are no inline comments.
+ */
+export function formatSummaryComment(
+  review: Pick<
+    CodeReview,
+    | "id"
+    | "reviewVersion"
+    | "headCommitSha"
+    | "summary"
+    | "keyChanges"
+    | "recommendations"
+    | "positives"
+    | "skippedFiles"
+  >,
+  history: SummaryHistoryEntry[],
+  findings: ReviewComment[] = []
+): string {
+  const lines = ["## 🔍 GraphBug Review", ""];
+  const summary = review.summary;
+  const previous = history.filter((h) => h.summary && h.reviewVersion < review.reviewVersion).pop()?.summary;
+
+  if (summary) {
+    const score = previous
+      ? `${summary.overallScore}/100 (${formatDelta(summary.overallScore, previous.overallScore)})`
+      : `${summary.overallScore}/100`;
+    const issues = previous
+      ? `${summary.issuesFound} (${formatDelta(summary.issuesFound, previous.issuesFound)})`
+      : `${summary.issuesFound}`;
+    lines.push(`**Score:** ${score} · **Issues:** ${issues} · **Files changed:** ${summary.filesChanged}`, "");
+
+    if (summary.issuesFound > 0) {
+      lines.push(
+        "| 🔴 Critical | 🟠 High | 🟡 Medium | 🔵 Low | ⚪ Info |",
+        "| --- | --- | --- | --- | --- |",
+        `| ${summary.critical} | ${summary.high} | ${summary.medium} | ${summary.low} | ${summary.info} |`,
+        ""
+      );
+    }
+  }
+
+  const sections: Array<[string, string[] | null]> = [
+    ["Key changes", review.keyChanges],
+    ["Recommendations", review.recommendations],
+    ["What looks good", review.positives],
+  ];
+  for (const [title, items] of sections) {
+    if (items && items.length > 0) {
+      lines.push(`### ${title}`, ...items.map((item) => `- ${item}`), "");
+    }
+  }
+
+  if (findings.length > 0) {
+    lines.push("### Findings", ...findings.map(formatFindingListItem), "");
+  }
+
+  const skipped = formatSkippedFiles(review.skippedFiles ?? []);
+  if (skipped) lines.push(skipped, "");
+
+  const historyTable = formatSummaryHistory(history);
+  if (historyTable) lines.push(historyTable, "");
+
+  const commit = review.headCommitSha ? ` for \`${review.headCommitSha.slice(0, 7)}\`` : "";
+  lines.push(`<sub>Updated${commit} · [Details](${getReviewDetailsUrl(review.id)})</sub>`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Completed review versions of a PR up to and including this one, oldest first
+ */
+async function getSummaryHistory(pullRequestId: string, reviewVersion: number): Promise<SummaryHistoryEntry[]> {
+  const reviews = await db
+    .select({
+      reviewVersion: codeReviews.reviewVersion,
+      headCommitSha: codeReviews.headCommitSha,
+      summary: codeReviews.summary,
+    })
+    .from(codeReviews)
+    .where(and(eq(codeReviews.pullRequestId, pullRequestId), eq(codeReviews.status, "completed")))
+    .orderBy(asc(codeReviews.reviewVersion));
+  return reviews.filter((r) => r.reviewVersion <= reviewVersion);
+}
+
+/**
+ * Summary comment of the PR's latest earlier review version, if one was posted
+ */
+async function getPreviousSummaryComment(review: CodeReview): Promise<{ id: number } | null> {
+  const [previous] = await db
+    .select({ id: codeReviews.summaryCommentId })
+    .from(codeReviews)
+    .where(
+      and(
+        eq(codeReviews.pullRequestId, review.pullRequestId),
+        ne(codeReviews.id, review.id),
+        isNotNull(codeReviews.summaryCommentId)
+      )
+    )
+    .orderBy(desc(codeReviews.reviewVersion))
+    .limit(1);
+  return previous?.id ? { id: previous.id } : null;
+}
+
+/**
+ * Write a completed review's summary into the PR's summary comment: edit the one posted
+ * for this or an earlier version, or post it if there is none (or it was deleted).
+ * Runs as a job; throws so GitHub errors are retried.
+ */
+export async function publishSummaryCommentJob(job: PublishSummaryCommentJobPayload): Promise<void> {
+  const review = await getCodeReviewWithDetails(job.reviewId);
+  if (!review || review.status !== "completed") return;
+
+  // Count every stored finding, and keep the counts so later versions' history shows the same
+  const summary = withStoredFindingCounts(review.summary, review.comments);
+  if (summary) await updateCodeReview(review.id, { summary });
+
+  // Older ai-service deployments post their own summary
+  if (review.summaryCommentId && !review.summaryCommentPublished) return;
+
+  const { repository } = review.pullRequest;
+  const settings = toReviewSettings(await getRepositorySettings(repository.id));
+  if (settings.commentMode === "check_only") return;
+
+  const history = await getSummaryHistory(review.pullRequestId, review.reviewVersion);
+  // Inline mode posts findings as review comments; summary mode lists them here
+  const findings = settings.commentMode === "summary"
+    ? filterPostableFindings(getStoredRepoConfig(review.repoConfig?.settings), review.comments)
+    : [];
+  const body = formatSummaryComment({ ...review, summary }, history, findings);
+
+  const { GitHubAPIClient, parseRepoFullName } = await import("@/lib/github-pr");
+  const { owner, repo } = parseRepoFullName(repository.fullName);
+  const client = new GitHubAPIClient(repository.installation.installationId);
+
+  // A rerun (for findings stored late) edits the comment its first run wrote
+  const previous = review.summaryCommentId ? { id: review.summaryCommentId } : await getPreviousSummaryComment(review);
+  if (previous) {
+    try {
+      await client.updateComment(owner, repo, previous.id, body);
+      const url = `${review.pullRequest.htmlUrl}#issuecomment-${previous.id}`;
+      await updateCodeReview(review.id, {
+        summaryCommentId: previous.id,
+        summaryCommentUrl: url,
+        summaryCommentPublished: true,
+      });
+      console.log(`✏️ Updated summary comment ${previous.id} for review ${review.id} (v${review.reviewVersion})`);
+      return;
+    } catch (error) {
+      // Someone deleted the comment; post a fresh one
+      if ((error as { status?: number }).status !== 404) throw error;
+    }
+  }
+
+  const comment = await client.postPRComment(owner, repo, review.pullRequest.prNumber, body);
+  await updateCodeReview(review.id, {
+    summaryCommentId: comment.id,
+    summaryCommentUrl: comment.html_url,
+    summaryCommentPublished: true,
+  });
+  console.log(`💬 Posted summary comment ${comment.id} for review ${review.id}`);
+}
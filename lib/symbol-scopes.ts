@@ -0,0 +1,460 @@
+/**
+ * Symbol Scopes
+ * Maps changed lines to the class, function or method around them, using the full head
+ * contents of a file. Brace languages (TS/JS, Go, Java, Rust) are read by matching braces,
+ * Python by indentation. It's a scanner, not a parser: strings and comments are blanked out
+ * and declarations are recognized line by line.
+ */
+
+import type { ParsedDiff } from "@/lib/diff-parser";
+
+export type SymbolKind = "class" | "function" | "method";
+
+export interface CodeSymbol {
+  name: string;
+  qualifiedName: string; // e.g. "UserService.getUser", "Server::handle"
+  kind: SymbolKind;
+  startLine: number;
+  endLine: number;
+}
+
+export interface EnclosingSymbol {
+  name: string; // Qualified name
+  kind: SymbolKind;
+  startLine: number;
+  endLine: number;
+  changedLines: number[]; // Head-side lines of the change inside this symbol
+}
+
+type ScopeFamily = "js" | "python" | "go" | "java" | "rust";
+
+interface Declaration {
+  name: string;
+  kind: SymbolKind;
+  parent?: string; // Go receiver type
+}
+
+interface OpenScope {
+  symbol: CodeSymbol | null; // Null for blocks that aren't declarations
+}
+
+const SCOPE_FAMILIES: Record<string, ScopeFamily> = {
+  typescript: "js",
+  "typescript react": "js",
+  javascript: "js",
+  "javascript react": "js",
+  python: "python",
+  go: "go",
+  java: "java",
+  rust: "rust",
+};
+
+// Words that look like a method declaration when followed by "("
+const NOT_METHOD_NAMES = new Set([
+  "if", "for", "while", "switch", "catch", "return", "function", "new", "else", "do", "try",
+  "throw", "typeof", "await", "yield", "super", "this", "synchronized",
+]);
+
+// A declaration whose brace hasn't opened yet goes on when a line starts or the previous one ends like this
+const CONTINUES_SIGNATURE = /^\s*(\{|throws\b|where\b|->|:|extends\b|implements\b|=>|\|)/;
+const SIGNATURE_CONTINUES = /([,(:|&+=]|=>|->|\bwhere)\s*$/;
+
+/**
+ * Language family the scope analyzer understands, if any
+ */
+function getScopeFamily(language: string | undefined): ScopeFamily | null {
+  return language ? SCOPE_FAMILIES[language.toLowerCase()] ?? null : null;
+}
+
+/**
+ * Whether symbols can be resolved for files of this language
+ */
+export function supportsScopeAnalysis(language: string | undefined): boolean {
+  return getScopeFamily(language) !== null;
+}
+
+/**
+ * Source lines with comments and string contents replaced by spaces, so braces and
+ * keywords inside them are ignored. Block comments and multi-line strings carry over lines.
+ */
+function stripCode(lines: string[], family: ScopeFamily): string[] {
+  let block: string | null = null; // Closing delimiter of an open comment or string
+
+  return lines.map((line) => {
+    let out = "";
+    let i = 0;
+
+    while (i < line.length) {
+      if (block) {
+        if (line.startsWith(block, i)) {
+          out += " ".repeat(block.length);
+          i += block.length;
+          block = null;
+        } else {
+          // Go raw strings have no escapes
+          const escaped = line[i] === "\\" && block !== "`" ? 2 : 1;
+          out += " ".repeat(Math.min(escaped, line.length - i));
+          i += escaped;
+        }
+        continue;
+      }
+
+      const rest = line.slice(i);
+      if (family === "python") {
+        if (rest.startsWith("#")) break;
+        const triple = rest.match(/^(?:[rbuf]{0,2})("""|''')/i);
+        if (triple) {
+          block = triple[1];
+          out += " ".repeat(triple[0].length);
+          i += triple[0].length;
+          continue;
+        }
+      } else {
+        if (rest.startsWith("//")) break;
+        if (rest.startsWith("/*")) {
+          block = "*/";
+          out += "  ";
+          i += 2;
+          continue;
+        }
+        // Template literals and Go raw strings may span lines
+        if (line[i] === "`") {
+          block = "`";
+          out += " ";
+          i++;
+          continue;
+        }
+      }
+
+      if (line[i] === '"' || line[i] === "'") {
+        // A Rust quote that isn't a char literal starts a lifetime ('a)
+        if (family === "rust" && line[i] === "'" && !/^'(?:\\.[^']*|[^\\'])'/.test(rest)) {
+          out += " ";
+          i++;
+          continue;
+        }
+        const quote = line[i];
+        let j = i + 1;
+        while (j < line.length && line[j] !== quote) j += line[j] === "\\" ? 2 : 1;
+        out += " ".repeat(Math.min(j + 1, line.length) - i);
+        i = j + 1;
+        continue;
+      }
+
+      out += line[i];
+      i++;
+    }
+
+    return out;
+  });
+}
+
+/**
+ * Declaration on a line of a brace language. `inClassBody` is set when the line sits
+ * directly in a class, struct, trait or impl body.
+ */
+function matchBraceDeclaration(code: string, family: ScopeFamily, inClassBody: boolean): Declaration | null {
+  let match: RegExpMatchArray | null;
+
+  switch (family) {
+    case "js":
+      if ((match = code.match(/^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+)/))) {
+        return { name: match[1], kind: "class" };
+      }
+      if ((match = code.match(/^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*(\w+)/))) {
+        return { name: match[1], kind: "function" };
+      }
+      if (
+        (match = code.match(
+          /^\s*(?:export\s+)?(?:const|let|var)\s+(\w+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|.*=>|\($)/
+        ))
+      ) {
+        return { name: match[1], kind: "function" };
+      }
+      if (inClassBody) {
+        if (
+          (match = code.match(
+            /^\s*(?:(?:public|private|protected|static|readonly|override|async)\s+)*(#?\w+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|.*=>)/
+          ))
+        ) {
+          return { name: match[1], kind: "method" };
+        }
+        if (
+          (match = code.match(
+            /^\s*(?:(?:public|private|protected|static|override|abstract|async|get|set)\s+)*\*?\s*(#?\w+)\s*(?:<[^>]*>)?\s*\(/
+          )) &&
+          !NOT_METHOD_NAMES.has(match[1])
+        ) {
+          return { name: match[1], kind: "method" };
+        }
+      }
+      return null;
+
+    case "go":
+      if ((match = code.match(/^func\s+\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*(\w+)/))) {
+        return { name: match[2], kind: "method", parent: match[1] };
+      }
+      if ((match = code.match(/^func\s+(\w+)/))) {
+        return { name: match[1], kind: "function" };
+      }
+      if ((match = code.match(/^\s*type\s+(\w+)(?:\[[^\]]*\])?\s+(?:struct|interface)\b/))) {
+        return { name: match[1], kind: "class" };
+      }
+      return null;
+
+    case "java":
+      if (
+        (match = code.match(
+          /^\s*(?:@\w+\s+)*(?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp)\s+)*(?:class|interface|enum|record|@interface)\s+(\w+)/
+        ))
+      ) {
+        return { name: match[1], kind: "class" };
+      }
+      if (
+        inClassBody &&
+        (match = code.match(
+          /^\s*(?:@\w+\s+)*(?:(?:public|protected|private|static|final|abstract|synchronized|native|default|strictfp)\s+)*(?:<[^>]+>\s+)?(?:[\w<>[\],.?]+(?:\s+[\w<>[\],.?]+)*\s+)?(\w+)\s*\(/
+        )) &&
+        !NOT_METHOD_NAMES.has(match[1])
+      ) {
+        return { name: match[1], kind: "method" };
+      }
+      return null;
+
+    case "rust":
+      if (
+        (match = code.match(
+          /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:default\s+)?(?:const\s+)?(?:async\s+)?(?:unsafe\s+)?(?:extern\s+(?:"\w*"\s+)?)?fn\s+(\w+)/
+        ))
+      ) {
+        return { name: match[1], kind: inClassBody ? "method" : "function" };
+      }
+      if ((match = code.match(/^\s*(?:pub(?:\([^)]*\))?\s+)?(?:unsafe\s+)?(?:struct|enum|union|trait)\s+(\w+)/))) {
+        return { name: match[1], kind: "class" };
+      }
+      if ((match = code.match(/^\s*(?:unsafe\s+)?impl\b(?:\s*<[^>]*>)?\s+(?:[\w:]+(?:<[^>]*>)?\s+for\s+)?([\w:]+)/))) {
+        return { name: match[1].split("::").pop()!, kind: "class" };
+      }
+      return null;
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Symbols of a brace language, found by attaching each declaration to the next brace it opens
+ */
+function findBraceSymbols(code: string[], family: ScopeFamily): CodeSymbol[] {
+  const separator = family === "rust" ? "::" : ".";
+  const symbols: CodeSymbol[] = [];
+  const stack: OpenScope[] = [];
+  let pending: (Declaration & { startLine: number; parenDepth: number }) | null = null;
+  let parenDepth = 0;
+  let previousCode = "";
+
+  const innermostSymbol = () => {
+    for (let s = stack.length - 1; s >= 0; s--) {
+      if (stack[s].symbol) return stack[s].symbol;
+    }
+    return null;
+  };
+
+  code.forEach((text, index) => {
+    const lineNumber = index + 1;
+    const top = stack[stack.length - 1];
+    const inClassBody = !!top?.symbol && top.symbol.kind === "class" && parenDepth === 0;
+
+    const declaration = parenDepth === 0 ? matchBraceDeclaration(text, family, inClassBody) : null;
+    if (declaration) {
+      pending = { ...declaration, startLine: lineNumber, parenDepth };
+    } else if (
+      pending &&
+      parenDepth === 0 &&
+      text.trim() &&
+      !CONTINUES_SIGNATURE.test(text) &&
+      !SIGNATURE_CONTINUES.test(previousCode)
+    ) {
+      // The declaration ended without a body (a signature, a type alias, a one-line arrow)
+      pending = null;
+    }
+
+    for (const ch of text) {
+      if (ch === "(" || ch === "[") {
+        parenDepth++;
+      } else if (ch === ")" || ch === "]") {
+        parenDepth = Math.max(0, parenDepth - 1);
+      } else if (ch === ";" && parenDepth === 0) {
+        pending = null;
+      } else if (ch === "{") {
+        if (pending && parenDepth === pending.parenDepth) {
+          const parent = innermostSymbol();
+          const parentName = pending.parent ?? parent?.qualifiedName;
+          stack.push({
+            symbol: {
+              name: pending.name,
+              qualifiedName: parentName ? `${parentName}${separator}${pending.name}` : pending.name,
+              kind: pending.kind,
+              startLine: pending.startLine,
+              endLine: lineNumber,
+            },
+          });
+          pending = null;
+        } else {
+          stack.push({ symbol: null });
+        }
+      } else if (ch === "}") {
+        const closed = stack.pop();
+        if (closed?.symbol) {
+          closed.symbol.endLine = lineNumber;
+          symbols.push(closed.symbol);
+        }
+      }
+    }
+
+    if (text.trim()) previousCode = text;
+  });
+
+  // Unbalanced input (a truncated file): close what's left at the end
+  for (const { symbol } of stack) {
+    if (symbol) symbols.push({ ...symbol, endLine: code.length });
+  }
+
+  return symbols.sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Python symbols: a def or class runs until the next code line indented no deeper than it
+ */
+function findPythonSymbols(code: string[]): CodeSymbol[] {
+  const symbols: CodeSymbol[] = [];
+  const stack: Array<{ indent: number; symbol: CodeSymbol }> = [];
+  let lastCodeLine = 0;
+  let parenDepth = 0;
+  let continued = false;
+
+  const closeScopes = (indent: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      const { symbol } = stack.pop()!;
+      symbol.endLine = Math.max(lastCodeLine, symbol.startLine);
+      symbols.push(symbol);
+    }
+  };
+
+  code.forEach((text, index) => {
+    const lineNumber = index + 1;
+    if (!text.trim()) return;
+
+    // Lines inside brackets or after a backslash continue the previous statement
+    if (parenDepth === 0 && !continued) {
+      const indent = text.match(/^\s*/)![0].replace(/\t/g, "    ").length;
+      closeScopes(indent);
+
+      const match = text.match(/^\s*(?:async\s+)?(def|class)\s+(\w+)/);
+      if (match) {
+        const parent = stack[stack.length - 1]?.symbol;
+        stack.push({
+          indent,
+          symbol: {
+            name: match[2],
+            qualifiedName: parent ? `${parent.qualifiedName}.${match[2]}` : match[2],
+            kind: match[1] === "class" ? "class" : parent?.kind === "class" ? "method" : "function",
+            startLine: lineNumber,
+            endLine: lineNumber,
+          },
+        });
+      }
+    }
+
+    for (const ch of text) {
+      if ("([{".includes(ch)) parenDepth++;
+      else if (")]}".includes(ch)) parenDepth = Math.max(0, parenDepth - 1);
+    }
+    continued = text.trimEnd().endsWith("\\");
+    lastCodeLine = lineNumber;
+  });
+
+  closeScopes(0);
+  return symbols.sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Classes, functions and methods declared in a file, in order of their first line.
+ * Returns an empty list for languages the analyzer doesn't know.
+ */
+export function findSymbols(content: string, language: string | undefined): CodeSymbol[] {
+  const family = getScopeFamily(language);
+  if (!family) return [];
+
+  const code = stripCode(content.split("\n"), family);
+  return family === "python" ? findPythonSymbols(code) : findBraceSymbols(code, family);
+}
+
+/**
+ * Innermost symbol containing a line
+ */
+export function findEnclosingSymbol(symbols: CodeSymbol[], line: number): CodeSymbol | null {
+  let enclosing: CodeSymbol | null = null;
+  for (const symbol of symbols) {
+    if (symbol.startLine > line) break;
+    // Sorted by start, so the last one containing the line is the innermost
+    if (symbol.endLine >= line) enclosing = symbol;
+  }
+  return enclosing;
+}
+
+/**
+ * Head-side lines a diff touches. Deleted lines have no head line of their own; they're
+ * placed on the line that now follows them (or precedes them at the end of a hunk).
+ */
+export function getChangedHeadLines(parsedDiff: ParsedDiff): number[] {
+  const lines = new Set<number>();
+
+  for (const hunk of parsedDiff.hunks) {
+    let deletedRun = false;
+    let previousNewLine: number | undefined;
+
+    for (const line of hunk.lines) {
+      if (line.type === "delete") {
+        deletedRun = true;
+        continue;
+      }
+      if (line.newLineNumber === undefined) continue;
+
+      if (line.type === "add" || deletedRun) lines.add(line.newLineNumber);
+      deletedRun = false;
+      previousNewLine = line.newLineNumber;
+    }
+
+    if (deletedRun && previousNewLine !== undefined) lines.add(previousNewLine);
+  }
+
+  return [...lines].sort((a, b) => a - b);
+}
+
+/**
+ * Group a file's changed head lines by the innermost symbol around them.
+ * Lines outside every symbol (imports, top-level statements) are left out.
+ */
+export function resolveEnclosingSymbols(
+  content: string,
+  language: string | undefined,
+  changedLines: number[]
+): EnclosingSymbol[] {
+  const symbols = findSymbols(content, language);
+  if (symbols.length === 0) return [];
+
+  const bySymbol = new Map<CodeSymbol, number[]>();
+  for (const line of changedLines) {
+    const symbol = findEnclosingSymbol(symbols, line);
+    if (symbol) bySymbol.set(symbol, [...(bySymbol.get(symbol) ?? []), line]);
+  }
+
+  return [...bySymbol].map(([symbol, lines]) => ({
+    name: symbol.qualifiedName,
+    kind: symbol.kind,
+    startLine: symbol.startLine,
+    endLine: symbol.endLine,
+    changedLines: lines,
+  }));
+}
@@ -0,0 +1,210 @@
+/**
+ * Webhook Delivery Log
+ * Persists every GitHub delivery, skips redeliveries, and replays stored payloads
+ */
+
+import crypto from "crypto";
+import { eq, and, desc, inArray, sql, type SQL } from "drizzle-orm";
+import { db, webhookDeliveries } from "@/db/schema";
+import type { WebhookDelivery, WebhookDeliveryStatus } from "@/db/types";
+import { dispatchWebhookEvent, isHandledWebhookEvent } from "@/lib/webhook-handlers";
+
+// A delivery stuck in "received" longer than this is assumed to have crashed mid-handler
+const STALE_DELIVERY_MS = 10 * 60 * 1000;
+
+// Fields we index on; the full payload is stored as-is
+export interface DeliveryPayload {
+  action?: string;
+  installation?: { id: number };
+  repository?: { full_name: string };
+}
+
+export interface RecordDeliveryResult {
+  delivery: WebhookDelivery;
+  duplicate: boolean;
+}
+
+// What the dashboard sees: everything except the raw payload
+export type DeliverySummary = Omit<WebhookDelivery, "payload">;
+
+export interface DeliveryFilters {
+  installationIds: number[];
+  status?: WebhookDeliveryStatus;
+  event?: string;
+  limit?: number;
+}
+
+/**
+ * SHA-256 of the raw request body, used to spot redeliveries with altered payloads
+ */
+export function hashPayload(body: string): string {
+  return crypto.createHash("sha256").update(body).digest("hex");
+}
+
+/**
+ * Store an incoming delivery, or detect that it was already seen.
+ * A redelivery of a failed or crashed delivery is not a duplicate: it gets processed again.
+ */
+export async function recordDelivery(
+  deliveryId: string,
+  event: string,
+  payload: DeliveryPayload,
+  body: string
+): Promise<RecordDeliveryResult> {
+  const payloadHash = hashPayload(body);
+
+  const [created] = await db
+    .insert(webhookDeliveries)
+    .values({
+      deliveryId,
+      event,
+      action: payload.action ?? null,
+      installationId: payload.installation?.id ?? null,
+      repositoryFullName: payload.repository?.full_name ?? null,
+      payload,
+      payloadHash,
+    })
+    .onConflictDoNothing({ target: webhookDeliveries.deliveryId })
+    .returning();
+
+  if (created) {
+    return { delivery: created, duplicate: false };
+  }
+
+  const [existing] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.deliveryId, deliveryId))
+    .limit(1);
+
+  if (existing.payloadHash !== payloadHash) {
+    console.warn(`⚠️ Delivery ${deliveryId} redelivered with a different payload hash`);
+  }
+
+  const isStale =
+    existing.status === "received" &&
+    Date.now() - existing.receivedAt.getTime() > STALE_DELIVERY_MS;
+
+  if (existing.status === "failed" || isStale) {
+    return { delivery: existing, duplicate: false };
+  }
+
+  await db
+    .update(webhookDeliveries)
+    .set({ duplicateCount: sql`${webhookDeliveries.duplicateCount} + 1` })
+    .where(eq(webhookDeliveries.id, existing.id));
+
+  return { delivery: existing, duplicate: true };
+}
+
+/**
+ * Run the event handler for a stored delivery and record the outcome
+ */
+export async function processDelivery(
+  delivery: WebhookDelivery,
+  options: { replay?: boolean } = {}
+): Promise<Response> {
+  const startedAt = Date.now();
+
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: "received",
+      processingAttempts: sql`${webhookDeliveries.processingAttempts} + 1`,
+      ...(options.replay ? { lastReplayedAt: new Date() } : {}),
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+
+  let response: Response;
+  let status: WebhookDeliveryStatus;
+  let errorMessage: string | null = null;
+
+  try {
+    response = await dispatchWebhookEvent(delivery.event, delivery.payload);
+
+    if (!isHandledWebhookEvent(delivery.event)) {
+      status = "ignored";
+    } else if (response.ok) {
+      status = "processed";
+    } else {
+      status = "failed";
+      errorMessage = await response.clone().text();
+    }
+  } catch (error) {
+    console.error("❌ Webhook handler error:", error);
+    response = new Response("Internal Server Error", { status: 500 });
+    status = "failed";
+    errorMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status,
+      responseStatus: response.status,
+      errorMessage,
+      processedAt: new Date(),
+      durationMs: Date.now() - startedAt,
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+
+  return response;
+}
+
+/**
+ * Strip the stored payload before returning a delivery to the client
+ */
+export function toDeliverySummary(delivery: WebhookDelivery): DeliverySummary {
+  const { payload, ...summary } = delivery;
+  void payload;
+  return summary;
+}
+
+/**
+ * Get a delivery by our record ID
+ */
+export async function getDeliveryById(id: string): Promise<WebhookDelivery | null> {
+  const [delivery] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.id, id))
+    .limit(1);
+  return delivery || null;
+}
+
+/**
+ * Re-run a stored delivery through its handler, bypassing duplicate detection
+ */
+export async function replayDelivery(id: string): Promise<WebhookDelivery | null> {
+  const delivery = await getDeliveryById(id);
+  if (!delivery) return null;
+
+  console.log(`🔁 Replaying delivery ${delivery.deliveryId} (${delivery.event}.${delivery.action || "n/a"})`);
+  await processDelivery(delivery, { replay: true });
+
+  return await getDeliveryById(id);
+}
+
+/**
+ * List recent deliveries for a set of GitHub installation IDs
+ */
+export async function listDeliveries(filters: DeliveryFilters): Promise<WebhookDelivery[]> {
+  if (filters.installationIds.length === 0) return [];
+
+  const conditions: SQL[] = [inArray(webhookDeliveries.installationId, filters.installationIds)];
+
+  if (filters.status) {
+    conditions.push(eq(webhookDeliveries.status, filters.status));
+  }
+
+  if (filters.event) {
+    conditions.push(eq(webhookDeliveries.event, filters.event));
+  }
+
+  return await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveries.receivedAt))
+    .limit(Math.min(Math.max(filters.limit || 50, 1), 200));
+}
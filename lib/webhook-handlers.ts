@@ -0,0 +1,912 @@
+/**
+ * GitHub Webhook Event Handlers
+ * Shared by the webhook route and delivery replay so both run the same logic
+ */
+
+import { db, githubInstallations, githubRepositories, pullRequests } from "@/db/schema";
+import { eq, and } from "drizzle-orm";
+import { enqueueJob, cancelQueuedJobs } from "@/lib/job-queue";
+import { cancelSupersededReviews, upsertPullRequestRecord, type ReviewPullRequest } from "@/lib/review-pipeline";
+import {
+  BOT_HELP,
+  canRunBotCommands,
+  findFindingByGitHubCommentId,
+  formatBotCommand,
+  isReviewPaused,
+  parseBotCommand,
+  parseCommentLink,
+  recordBotCommand,
+  setReviewsPaused,
+} from "@/lib/bot-commands";
+import { getRepositorySettings } from "@/db/queries";
+import { setFindingThreadResolution } from "@/lib/finding-lifecycle";
+import { MAX_FOLLOW_UPS_PER_THREAD, countFollowUps, recordFollowUpMessage } from "@/lib/review-conversations";
+import { getAutoReviewSkipReason, toReviewSettings } from "@/lib/repository-settings";
+
+// The parts of GitHub's webhook payloads the handlers below read
+interface WebhookRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  private: boolean;
+  clone_url: string;
+}
+
+interface PullRequestEventPayload {
+  action: string;
+  pull_request: ReviewPullRequest & { merged?: boolean | null };
+  installation: { id: number };
+  repository: WebhookRepository;
+}
+
+interface IssueCommentEventPayload {
+  action: string;
+  issue: { number: number; pull_request?: { url: string } };
+  comment: { id: number; body: string | null; user: { login: string; type: string } };
+  installation: { id: number };
+  repository: WebhookRepository;
+}
+
+interface ReviewCommentEventPayload {
+  action: string;
+  comment: {
+    id: number;
+    in_reply_to_id?: number;
+    html_url: string;
+    body: string;
+    user: { login: string; type: string };
+  };
+  pull_request: { number: number; user: { login: string } };
+  installation: { id: number };
+  repository: WebhookRepository;
+}
+
+interface ReviewThreadEventPayload {
+  action: string;
+  thread: { comments: Array<{ id: number; in_reply_to_id?: number }> };
+  sender: { login: string };
+  installation: { id: number };
+  repository: WebhookRepository;
+}
+
+// Events with a dedicated handler; everything else is acknowledged and ignored
+const HANDLED_EVENTS = new Set([
+  "installation",
+  "installation_repositories",
+  "pull_request",
+  "issue_comment",
+  "pull_request_review_comment",
+  "pull_request_review_thread",
+]);
+
+/**
+ * Check whether an event type is processed by `dispatchWebhookEvent`
+ */
+export function isHandledWebhookEvent(event: string): boolean {
+  return HANDLED_EVENTS.has(event);
+}
+
+/**
+ * Route a verified webhook payload to its event handler
+ */
+export async function dispatchWebhookEvent(event: string, payload: unknown): Promise<Response> {
+  // Handle installation events
+  if (event === "installation") {
+    return await handleInstallationEvent(payload);
+  }
+
+  // Handle installation_repositories events (when user adds/removes repos)
+  if (event === "installation_repositories") {
+    return await handleInstallationRepositoriesEvent(payload);
+  }
+
+  // Handle pull request events
+  if (event === "pull_request") {
+    return await handlePullRequestEvent(payload as PullRequestEventPayload);
+  }
+
+  // Handle "@graphbug" commands in PR conversation comments
+  if (event === "issue_comment") {
+    return await handleIssueCommentEvent(payload as IssueCommentEventPayload);
+  }
+
+  // Handle replies in the threads of our inline review comments
+  if (event === "pull_request_review_comment") {
+    return await handleReviewCommentReplyEvent(payload as ReviewCommentEventPayload);
+  }
+
+  // Handle review threads being resolved or unresolved on GitHub
+  if (event === "pull_request_review_thread") {
+    return await handleReviewThreadEvent(payload as ReviewThreadEventPayload);
+  }
+
+  console.log(`ℹ️ Unhandled event: ${event}`);
+  return new Response("OK", { status: 200 });
+}
+
+// Handle installation created/deleted
+async function handleInstallationEvent(payload: any) {
+  const { action, installation } = payload;
+  const installationId = installation.id;
+
+  if (action === "created") {
+    console.log(`\n✅ [WEBHOOK] App installed`);
+    console.log(`   Account: ${installation.account.login} (${installation.account.type})`);
+    console.log(`   Installation ID: ${installationId}`);
+    console.log(`   Repository Selection: ${installation.repository_selection}`);
+    console.log(`   Repositories in payload: ${payload.repositories?.length || 0}`);
+
+    const installationData = {
+      accountLogin: installation.account.login,
+      accountType: installation.account.type,
+      targetType: installation.target_type,
+      permissions: JSON.stringify(installation.permissions),
+      repositorySelection: installation.repository_selection,
+      suspended: false,
+      installedAt: new Date(installation.created_at),
+      updatedAt: new Date(installation.updated_at),
+    };
+
+    // Check if installation already exists (from setup callback)
+    const existing = await db
+      .select()
+      .from(githubInstallations)
+      .where(eq(githubInstallations.installationId, installationId));
+
+    let createdInstallation;
+
+    if (existing.length > 0) {
+      // Update existing record, preserve userId if it exists
+      [createdInstallation] = await db
+        .update(githubInstallations)
+        .set({
+          ...installationData,
+          userId: existing[0].userId, // Preserve userId from setup callback
+          updatedAt: new Date(),
+        })
+        .where(eq(githubInstallations.installationId, installationId))
+        .returning();
+      
+      console.log(`   ℹ️ Installation already existed (setup callback ran first)`);
+      console.log(`      Updated with webhook data, userId preserved: ${existing[0].userId || '(none yet)'}`);
+    } else {
+      // Create new record (userId will be set by setup callback later or remain null)
+      [createdInstallation] = await db
+        .insert(githubInstallations)
+        .values({
+          userId: null as any,
+          installationId: installationId,
+          ...installationData,
+        })
+        .returning();
+      
+      console.log(`   ✅ Created new installation record (userId will be set by setup callback)`);
+      console.log(`      Record ID: ${createdInstallation.id}`);
+    }
+
+    // Add repositories to database (without triggering ingestion)
+    if (installation.repository_selection === "selected" && payload.repositories) {
+      // Specific repos were selected
+      console.log(`   📚 Adding ${payload.repositories.length} selected repositories...`);
+      await addRepositories(createdInstallation.id, payload.repositories);
+    } else if (installation.repository_selection === "all") {
+      // All repositories - need to fetch them from GitHub API
+      console.log(`   📚 Fetching all repositories from GitHub API...`);
+      await fetchAndAddAllRepositories(installationId, createdInstallation.id);
+    } else {
+      console.log(`   ⚠️ Unknown repository selection: ${installation.repository_selection}`);
+    }
+
+  } else if (action === "deleted") {
+    console.log(`🗑️  App uninstalled, installation ID: ${installationId}`);
+    
+    const AI_SERVICE_URL = process.env.AI_SERVICE_URL || 'http://localhost:8000';
+    
+    // Find the installation to get all its repositories
+    const [installationRecord] = await db
+      .select()
+      .from(githubInstallations)
+      .where(eq(githubInstallations.installationId, installationId));
+
+    if (installationRecord) {
+      // Get all repositories for this installation
+      const repos = await db
+        .select()
+        .from(githubRepositories)
+        .where(eq(githubRepositories.installationId, installationRecord.id));
+
+      // Delete AI service data for each repository
+      for (const repo of repos) {
+        try {
+          const deleteResponse = await fetch(`${AI_SERVICE_URL}/repos/${repo.id}`, {
+            method: 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+          });
+
+          if (deleteResponse.ok) {
+            console.log(`🧹 AI service data deleted for ${repo.fullName}`);
+          } else {
+            console.error(`⚠️ Failed to delete AI service data for ${repo.fullName}`);
+          }
+        } catch (aiError) {
+          console.error(`⚠️ AI service delete error for ${repo.fullName}:`, aiError);
+        }
+      }
+    }
+    
+    // Delete installation (cascade will handle repos in database)
+    await db
+      .delete(githubInstallations)
+      .where(eq(githubInstallations.installationId, installationId));
+
+    console.log(`✅ Installation ${installationId} removed from database`);
+  }
+
+  return new Response("OK", { status: 200 });
+}
+
+// Handle repository additions/removals
+async function handleInstallationRepositoriesEvent(payload: any) {
+  const { action, installation, repositories_added, repositories_removed } = payload;
+  const installationId = installation.id;
+
+  // Find our installation record
+  const [installationRecord] = await db
+    .select()
+    .from(githubInstallations)
+    .where(eq(githubInstallations.installationId, installationId));
+
+  if (!installationRecord) {
+    console.error(`❌ Installation ${installationId} not found in database`);
+    return new Response("Installation not found", { status: 404 });
+  }
+
+  if (action === "added" && repositories_added?.length > 0) {
+    console.log(`➕ Adding ${repositories_added.length} repositories to installation ${installationId}`);
+    await addRepositories(installationRecord.id, repositories_added);
+  }
+
+  if (action === "removed" && repositories_removed?.length > 0) {
+    console.log(`➖ Removing ${repositories_removed.length} repositories from installation ${installationId}`);
+    await removeRepositories(installationRecord.id, repositories_removed);
+  }
+
+  return new Response("OK", { status: 200 });
+}
+
+// Handle pull request events
+async function handlePullRequestEvent(payload: PullRequestEventPayload) {
+  const { action, pull_request, installation, repository } = payload;
+
+  // GitHub sends no webhook for reactions; collect 👍/👎 on our comments whenever the PR moves on
+  if (action === "synchronize" || action === "closed") {
+    await enqueueFeedbackSync(installation.id, repository, pull_request.number);
+  }
+
+  // Trigger review on PR open or update (new commits pushed), or a draft marked ready
+  if (action === "opened" || action === "synchronize" || action === "ready_for_review") {
+    console.log(`🔍 PR ${action}: ${pull_request.html_url}`);
+    console.log(`   Repository: ${repository.full_name} (ID: ${repository.id})`);
+    console.log(`   Installation ID: ${installation.id}`);
+    
+    // Find the installation record
+    const [installationRecord] = await db
+      .select()
+      .from(githubInstallations)
+      .where(eq(githubInstallations.installationId, installation.id));
+
+    if (!installationRecord) {
+      console.error(`❌ Installation ${installation.id} not found in database`);
+      return new Response("Installation not found", { status: 404 });
+    }
+    
+    console.log(`✅ Installation found in DB (ID: ${installationRecord.id}, User: ${installationRecord.userId || 'null'})`);
+
+    // Check if this repository is in our database and has been ingested
+    const [repoRecord] = await db
+      .select()
+      .from(githubRepositories)
+      .where(
+        and(
+          eq(githubRepositories.installationId, installationRecord.id),
+          eq(githubRepositories.repoId, repository.id)
+        )
+      );
+
+    if (!repoRecord) {
+      console.log(`ℹ️ Repository ${repository.full_name} not found in database`);
+      console.log(`   Looking for: installationId=${installationRecord.id}, repoId=${repository.id}`);
+      console.log(`   Creating repository record and triggering review...`);
+      
+      // Create repository record if it doesn't exist
+      const [newRepoRecord] = await db
+        .insert(githubRepositories)
+        .values({
+          installationId: installationRecord.id,
+          repoId: repository.id,
+          name: repository.name,
+          fullName: repository.full_name,
+          private: repository.private,
+          addedAt: new Date(),
+          ingestionStatus: "pending",
+        })
+        .returning();
+      
+      console.log(`✅ Repository record created (ID: ${newRepoRecord.id})`);
+      if (!(await shouldAutoReview(newRepoRecord.id, pull_request, action))) {
+        return new Response("OK", { status: 200 });
+      }
+      console.log(`🤖 Queuing AI review for PR #${pull_request.number} in ${repository.full_name}`);
+      await enqueueAICodeReview(newRepoRecord.id, pull_request, installation.id, installationRecord.userId);
+      return new Response("OK", { status: 200 });
+    }
+    
+    console.log(`✅ Repository found in DB (Status: ${repoRecord.ingestionStatus})`);
+
+    // New commits make any review of an older head obsolete
+    if (action === "synchronize") {
+      await cancelSupersededWork(repoRecord.id, pull_request);
+    }
+
+    if (!(await shouldAutoReview(repoRecord.id, pull_request, action))) {
+      return new Response("OK", { status: 200 });
+    }
+
+    // Trigger AI code review regardless of ingestion status
+    console.log(`🤖 Queuing AI review for PR #${pull_request.number} in ${repository.full_name}`);
+    // Pushes to a reviewed PR only need the new commits reviewed
+    await enqueueAICodeReview(
+      repoRecord.id,
+      pull_request,
+      installation.id,
+      installationRecord.userId,
+      action === "synchronize" ? "incremental" : "full"
+    );
+  }
+
+  // Trigger auto-ingestion on PR merge (Phase 8)
+  if (action === "closed" && pull_request.merged === true) {
+    console.log(`✅ PR merged: ${pull_request.html_url}`);
+    
+    // Find the installation record
+    const [installationRecord] = await db
+      .select()
+      .from(githubInstallations)
+      .where(eq(githubInstallations.installationId, installation.id));
+
+    if (!installationRecord) {
+      console.error(`❌ Installation ${installation.id} not found`);
+      return new Response("Installation not found", { status: 404 });
+    }
+
+    // Check if this repository is in our database
+    const [repoRecord] = await db
+      .select()
+      .from(githubRepositories)
+      .where(
+        and(
+          eq(githubRepositories.installationId, installationRecord.id),
+          eq(githubRepositories.repoId, repository.id)
+        )
+      );
+
+    if (!repoRecord) {
+      console.log(`ℹ️ Repository ${repository.full_name} not found in database, skipping auto-ingestion`);
+      return new Response("OK", { status: 200 });
+    }
+
+    // Trigger auto-ingestion to update permanent database
+    console.log(`📦 Queuing auto-ingestion for ${repository.full_name} after PR #${pull_request.number} merge`);
+    await enqueueJob({
+      type: "auto_ingestion",
+      payload: {
+        repoDbId: repoRecord.id,
+        repository: { full_name: repository.full_name, clone_url: repository.clone_url },
+        installationId: installation.id,
+      },
+      installationId: installation.id,
+      dedupeKey: `auto_ingestion:${repoRecord.id}`,
+    });
+  }
+
+  return new Response("OK", { status: 200 });
+}
+
+// Handle "@graphbug <command>" comments on pull requests
+async function handleIssueCommentEvent(payload: IssueCommentEventPayload) {
+  const { action, issue, comment, installation, repository } = payload;
+
+  // Only new comments on PRs; our own replies come from a bot account
+  if (action !== "created" || !issue.pull_request || comment.user.type === "Bot") {
+    return new Response("OK", { status: 200 });
+  }
+
+  const command = parseBotCommand(comment.body || "");
+  if (!command) {
+    return new Response("OK", { status: 200 });
+  }
+
+  const requestedBy: string = comment.user.login;
+  const commandText = formatBotCommand(command);
+  console.log(`💬 Bot command "${commandText}" from ${requestedBy} on ${repository.full_name}#${issue.number}`);
+
+  const { installationRecord, repoRecord } = await findRepositoryRecords(installation.id, repository.id);
+
+  if (!installationRecord) {
+    console.error(`❌ Installation ${installation.id} not found in database`);
+    return new Response("Installation not found", { status: 404 });
+  }
+
+  if (!repoRecord) {
+    console.log(`ℹ️ Repository ${repository.full_name} not found in database, ignoring command`);
+    return new Response("OK", { status: 200 });
+  }
+
+  const { GitHubAPIClient, parseRepoFullName } = await import("@/lib/github-pr");
+  const { owner, repo } = parseRepoFullName(repository.full_name);
+  const client = new GitHubAPIClient(installation.id);
+  const reply = (body: string) => client.postPRComment(owner, repo, issue.number, body);
+
+  const permission = await client.getCollaboratorPermission(owner, repo, requestedBy);
+  if (!canRunBotCommands(permission)) {
+    console.log(`🔒 ${requestedBy} has ${permission} access, command refused`);
+    await reply(`@${requestedBy} only collaborators with write access can run GraphBug commands.`);
+    return new Response("OK", { status: 200 });
+  }
+
+  if (command.name === "help") {
+    await reply(command.unknown ? `Unknown command \`${command.unknown}\`.\n\n${BOT_HELP}` : BOT_HELP);
+    return new Response("OK", { status: 200 });
+  }
+
+  // Acknowledge the command; the outcome is a review or a reply
+  try {
+    await client.addCommentReaction(owner, repo, comment.id, "eyes");
+  } catch (error) {
+    console.warn(`⚠️ Failed to react to comment ${comment.id}:`, error);
+  }
+
+  const pullRequest = await client.getPullRequest(owner, repo, issue.number);
+  const prRecord = await upsertPullRequestRecord(repoRecord.id, pullRequest);
+
+  switch (command.name) {
+    case "review": {
+      // The review itself is the codeReviews row for this command
+      await enqueueJob({
+        type: "ai_review",
+        payload: {
+          repoDbId: repoRecord.id,
+          pullRequest,
+          installationId: installation.id,
+          userId: installationRecord.userId,
+          mode: "full",
+          trigger: { command: commandText, requestedBy },
+          scope: command.path,
+        },
+        installationId: installation.id,
+        // Per comment, so it isn't swallowed by an automatic review of the same head
+        dedupeKey: `${aiReviewKeyPrefix(repoRecord.id, pullRequest.number)}${pullRequest.head.sha}:comment-${comment.id}`,
+        priority: 1,
+      });
+      break;
+    }
+
+    case "pause":
+    case "resume": {
+      const paused = command.name === "pause";
+      await setReviewsPaused(prRecord.id, paused);
+      await recordBotCommand(prRecord.id, commandText, requestedBy, "completed");
+      await reply(
+        paused
+          ? "⏸️ Automatic reviews are paused for this pull request. Comment `@graphbug resume` to turn them back on."
+          : "▶️ Automatic reviews are back on for this pull request. Comment `@graphbug review` to review it now."
+      );
+      break;
+    }
+
+    case "explain": {
+      const githubCommentId = command.link ? parseCommentLink(command.link) : null;
+      const finding = githubCommentId
+        ? await findFindingByGitHubCommentId(repoRecord.id, githubCommentId)
+        : null;
+
+      if (!finding) {
+        await recordBotCommand(prRecord.id, commandText, requestedBy, "failed", "Finding not found");
+        await reply(`@${requestedBy} I couldn't find a GraphBug review comment at that link. Usage: \`@graphbug explain <comment link>\``);
+        break;
+      }
+
+      const commandReview = await recordBotCommand(prRecord.id, commandText, requestedBy, "in_progress");
+      await enqueueJob({
+        type: "explain_finding",
+        payload: {
+          commandReviewId: commandReview.id,
+          findingId: finding.id,
+          repoDbId: repoRecord.id,
+          repoFullName: repository.full_name,
+          prNumber: issue.number,
+          installationId: installation.id,
+          userId: installationRecord.userId,
+          requestedBy,
+        },
+        installationId: installation.id,
+        dedupeKey: `explain_finding:${comment.id}`,
+      });
+      break;
+    }
+  }
+
+  return new Response("OK", { status: 200 });
+}
+
+// Handle a developer replying to one of our inline review comments
+async function handleReviewCommentReplyEvent(payload: ReviewCommentEventPayload) {
+  const { action, comment, pull_request, installation, repository } = payload;
+
+  // Only new replies from people; our own answers come from a bot account
+  if (action !== "created" || !comment.in_reply_to_id || comment.user.type === "Bot") {
+    return new Response("OK", { status: 200 });
+  }
+
+  const { installationRecord, repoRecord } = await findRepositoryRecords(installation.id, repository.id);
+  if (!installationRecord || !repoRecord) {
+    console.log(`ℹ️ Repository ${repository.full_name} not found in database, ignoring reply`);
+    return new Response("OK", { status: 200 });
+  }
+
+  // Only threads we started
+  const finding = await findFindingByGitHubCommentId(repoRecord.id, comment.in_reply_to_id);
+  if (!finding) {
+    return new Response("OK", { status: 200 });
+  }
+
+  const author: string = comment.user.login;
+  console.log(`💬 Reply from ${author} on finding ${finding.id} (${repository.full_name}#${pull_request.number})`);
+
+  // Answers spend the installation owner's API key: PR author or collaborators with write access only
+  if (author !== pull_request.user.login) {
+    const { GitHubAPIClient, parseRepoFullName } = await import("@/lib/github-pr");
+    const { owner, repo } = parseRepoFullName(repository.full_name);
+    const permission = await new GitHubAPIClient(installation.id).getCollaboratorPermission(owner, repo, author);
+    if (!canRunBotCommands(permission)) {
+      console.log(`🔒 ${author} has ${permission} access, not answering`);
+      return new Response("OK", { status: 200 });
+    }
+  }
+
+  if ((await countFollowUps(finding.id)) >= MAX_FOLLOW_UPS_PER_THREAD) {
+    console.log(`ℹ️ Thread of finding ${finding.id} reached ${MAX_FOLLOW_UPS_PER_THREAD} follow-ups, not answering`);
+    return new Response("OK", { status: 200 });
+  }
+
+  const message = await recordFollowUpMessage(finding.id, comment);
+  if (!message) {
+    return new Response("OK", { status: 200 });
+  }
+
+  await enqueueJob({
+    type: "finding_followup",
+    payload: {
+      messageId: message.id,
+      repoDbId: repoRecord.id,
+      repoFullName: repository.full_name,
+      prNumber: pull_request.number,
+      installationId: installation.id,
+      userId: installationRecord.userId,
+    },
+    installationId: installation.id,
+    dedupeKey: `finding_followup:${message.id}`,
+  });
+
+  return new Response("OK", { status: 200 });
+}
+
+// Handle a review thread being resolved or unresolved
+async function handleReviewThreadEvent(payload: ReviewThreadEventPayload) {
+  const { action, thread, sender, installation, repository } = payload;
+
+  if (action !== "resolved" && action !== "unresolved") {
+    return new Response("OK", { status: 200 });
+  }
+
+  const { repoRecord } = await findRepositoryRecords(installation.id, repository.id);
+  if (!repoRecord) {
+    console.log(`ℹ️ Repository ${repository.full_name} not found in database, ignoring thread ${action}`);
+    return new Response("OK", { status: 200 });
+  }
+
+  // Our finding is the comment that started the thread
+  const comments = thread?.comments ?? [];
+  const root = comments.find((c) => !c.in_reply_to_id) ?? comments[0];
+  const finding = root ? await findFindingByGitHubCommentId(repoRecord.id, root.id) : null;
+  if (!finding) {
+    return new Response("OK", { status: 200 });
+  }
+
+  // Threads we resolve ourselves are already recorded, with the fixing commit
+  if (action === "resolved" && finding.isResolved) {
+    return new Response("OK", { status: 200 });
+  }
+
+  // Copies of the finding in later review versions share the thread
+  if (action === "resolved") {
+    await setFindingThreadResolution(repoRecord.id, root.id, { resolvedBy: sender.login });
+    console.log(`✅ Finding ${finding.id} resolved by ${sender.login}`);
+  } else {
+    await setFindingThreadResolution(repoRecord.id, root.id, null);
+    console.log(`↩️ Finding ${finding.id} unresolved by ${sender.login}`);
+  }
+
+  return new Response("OK", { status: 200 });
+}
+
+// Queue a sync of the reactions on a PR's posted review comments
+async function enqueueFeedbackSync(
+  githubInstallationId: number,
+  repository: { id: number; full_name: string },
+  prNumber: number
+) {
+  const { repoRecord } = await findRepositoryRecords(githubInstallationId, repository.id);
+  if (!repoRecord) return;
+
+  await enqueueJob({
+    type: "sync_feedback_reactions",
+    payload: {
+      repoDbId: repoRecord.id,
+      repoFullName: repository.full_name,
+      prNumber,
+      installationId: githubInstallationId,
+    },
+    installationId: githubInstallationId,
+    dedupeKey: `sync_feedback_reactions:${repoRecord.id}:${prNumber}`,
+    priority: -1,
+  });
+}
+
+// Look up our installation and repository records for a webhook payload
+async function findRepositoryRecords(githubInstallationId: number, githubRepoId: number) {
+  const [installationRecord] = await db
+    .select()
+    .from(githubInstallations)
+    .where(eq(githubInstallations.installationId, githubInstallationId));
+
+  if (!installationRecord) {
+    return { installationRecord: null, repoRecord: null };
+  }
+
+  const [repoRecord] = await db
+    .select()
+    .from(githubRepositories)
+    .where(
+      and(
+        eq(githubRepositories.installationId, installationRecord.id),
+        eq(githubRepositories.repoId, githubRepoId)
+      )
+    );
+
+  return { installationRecord, repoRecord: repoRecord ?? null };
+}
+
+// Dedupe key prefix shared by all AI review jobs of one PR; the head SHA is appended
+function aiReviewKeyPrefix(repoDbId: string, prNumber: number) {
+  return `ai_review:${repoDbId}:${prNumber}:`;
+}
+
+// Queue an AI review; one job per head SHA so redelivered events don't review twice
+async function enqueueAICodeReview(
+  repoDbId: string,
+  pullRequest: ReviewPullRequest,
+  installationId: number,
+  userId: string | null,
+  mode: "full" | "incremental" = "full"
+) {
+  await enqueueJob({
+    type: "ai_review",
+    payload: { repoDbId, pullRequest, installationId, userId, mode },
+    installationId,
+    dedupeKey: aiReviewKeyPrefix(repoDbId, pullRequest.number) + pullRequest.head.sha,
+  });
+}
+
+// Apply the repository's review settings before queuing an automatic review
+async function shouldAutoReview(
+  repoDbId: string,
+  pullRequest: Parameters<typeof getAutoReviewSkipReason>[1] & { number: number },
+  action: string
+) {
+  const settings = toReviewSettings(await getRepositorySettings(repoDbId));
+
+  // A draft that was reviewed while in draft doesn't need a second review when marked ready
+  if (action === "ready_for_review" && settings.reviewDrafts) {
+    console.log(`ℹ️ PR #${pullRequest.number} marked ready, drafts are already reviewed`);
+    return false;
+  }
+
+  const skipReason = getAutoReviewSkipReason(settings, pullRequest);
+  if (skipReason) {
+    console.log(`⏭️ Not reviewing PR #${pullRequest.number}: ${skipReason}`);
+    return false;
+  }
+
+  if (await isReviewPaused(repoDbId, pullRequest.number)) {
+    console.log(`⏸️ Not reviewing PR #${pullRequest.number}: reviews paused with a bot command`);
+    return false;
+  }
+  return true;
+}
+
+// Cancel queued review jobs and in-flight reviews for older heads of this PR.
+// Every job for the current head is kept, including reviews requested with a bot command.
+async function cancelSupersededWork(repoDbId: string, pullRequest: Pick<ReviewPullRequest, "number" | "head">) {
+  const keyPrefix = aiReviewKeyPrefix(repoDbId, pullRequest.number);
+  await cancelQueuedJobs(keyPrefix, keyPrefix + pullRequest.head.sha);
+
+  const [prRecord] = await db
+    .select({ id: pullRequests.id })
+    .from(pullRequests)
+    .where(
+      and(
+        eq(pullRequests.repositoryId, repoDbId),
+        eq(pullRequests.prNumber, pullRequest.number)
+      )
+    )
+    .limit(1);
+
+  if (!prRecord) return;
+
+  const cancelledIds = await cancelSupersededReviews(prRecord.id, pullRequest.head.sha);
+
+  // Close their check runs as cancelled
+  for (const reviewId of cancelledIds) {
+    await enqueueJob({
+      type: "publish_check",
+      payload: { reviewId },
+      dedupeKey: `publish_check:${reviewId}`,
+    });
+  }
+}
+
+// Helper: Add repositories and trigger ingestion
+async function addRepositories(installationDbId: string, repos: any[]) {
+  console.log(`\n📦 [addRepositories] Processing ${repos.length} repositories`);
+  
+  let added = 0;
+  for (const repo of repos) {
+    try {
+      // Check if repo already exists (avoid duplicates)
+      const existing = await db
+        .select()
+        .from(githubRepositories)
+        .where(
+          and(
+            eq(githubRepositories.installationId, installationDbId),
+            eq(githubRepositories.repoId, repo.id)
+          )
+        );
+
+      if (existing.length > 0) {
+        console.log(`   ℹ️ ${repo.full_name} - already exists, skipping`);
+        continue;
+      }
+
+      // Insert new repository
+      const [repoRecord] = await db
+        .insert(githubRepositories)
+        .values({
+          installationId: installationDbId,
+          repoId: repo.id,
+          name: repo.name,
+          fullName: repo.full_name,
+          private: repo.private,
+          addedAt: new Date(),
+          ingestionStatus: "pending",
+        })
+        .returning();
+
+      console.log(`   ✅ ${repo.full_name} - added to database`);
+      added++;
+
+    } catch (error) {
+      console.error(`   ❌ ${repo.full_name} - failed to add:`, error);
+    }
+  }
+  
+  console.log(`✅ Added ${added}/${repos.length} repositories successfully\n`);
+}
+
+// Helper: Remove repositories
+async function removeRepositories(installationDbId: string, repos: any[]) {
+  const AI_SERVICE_URL = process.env.AI_SERVICE_URL || 'http://localhost:8000';
+  
+  for (const repo of repos) {
+    try {
+      // First, find the repository in our database to get the UUID
+      const [repoRecord] = await db
+        .select()
+        .from(githubRepositories)
+        .where(
+          and(
+            eq(githubRepositories.installationId, installationDbId),
+            eq(githubRepositories.repoId, repo.id)
+          )
+        );
+
+      if (repoRecord) {
+        // Call ai-service to delete vector and graph data
+        try {
+          const deleteResponse = await fetch(`${AI_SERVICE_URL}/repos/${repoRecord.id}`, {
+            method: 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+          });
+
+          if (deleteResponse.ok) {
+            console.log(`🧹 AI service data deleted for ${repo.full_name}`);
+          } else {
+            console.error(`⚠️ Failed to delete AI service data for ${repo.full_name}: ${deleteResponse.status}`);
+          }
+        } catch (aiError) {
+          console.error(`⚠️ AI service delete error for ${repo.full_name}:`, aiError);
+          // Continue with database deletion even if AI service fails
+        }
+      }
+
+      // Delete from our database
+      await db
+        .delete(githubRepositories)
+        .where(
+          and(
+            eq(githubRepositories.installationId, installationDbId),
+            eq(githubRepositories.repoId, repo.id)
+          )
+        );
+
+      console.log(`✅ Repository ${repo.full_name} removed from database`);
+    } catch (error) {
+      console.error(`❌ Failed to remove repository ${repo.full_name}:`, error);
+    }
+  }
+}
+
+// Helper: Fetch all repositories for an installation from GitHub API
+async function fetchAndAddAllRepositories(installationId: number, installationDbId: string) {
+  try {
+    console.log(`🔍 Fetching all repositories for installation ${installationId}...`);
+    
+    // Check environment variables
+    if (!process.env.NEXT_PUBLIC_GITHUB_APP_ID) {
+      throw new Error("NEXT_PUBLIC_GITHUB_APP_ID environment variable is not set");
+    }
+    if (!process.env.GITHUB_PRIVATE_KEY) {
+      throw new Error("GITHUB_PRIVATE_KEY environment variable is not set");
+    }
+    
+    // Use App auth to get installation access token
+    const { App } = await import("octokit");
+    
+    const app = new App({
+      appId: process.env.NEXT_PUBLIC_GITHUB_APP_ID,
+      privateKey: process.env.GITHUB_PRIVATE_KEY,
+    });
+
+    console.log(`🔐 Getting installation octokit for installation ${installationId}...`);
+    const octokit = await app.getInstallationOctokit(installationId);
+
+    console.log(`📡 Fetching repositories from GitHub API...`);
+    // Fetch all repositories for this installation
+    const { data: response } = await octokit.rest.apps.listReposAccessibleToInstallation();
+    
+    console.log(`📦 Found ${response.repositories.length} repositories for installation ${installationId}`);
+    
+    // Add each repository to database
+    if (response.repositories.length > 0) {
+      await addRepositories(installationDbId, response.repositories);
+    } else {
+      console.log(`⚠️ No repositories found for installation ${installationId}`);
+    }
+    
+  } catch (error: any) {
+    console.error(`❌ Failed to fetch repositories for installation ${installationId}:`, error);
+    console.error(`❌ Error details:`, error.message);
+    console.error(`❌ Error stack:`, error.stack);
+  }
+}
\ No newline at end of file
@@ -409,6 +409,15 @@ describe("Analytics API - Repository Insights", () => {
             { title: "Use parameterized queries", count: 15 },
           ],
         },
+        resolution: {
+          postedFindings: 40,
+          resolvedFindings: 30,
+          resolutionRate: 75.0,
+          avgHoursToResolve: 6.5,
+          bySeverity: [
+            { severity: "critical", posted: 4, resolved: 4, resolutionRate: 100.0 },
+          ],
+        },
       };
 
       (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce({
@@ -423,6 +432,7 @@ describe("Analytics API - Repository Insights", () => {
       expect(data.overview.totalReviews).toBe(100);
       expect(data.hotFiles).toHaveLength(1);
       expect(data.issuePatterns.byCategory).toHaveLength(2);
+      expect(data.resolution.resolutionRate).toBe(75.0);
     });
 
     it("should return 404 for non-existent repository", async () => {
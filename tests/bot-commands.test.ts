@@ -0,0 +1,77 @@
+/**
+ * Bot Command Tests
+ * Tests parsing of "@graphbug" commands from PR comments
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import {
+  parseBotCommand,
+  formatBotCommand,
+  parseCommentLink,
+  canRunBotCommands,
+} from "@/lib/bot-commands"
+import { isInReviewScope } from "@/lib/review-pipeline"
+
+describe("Bot Commands", () => {
+  describe("parseBotCommand", () => {
+    test("should parse review commands", () => {
+      expect(parseBotCommand("@graphbug review")).toEqual({ name: "review", path: null })
+      expect(parseBotCommand("@GraphBug review src/api")).toEqual({ name: "review", path: "src/api" })
+    })
+
+    test("should parse pause, resume and explain", () => {
+      expect(parseBotCommand("@graphbug pause")).toEqual({ name: "pause" })
+      expect(parseBotCommand("@graphbug resume")).toEqual({ name: "resume" })
+      expect(parseBotCommand("@graphbug explain https://github.com/o/r/pull/1#discussion_r42")).toEqual({
+        name: "explain",
+        link: "https://github.com/o/r/pull/1#discussion_r42",
+      })
+    })
+
+    test("should find the command on any line of the comment", () => {
+      expect(parseBotCommand("Thanks for the fixes!\n\n@graphbug review\n")).toEqual({ name: "review", path: null })
+    })
+
+    test("should ignore comments that don't address the bot", () => {
+      expect(parseBotCommand("Looks good to me")).toBeNull()
+      expect(parseBotCommand("as @graphbug review said earlier")).toBeNull()
+      expect(parseBotCommand("@graphbugs review")).toBeNull()
+    })
+
+    test("should fall back to help for unknown commands", () => {
+      expect(parseBotCommand("@graphbug")).toEqual({ name: "help", unknown: null })
+      expect(parseBotCommand("@graphbug deploy")).toEqual({ name: "help", unknown: "deploy" })
+    })
+  })
+
+  test("should format commands for the review record", () => {
+    expect(formatBotCommand({ name: "review", path: "src" })).toBe("review src")
+    expect(formatBotCommand({ name: "pause" })).toBe("pause")
+  })
+
+  test("should parse comment links", () => {
+    expect(parseCommentLink("https://github.com/o/r/pull/1#discussion_r123")).toBe(123)
+    expect(parseCommentLink("https://github.com/o/r/pull/1#issuecomment-456")).toBe(456)
+    expect(parseCommentLink("789")).toBe(789)
+    expect(parseCommentLink("https://github.com/o/r/pull/1")).toBeNull()
+  })
+
+  test("should require write access", () => {
+    expect(canRunBotCommands("admin")).toBe(true)
+    expect(canRunBotCommands("write")).toBe(true)
+    expect(canRunBotCommands("read")).toBe(false)
+    expect(canRunBotCommands("none")).toBe(false)
+  })
+
+  test("should scope reviews to a directory, file or glob", () => {
+    expect(isInReviewScope("src/api/users.ts", "src/api")).toBe(true)
+    expect(isInReviewScope("src/api/users.ts", "./src/api/")).toBe(true)
+    expect(isInReviewScope("src/apiv2/users.ts", "src/api")).toBe(false)
+    expect(isInReviewScope("src/api/users.ts", "src/api/users.ts")).toBe(true)
+    expect(isInReviewScope("src/api/users.ts", "**/*.ts")).toBe(true)
+    expect(isInReviewScope("app/reviews/[id]/page.tsx", "app/reviews/[id]/page.tsx")).toBe(true)
+    expect(isInReviewScope("app/reviews/[id]/page.tsx", "app/reviews/[id]")).toBe(true)
+    expect(isInReviewScope("README.md", null)).toBe(true)
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Context Packer Tests
+ * Tests fitting PR patches into a token budget
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import { estimateTokens, getFilePriority, packFiles, renderPatch, type PackableFile } from "@/lib/context-packer"
+import { parseDiff } from "@/lib/diff-parser"
+
+// One hunk with two changes 8 lines apart
+const [longHunk] = parseDiff(`diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,10 +1,10 @@ export function main() {
+ const a = 1
+-const b = 2
++const b = 3
+ const c = 3
+ const d = 4
+ const e = 5
+ const f = 6
+ const g = 7
+ const h = 8
+-const i = 9
++const i = 10
+ const j = 10`)
+
+const file = (filename: string, overrides: Partial<PackableFile> = {}): PackableFile => ({
+  filename,
+  hunks: longHunk.hunks,
+  additions: 2,
+  deletions: 2,
+  complexity: 10,
+  sensitive: false,
+  ...overrides,
+})
+
+describe("Context Packer", () => {
+  test("renderPatch should reproduce the hunk in full", () => {
+    const patch = renderPatch(longHunk.hunks)
+    expect(patch.split("\n")).toHaveLength(13)
+    expect(patch).toContain("@@ -1,10 +1,10 @@ export function main() {")
+  })
+
+  test("renderPatch should split hunks when trimming context", () => {
+    expect(renderPatch(longHunk.hunks, 1)).toBe(
+      [
+        "@@ -1,3 +1,3 @@ export function main() {",
+        " const a = 1",
+        "-const b = 2",
+        "+const b = 3",
+        " const c = 3",
+        "@@ -8,3 +8,3 @@ export function main() {",
+        " const h = 8",
+        "-const i = 9",
+        "+const i = 10",
+        " const j = 10",
+      ].join("\n")
+    )
+  })
+
+  test("getFilePriority should rank sensitive and complex files first", () => {
+    expect(getFilePriority({ complexity: 10, sensitive: true, additions: 1, deletions: 0 })).toBeGreaterThan(
+      getFilePriority({ complexity: 40, sensitive: false, additions: 1, deletions: 0 })
+    )
+  })
+
+  test("packFiles should keep every patch when they fit", () => {
+    const result = packFiles([file("a.ts"), file("b.ts")], 10_000)
+    expect(result.files.map((f) => f.mode)).toEqual(["full", "full"])
+    expect(result.truncated).toEqual([])
+    expect(result.dropped).toEqual([])
+  })
+
+  test("packFiles should trim and summarize lower-priority files", () => {
+    // Room for one full patch, one trimmed patch and one summary
+    const tokens = (filename: string, text: string) => 20 + estimateTokens(filename) + estimateTokens(text)
+    const budget =
+      tokens("auth.ts", renderPatch(longHunk.hunks)) +
+      tokens("util.ts", renderPatch(longHunk.hunks, 1)) +
+      tokens("docs.ts", "Patch omitted to fit the review budget: +2 -2 in 1 hunk")
+    const result = packFiles(
+      [file("docs.ts", { complexity: 0 }), file("auth.ts", { sensitive: true }), file("util.ts")],
+      budget
+    )
+
+    expect(result.files.map((f) => [f.filename, f.mode])).toEqual([
+      ["docs.ts", "summary"],
+      ["auth.ts", "full"],
+      ["util.ts", "trimmed"],
+    ])
+    expect(result.files[0].summary).toBe("Patch omitted to fit the review budget: +2 -2 in 1 hunk")
+    expect(result.truncated).toEqual([
+      { filename: "docs.ts", mode: "summary" },
+      { filename: "util.ts", mode: "trimmed" },
+    ])
+    expect(result.estimatedTokens).toBeLessThanOrEqual(result.tokenBudget)
+  })
+
+  test("packFiles should drop the lowest-priority files when even summaries don't fit", () => {
+    const result = packFiles([file("low.ts", { complexity: 0 }), file("high.ts", { complexity: 90 })], 40)
+    expect(result.files.map((f) => f.filename)).toEqual(["high.ts"])
+    expect(result.dropped).toEqual(["low.ts"])
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Diff Position Tests
+ * Tests placing findings on commentable lines of a PR diff
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import { commentableRanges, placeComment } from "@/lib/diff-position"
+import { parseDiff } from "@/lib/diff-parser"
+
+// src/app.ts: one hunk covering new lines 10-14 and one covering new lines 40-42
+const diff = parseDiff(`diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -10,4 +10,5 @@
+ const a = 1
+-const b = 2
++const b = 3
++const c = 4
+ const d = 5
+ const e = 6
+@@ -39,3 +40,3 @@
+ function f() {
+-  return a
++  return b
+ }
+diff --git a/logo.png b/logo.png
+Binary files a/logo.png and b/logo.png differ
+diff --git a/src/old-name.ts b/src/new-name.ts
+similarity index 90%
+rename from src/old-name.ts
+rename to src/new-name.ts
+--- a/src/old-name.ts
++++ b/src/new-name.ts
+@@ -1,2 +1,2 @@
+-export const name = "old"
++export const name = "new"
+ export default name
+`)
+
+describe("Diff Positions", () => {
+  test("should list one commentable range per hunk and side", () => {
+    expect(commentableRanges(diff[0], "RIGHT")).toEqual([{ start: 10, end: 14 }, { start: 40, end: 42 }])
+    expect(commentableRanges(diff[0], "LEFT")).toEqual([{ start: 10, end: 13 }, { start: 39, end: 41 }])
+  })
+
+  test("should keep findings that are inside a hunk", () => {
+    expect(placeComment(diff, { filePath: "src/app.ts", startLine: 11, endLine: 12 })).toEqual({
+      placement: "line", filePath: "src/app.ts", startLine: 11, endLine: 12, side: "RIGHT", snapped: false,
+    })
+  })
+
+  test("should clamp ranges that run past a hunk", () => {
+    expect(placeComment(diff, { filePath: "src/app.ts", startLine: 13, endLine: 20 })).toEqual({
+      placement: "line", filePath: "src/app.ts", startLine: 13, endLine: 14, side: "RIGHT", snapped: true,
+    })
+  })
+
+  test("should snap findings just outside a hunk to its nearest line", () => {
+    expect(placeComment(diff, { filePath: "src/app.ts", startLine: 17, endLine: 18 })).toEqual({
+      placement: "line", filePath: "src/app.ts", startLine: 14, endLine: 14, side: "RIGHT", snapped: true,
+    })
+    expect(placeComment(diff, { filePath: "src/app.ts", startLine: 37, endLine: null, side: "LEFT" })).toEqual({
+      placement: "line", filePath: "src/app.ts", startLine: 39, endLine: 39, side: "LEFT", snapped: true,
+    })
+  })
+
+  test("should demote findings far from any hunk to file-level comments", () => {
+    expect(placeComment(diff, { filePath: "src/app.ts", startLine: 25, endLine: 26 })).toEqual({ placement: "file", filePath: "src/app.ts" })
+    expect(placeComment(diff, { filePath: "src/app.ts", startLine: null, endLine: null })).toEqual({ placement: "file", filePath: "src/app.ts" })
+    expect(placeComment(diff, { filePath: "logo.png", startLine: 1, endLine: 1 })).toEqual({ placement: "file", filePath: "logo.png" })
+  })
+
+  test("should fold findings on files outside the diff into the summary", () => {
+    expect(placeComment(diff, { filePath: "src/other.ts", startLine: 3, endLine: 3 })).toEqual({ placement: "summary" })
+  })
+
+  test("should place findings reported on a renamed file's old path on its new path", () => {
+    expect(placeComment(diff, { filePath: "src/old-name.ts", startLine: 1, endLine: 1 })).toEqual({
+      placement: "line", filePath: "src/new-name.ts", startLine: 1, endLine: 1, side: "RIGHT", snapped: false,
+    })
+    expect(placeComment(diff, { filePath: "src/old-name.ts", startLine: null, endLine: null })).toEqual({
+      placement: "file", filePath: "src/new-name.ts",
+    })
+  })
+})
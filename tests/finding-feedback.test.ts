@@ -0,0 +1,26 @@
+/**
+ * Finding Feedback Tests
+ * Tests how developer ratings of review comments are counted
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import { computePrecision, reactionToFeedback } from "@/lib/finding-feedback"
+
+describe("Finding Feedback", () => {
+  test("should count thumbs reactions as ratings", () => {
+    expect(reactionToFeedback("+1")).toBe("helpful")
+    expect(reactionToFeedback("-1")).toBe("not_helpful")
+    expect(reactionToFeedback("heart")).toBeNull()
+    expect(reactionToFeedback("eyes")).toBeNull()
+  })
+
+  test("should compute precision as the helpful share of rated findings", () => {
+    expect(computePrecision({ helpful: 3, notHelpful: 1, wrong: 0 })).toBe(75)
+    expect(computePrecision({ helpful: 1, notHelpful: 1, wrong: 2 })).toBe(25)
+  })
+
+  test("should have no precision without ratings", () => {
+    expect(computePrecision({ helpful: 0, notHelpful: 0, wrong: 0 })).toBeNull()
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Finding Lifecycle Tests
+ * Tests fingerprints across review versions and detection of fixed findings
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import {
+  closeFixedFindingThread,
+  computeFindingFingerprint,
+  selectFixedFindings,
+  type FixedThreadTarget,
+} from "@/lib/finding-lifecycle"
+import { parseDiff } from "@/lib/diff-parser"
+import type { ReviewCategory } from "@/db/types"
+
+const finding = (overrides: Partial<{ title: string; filePath: string; startLine: number | null; side: string }> = {}) => ({
+  category: "bug" as ReviewCategory,
+  title: overrides.title ?? "Possible null dereference of `user`",
+  filePath: overrides.filePath ?? "src/app.ts",
+  startLine: overrides.startLine === undefined ? 3 : overrides.startLine,
+  endLine: overrides.startLine === undefined ? 3 : overrides.startLine,
+  side: overrides.side ?? "RIGHT",
+  codeSnippet: "return user.name",
+})
+
+// Line 3 of src/app.ts is rewritten; line 10 is untouched
+const diff = parseDiff(`diff --git a/src/app.ts b/src/app.ts
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,4 +1,4 @@
+ function getName(user) {
+   // Look up the name
+-  return user.name
++  return user?.name ?? ""
+ }
+`)
+
+describe("Finding Lifecycle", () => {
+  test("should give the same finding the same fingerprint across versions", () => {
+    const a = computeFindingFingerprint({ ...finding(), codeSnippet: "return user.name" })
+    const b = computeFindingFingerprint({ ...finding({ title: "Possible null dereference of `account`" }), codeSnippet: "return  user.name\n" })
+    expect(a).toBe(b)
+    expect(computeFindingFingerprint({ ...finding(), codeSnippet: "return user?.name" })).not.toBe(a)
+    expect(computeFindingFingerprint({ ...finding({ filePath: "src/other.ts" }) })).not.toBe(a)
+  })
+
+  test("should resolve findings on changed lines that aren't reported again", () => {
+    expect(selectFixedFindings([finding()], diff, [])).toHaveLength(1)
+  })
+
+  test("should keep findings the new review still reports", () => {
+    expect(selectFixedFindings([finding()], diff, [finding({ startLine: 4 })])).toHaveLength(0)
+  })
+
+  test("should keep findings on untouched lines, untouched files and file-level findings", () => {
+    expect(selectFixedFindings([finding({ startLine: 10 })], diff, [])).toHaveLength(0)
+    expect(selectFixedFindings([finding({ filePath: "src/other.ts" })], diff, [])).toHaveLength(0)
+    expect(selectFixedFindings([finding({ startLine: null })], diff, [])).toHaveLength(0)
+    expect(selectFixedFindings([finding({ side: "LEFT" })], diff, [])).toHaveLength(0)
+  })
+
+  test("closeFixedFindingThread should resolve the thread on GitHub and note the fixing commit", async () => {
+    const calls: string[] = []
+    const target: FixedThreadTarget = {
+      client: {
+        resolveReviewThread: async (threadId) => { calls.push(`resolve ${threadId}`) },
+        replyToReviewComment: async (owner, repo, prNumber, commentId, body) => {
+          calls.push(`reply ${owner}/${repo}#${prNumber} ${commentId}: ${body}`)
+          return { id: 1, html_url: "" }
+        },
+      },
+      owner: "acme",
+      repo: "app",
+      prNumber: 7,
+      threadIds: new Map([[101, "PRRT_thread101"]]),
+    }
+
+    await closeFixedFindingThread(target, 101, "abc1234def")
+    // Already resolved on GitHub: only the note
+    await closeFixedFindingThread(target, 101, "abc1234def")
+
+    expect(calls).toEqual([
+      "resolve PRRT_thread101",
+      "reply acme/app#7 101: ✅ Fixed in abc1234",
+      "reply acme/app#7 101: ✅ Fixed in abc1234",
+    ])
+  })
+})
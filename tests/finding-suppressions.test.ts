@@ -0,0 +1,66 @@
+/**
+ * Finding Suppression Tests
+ * Tests fingerprinting of dismissed findings and matching of new ones
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import {
+  fingerprintFinding,
+  findMatchingSuppression,
+  hashSnippet,
+  matchesSuppression,
+  normalizeFindingTitle,
+} from "@/lib/finding-suppressions"
+
+const finding = (overrides: Partial<{ category: string; title: string; filePath: string; codeSnippet: string | null }> = {}) => ({
+  category: overrides.category ?? "code_quality",
+  title: overrides.title ?? "Unused variable `count` on line 12",
+  filePath: overrides.filePath ?? "src/utils/format.ts",
+  codeSnippet: overrides.codeSnippet === undefined ? "const count = items.length;" : overrides.codeSnippet,
+})
+
+describe("Finding Suppressions", () => {
+  test("should normalize identifiers, numbers and punctuation in titles", () => {
+    expect(normalizeFindingTitle("Unused variable `count` on line 12")).toBe(
+      normalizeFindingTitle("unused variable 'total' on line 40.")
+    )
+    expect(normalizeFindingTitle("Missing null check")).toBe("missing null check")
+  })
+
+  test("should hash snippets ignoring whitespace", () => {
+    expect(hashSnippet("const a = 1;\n")).toBe(hashSnippet("  const   a = 1;"))
+    expect(hashSnippet("const a = 1;")).not.toBe(hashSnippet("const a = 2;"))
+    expect(hashSnippet("   ")).toBeNull()
+    expect(hashSnippet(null)).toBeNull()
+  })
+
+  test("should match the dismissed finding when it comes back", () => {
+    const suppression = fingerprintFinding(finding())
+    expect(suppression.fileGlob).toBe("src/utils/format.ts")
+    expect(matchesSuppression(finding({ title: "Unused variable `count` on line 30" }), suppression)).toBe(true)
+  })
+
+  test("should match findings in files whose paths contain glob characters", () => {
+    const filePath = "app/(protected)/analytics/reviews/[id]/page.tsx"
+    const suppression = fingerprintFinding(finding({ filePath }))
+    expect(matchesSuppression(finding({ filePath }), suppression)).toBe(true)
+    expect(matchesSuppression(finding({ filePath: "app/(protected)/analytics/reviews/d/page.tsx" }), suppression)).toBe(false)
+    // Stored before paths were escaped
+    expect(matchesSuppression(finding({ filePath }), { ...suppression, fileGlob: filePath })).toBe(true)
+  })
+
+  test("should not match other categories, titles, files or code", () => {
+    const suppression = fingerprintFinding(finding())
+    expect(matchesSuppression(finding({ category: "bug" }), suppression)).toBe(false)
+    expect(matchesSuppression(finding({ title: "Unused import `x`" }), suppression)).toBe(false)
+    expect(matchesSuppression(finding({ filePath: "src/utils/parse.ts" }), suppression)).toBe(false)
+    expect(matchesSuppression(finding({ codeSnippet: "let count = 0;" }), suppression)).toBe(false)
+  })
+
+  test("should match widened globs and any code without a snippet hash", () => {
+    const suppression = { ...fingerprintFinding(finding()), fileGlob: "src/**/*.ts", snippetHash: null }
+    expect(matchesSuppression(finding({ filePath: "src/api/users.ts", codeSnippet: "let count = 0;" }), suppression)).toBe(true)
+    expect(findMatchingSuppression(finding({ filePath: "lib/a.ts" }), [suppression])).toBeNull()
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Git Attributes Tests
+ * Tests reading linguist markers from .gitattributes and skipping the files they mark
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import { getLinguistAttribute, parseGitAttributes } from "@/lib/gitattributes"
+import { filterReviewableFiles, getSkipReason, type ParsedDiff } from "@/lib/diff-parser"
+
+const rules = parseGitAttributes(`# Generated code
+*.pb.go linguist-generated=true
+*.snap linguist-generated
+third_party/** linguist-vendored -diff
+docs/** linguist-documentation
+docs/api/** -linguist-documentation
+dist/** linguist-generated=false
+*.ts text eol=lf
+`)
+
+const file = (filename: string, isBinary = false): ParsedDiff => ({
+  filename,
+  status: "modified",
+  additions: 1,
+  deletions: 0,
+  changes: 1,
+  hunks: [],
+  isBinary,
+})
+
+describe("Git Attributes", () => {
+  test("should keep only linguist attributes, in file order", () => {
+    expect(rules.map((r) => [r.pattern, r.attribute, r.value])).toEqual([
+      ["*.pb.go", "linguist-generated", true],
+      ["*.snap", "linguist-generated", true],
+      ["third_party/**", "linguist-vendored", true],
+      ["docs/**", "linguist-documentation", true],
+      ["docs/api/**", "linguist-documentation", false],
+      ["dist/**", "linguist-generated", false],
+    ])
+  })
+
+  test("should let the last matching rule win", () => {
+    expect(getLinguistAttribute(rules, "docs/guide.md", "linguist-documentation")).toBe(true)
+    expect(getLinguistAttribute(rules, "docs/api/users.md", "linguist-documentation")).toBe(false)
+    expect(getLinguistAttribute(rules, "src/app.ts", "linguist-documentation")).toBeUndefined()
+  })
+
+  test("getSkipReason should name the marker that skipped a file", () => {
+    expect(getSkipReason(file("proto/user.pb.go"), rules)).toBe("linguist-generated")
+    expect(getSkipReason(file("src/__snapshots__/App.test.tsx.snap"), rules)).toBe("linguist-generated")
+    expect(getSkipReason(file("third_party/lib/x.c"), rules)).toBe("linguist-vendored")
+    expect(getSkipReason(file("docs/guide.md"), rules)).toBe("linguist-documentation")
+    expect(getSkipReason(file("logo.png", true), rules)).toBe("binary")
+    expect(getSkipReason(file("package-lock.json"), rules)).toBe("default")
+    expect(getSkipReason(file("src/app.ts"), rules)).toBeNull()
+  })
+
+  test("should let .gitattributes opt files back in from the built-in skip list", () => {
+    expect(getSkipReason(file("dist/index.js"))).toBe("default")
+    expect(getSkipReason(file("dist/index.js"), rules)).toBeNull()
+  })
+
+  test("filterReviewableFiles should apply the rules", () => {
+    const files = [file("proto/user.pb.go"), file("src/app.ts"), file("docs/api/users.md")]
+    expect(filterReviewableFiles(files, rules).map((f) => f.filename)).toEqual(["src/app.ts", "docs/api/users.md"])
+    expect(filterReviewableFiles(files)).toHaveLength(3)
+  })
+})
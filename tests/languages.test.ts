@@ -0,0 +1,67 @@
+/**
+ * Language Classification Tests
+ * Tests classifying files by name, extension and shebang line
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import { classifyLanguage, getShebangLanguage } from "@/lib/languages"
+import { extractChangedLines, parseDiff } from "@/lib/diff-parser"
+
+const name = (filename: string, content?: string) => classifyLanguage(filename, content).name
+
+describe("Language Classification", () => {
+  test("should classify extensionless build files by name", () => {
+    expect(name("Dockerfile")).toBe("Dockerfile")
+    expect(name("deploy/Dockerfile.prod")).toBe("Dockerfile")
+    expect(name("api.dockerfile")).toBe("Dockerfile")
+    expect(name("Makefile")).toBe("Makefile")
+    expect(name("scripts/common.mk")).toBe("Makefile")
+    expect(name("Gemfile")).toBe("Ruby")
+    expect(name("CMakeLists.txt")).toBe("CMake")
+  })
+
+  test("should tell apart infrastructure, script and component formats", () => {
+    expect(name("infra/main.tf")).toBe("Terraform")
+    expect(name("prod.tfvars")).toBe("Terraform")
+    expect(name("terragrunt.hcl")).toBe("HCL")
+    expect(name("build.gradle.kts")).toBe("Kotlin Script")
+    expect(name("App.kt")).toBe("Kotlin")
+    expect(name("src/App.vue")).toBe("Vue")
+    expect(name("src/Button.svelte")).toBe("Svelte")
+    expect(name("types.d.ts")).toBe("TypeScript")
+  })
+
+  test("should classify config formats", () => {
+    expect(classifyLanguage("pyproject.toml")).toEqual({ name: "TOML", category: "config" })
+    expect(name(".env.local")).toBe("Dotenv")
+    expect(name("setup.cfg")).toBe("INI")
+    expect(name(".gitignore")).toBe("Ignore List")
+    expect(name("tsconfig.json")).toBe("JSON")
+  })
+
+  test("should read the interpreter from a shebang", () => {
+    expect(getShebangLanguage("#!/usr/bin/env python3")?.name).toBe("Python")
+    expect(getShebangLanguage("#!/usr/bin/env -S deno run --allow-net")?.name).toBe("TypeScript")
+    expect(getShebangLanguage("#!/bin/bash -e")?.name).toBe("Shell")
+    expect(getShebangLanguage("#!/usr/bin/node")?.name).toBe("JavaScript")
+    expect(getShebangLanguage("#!/opt/weird")).toBeNull()
+  })
+
+  test("should use the shebang only when the name doesn't decide", () => {
+    expect(name("bin/deploy", "#!/usr/bin/env ruby\nputs 1")).toBe("Ruby")
+    expect(name("tool.py", "#!/bin/sh")).toBe("Python")
+    expect(name("bin/deploy")).toBe("Unknown")
+  })
+
+  test("extractChangedLines should classify a new script by its first line", () => {
+    const [diff] = parseDiff(`diff --git a/bin/release b/bin/release
+new file mode 100755
+--- /dev/null
++++ b/bin/release
+@@ -0,0 +1,2 @@
++#!/usr/bin/env bash
++echo release`)
+    expect(extractChangedLines(diff).language).toBe("Shell")
+  })
+})
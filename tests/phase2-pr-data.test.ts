@@ -14,6 +14,14 @@ import {
   calculateDiffStats,
   detectLanguage,
   extractAffectedFunctions,
+  buildDiffFromPatches,
+  mapLineThroughDiff,
+  mapLineRangeThroughDiff,
+  getPathBeforeDiff,
+  isContentUnchanged,
+  isPatchTruncated,
+  markTruncatedPatches,
+  getSkipReason,
   type ParsedDiff,
 } from "@/lib/diff-parser"
 import {
@@ -336,6 +344,7 @@ index 1234567..abcdefg 100644
         },
         diff: {
           diff: "",
+          source: "diff" as const,
           files: [],
           stats: {
             total_files: 5,
@@ -346,6 +355,9 @@ index 1234567..abcdefg 100644
         },
         parsedDiffs: [],
         fileChanges: [],
+        unchangedFiles: [],
+        skippedFiles: [],
+        chunks: [],
         fileContents: new Map(),
         commits: [
           {
@@ -422,6 +434,7 @@ index 1234567..abcdefg 100644
         },
         diff: {
           diff: "",
+          source: "diff" as const,
           files: [],
           stats: {
             total_files: 1,
@@ -446,6 +459,9 @@ index 1234567..abcdefg 100644
             affectedFunctions: [],
           },
         ],
+        unchangedFiles: [],
+        skippedFiles: [],
+        chunks: [],
         fileContents: new Map([
           ["test.ts", { filename: "test.ts", content: "code here", sha: "abc", encoding: "utf-8", size: 9 }],
         ]),
@@ -585,4 +601,164 @@ index 1234567..abcdefg 100644
       expect(filtered[0].filename).toBe("docs/README.md")
     })
   })
+
+  describe("Incremental Diffs", () => {
+    // Old lines 1-3 unchanged, old line 4 replaced, one line inserted after old line 8
+    const patch = `@@ -3,3 +3,3 @@
+ keep three
+-old four
++new four
+ keep five
+@@ -8,0 +9,1 @@
++inserted`
+
+    const parsed = parseDiff(
+      buildDiffFromPatches([{ filename: "src/app.ts", status: "modified", patch }])
+    )[0]
+
+    test("buildDiffFromPatches should produce a diff parseDiff understands", () => {
+      expect(parsed.filename).toBe("src/app.ts")
+      expect(parsed.hunks).toHaveLength(2)
+      expect(parsed.additions).toBe(2)
+      expect(parsed.deletions).toBe(1)
+    })
+
+    test("buildDiffFromPatches should keep renames, additions and binary files", () => {
+      const diffs = parseDiff(
+        buildDiffFromPatches([
+          { filename: "src/new.ts", previous_filename: "src/old.ts", status: "renamed", patch: "@@ -1,1 +1,1 @@\n-a\n+b" },
+          { filename: "src/added.ts", status: "added", patch: "@@ -0,0 +1,1 @@\n+hello" },
+          { filename: "logo.png", status: "modified" },
+        ])
+      )
+
+      expect(diffs.map((d) => d.status)).toEqual(["renamed", "added", "modified"])
+      expect(diffs[0].previousFilename).toBe("src/old.ts")
+      expect(diffs[2].isBinary).toBe(true)
+    })
+
+    test("mapLineThroughDiff should keep lines before and between hunks", () => {
+      expect(mapLineThroughDiff(parsed, 1)).toBe(1)
+      expect(mapLineThroughDiff(parsed, 3)).toBe(3)
+      expect(mapLineThroughDiff(parsed, 6)).toBe(6)
+      expect(mapLineThroughDiff(parsed, 8)).toBe(8)
+    })
+
+    test("mapLineThroughDiff should shift lines after an insertion", () => {
+      expect(mapLineThroughDiff(parsed, 9)).toBe(10)
+      expect(mapLineThroughDiff(parsed, 20)).toBe(21)
+    })
+
+    test("mapLineThroughDiff should return null for changed lines", () => {
+      expect(mapLineThroughDiff(parsed, 4)).toBeNull()
+    })
+
+    test("mapLineRangeThroughDiff should reject ranges with touched or inserted lines", () => {
+      expect(mapLineRangeThroughDiff(parsed, 1, 3)).toEqual({ startLine: 1, endLine: 3 })
+      expect(mapLineRangeThroughDiff(parsed, 3, 5)).toBeNull()
+      expect(mapLineRangeThroughDiff(parsed, 8, 9)).toBeNull()
+      expect(mapLineRangeThroughDiff(parsed, 10, 12)).toEqual({ startLine: 11, endLine: 13 })
+    })
+  })
+
+  describe("Truncated Patches", () => {
+    const files = [
+      { filename: "src/huge.ts", status: "modified", additions: 4000, deletions: 10, changes: 4010 },
+      { filename: "logo.png", status: "modified", additions: 0, deletions: 0, changes: 0 },
+      { filename: "src/app.ts", status: "modified", additions: 1, deletions: 1, changes: 2, patch: "@@ -1,1 +1,1 @@\n-a\n+b" },
+    ]
+
+    test("isPatchTruncated should tell cut patches from binary files", () => {
+      expect(files.map(isPatchTruncated)).toEqual([true, false, false])
+    })
+
+    test("buildDiffFromPatches should not mark truncated files as binary", () => {
+      const diffs = parseDiff(buildDiffFromPatches(files))
+      expect(diffs.map((d) => d.isBinary)).toEqual([false, true, false])
+      expect(filterReviewableFiles(diffs).map((d) => d.filename)).toEqual(["src/huge.ts", "src/app.ts"])
+    })
+
+    test("buildDiffFromPatches should not mark unchanged renames or empty files as binary", () => {
+      const diffs = parseDiff(
+        buildDiffFromPatches([
+          { filename: "src/new.ts", previous_filename: "src/old.ts", status: "renamed", changes: 0 },
+          { filename: "src/empty.ts", status: "added", changes: 0, sha: "e69de29bb2d1d6434b8b29ae775ad8c2e48c5391" },
+          { filename: "scripts/run.sh", status: "changed", changes: 0 },
+        ])
+      )
+
+      expect(diffs.map((d) => d.isBinary)).toEqual([false, false, false])
+      expect(isContentUnchanged(diffs[0])).toBe(true)
+      expect(diffs.map((d) => getSkipReason(d))).toEqual([null, null, null])
+    })
+
+    test("markTruncatedPatches should flag files and take their counts from the file list", () => {
+      const diffs = parseDiff(buildDiffFromPatches(files))
+      expect(markTruncatedPatches(diffs, files)).toEqual(["src/huge.ts"])
+      expect(diffs[0]).toMatchObject({ patchTruncated: true, additions: 4000, deletions: 10, changes: 4010 })
+      expect(isContentUnchanged(diffs[0])).toBe(false)
+      expect(extractChangedLines(diffs[0]).patchTruncated).toBe(true)
+    })
+
+    test("markTruncatedPatches should ignore files the unified diff has hunks for", () => {
+      const diffs = parseDiff("diff --git a/src/huge.ts b/src/huge.ts\n--- a/src/huge.ts\n+++ b/src/huge.ts\n@@ -1,1 +1,1 @@\n-a\n+b")
+      expect(markTruncatedPatches(diffs, files)).toEqual([])
+      expect(diffs[0].patchTruncated).toBeUndefined()
+    })
+  })
+
+  describe("Renames, Copies and Mode Changes", () => {
+    const diffs = parseDiff(`diff --git a/src/old name.ts b/src/new name.ts
+similarity index 100%
+rename from src/old name.ts
+rename to src/new name.ts
+diff --git a/src/util.ts b/src/helpers.ts
+similarity index 92%
+rename from src/util.ts
+rename to src/helpers.ts
+index 1111111..2222222 100644
+--- a/src/util.ts
++++ b/src/helpers.ts
+@@ -1,2 +1,2 @@
+-export const a = 1
++export const a = 2
+ export const b = 2
+diff --git a/src/base.ts b/src/copy.ts
+similarity index 100%
+copy from src/base.ts
+copy to src/copy.ts
+diff --git a/scripts/run.sh b/scripts/run.sh
+old mode 100644
+new mode 100755`)
+
+    test("parseDiff should read rename and copy headers", () => {
+      expect(diffs.map((d) => [d.status, d.previousFilename, d.filename, d.similarity])).toEqual([
+        ["renamed", "src/old name.ts", "src/new name.ts", 100],
+        ["renamed", "src/util.ts", "src/helpers.ts", 92],
+        ["copied", "src/base.ts", "src/copy.ts", 100],
+        ["modified", undefined, "scripts/run.sh", undefined],
+      ])
+      expect(diffs[1].changes).toBe(2)
+    })
+
+    test("parseDiff should read mode changes", () => {
+      expect(diffs[3]).toMatchObject({ oldMode: "100644", newMode: "100755", hunks: [] })
+    })
+
+    test("isContentUnchanged should flag pure renames, copies and mode changes", () => {
+      expect(diffs.map(isContentUnchanged)).toEqual([true, false, true, true])
+    })
+
+    test("getPathBeforeDiff should follow renames but not copies", () => {
+      expect(diffs.map(getPathBeforeDiff)).toEqual(["src/old name.ts", "src/util.ts", "src/copy.ts", "scripts/run.sh"])
+    })
+
+    test("buildDiffFromPatches should keep copies", () => {
+      const [copy] = parseDiff(
+        buildDiffFromPatches([{ filename: "src/copy.ts", previous_filename: "src/base.ts", status: "copied" }])
+      )
+      expect(copy.status).toBe("copied")
+      expect(copy.previousFilename).toBe("src/base.ts")
+    })
+  })
 })
@@ -0,0 +1,130 @@
+/**
+ * Repository Configuration Tests
+ * Tests .graphbug.yml parsing, validation and path/branch filters
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import {
+  DEFAULT_REPO_CONFIG,
+  parseRepoConfig,
+  isBranchReviewed,
+  isPathReviewed,
+  filterPostableFindings,
+} from "@/lib/repo-config"
+import { escapeGlob, matchesGlob } from "@/lib/glob"
+
+describe("Repository Configuration", () => {
+  describe("matchesGlob", () => {
+    test("should match file names at any depth without a slash", () => {
+      expect(matchesGlob("src/components/Button.snap", "*.snap")).toBe(true)
+      expect(matchesGlob("Button.snap", "*.snap")).toBe(true)
+      expect(matchesGlob("src/Button.tsx", "*.snap")).toBe(false)
+    })
+
+    test("should anchor patterns with a slash to the repo root", () => {
+      expect(matchesGlob("docs/guide.md", "docs/*.md")).toBe(true)
+      expect(matchesGlob("src/docs/guide.md", "docs/*.md")).toBe(false)
+      expect(matchesGlob("docs/api/guide.md", "docs/*.md")).toBe(false)
+    })
+
+    test("should support ** and braces", () => {
+      expect(matchesGlob("src/a/b/c.ts", "src/**/*.ts")).toBe(true)
+      expect(matchesGlob("src/c.ts", "src/**/*.ts")).toBe(true)
+      expect(matchesGlob("src/c.tsx", "src/**/*.{ts,tsx}")).toBe(true)
+      expect(matchesGlob("vendor/lib/x.js", "vendor/")).toBe(true)
+    })
+
+    test("escapeGlob should make a path match only itself", () => {
+      const path = "app/(protected)/analytics/reviews/[id]/page.tsx"
+      expect(escapeGlob(path)).toBe("app/(protected)/analytics/reviews/[[]id[]]/page.tsx")
+      expect(matchesGlob(path, escapeGlob(path))).toBe(true)
+      expect(matchesGlob("app/(protected)/analytics/reviews/i/page.tsx", escapeGlob(path))).toBe(false)
+      expect(matchesGlob("src/{a,b}*.ts", escapeGlob("src/{a,b}*.ts"))).toBe(true)
+      expect(matchesGlob("src/a.ts", escapeGlob("src/{a,b}*.ts"))).toBe(false)
+    })
+  })
+
+  describe("parseRepoConfig", () => {
+    test("should use defaults for an empty file", () => {
+      expect(parseRepoConfig("")).toEqual({ config: DEFAULT_REPO_CONFIG, errors: [] })
+    })
+
+    test("should parse a valid config", () => {
+      const { config, errors } = parseRepoConfig(`
+paths:
+  exclude: ["docs/**"]
+branches:
+  include: [main, "release/*"]
+categories: [security, bug]
+min_severity: medium
+max_comments: 10
+model: pro
+`)
+
+      expect(errors).toEqual([])
+      expect(config.paths).toEqual({ include: [], exclude: ["docs/**"] })
+      expect(config.categories).toEqual(["security", "bug"])
+      expect(config.min_severity).toBe("medium")
+      expect(config.model).toBe("pro")
+      expect(config.max_files).toBe(50)
+    })
+
+    test("should report validation errors and fall back to defaults", () => {
+      const { config, errors } = parseRepoConfig("min_severity: urgent\nmax_coments: 5\n")
+
+      expect(config).toEqual(DEFAULT_REPO_CONFIG)
+      expect(errors).toHaveLength(2)
+      expect(errors.some((e) => e.includes("min_severity"))).toBe(true)
+      expect(errors.some((e) => e.includes("max_coments"))).toBe(true)
+    })
+
+    test("should report invalid YAML", () => {
+      const { errors } = parseRepoConfig("paths: [unclosed")
+      expect(errors[0]).toMatch(/^Invalid YAML/)
+    })
+  })
+
+  describe("filters", () => {
+    const { config } = parseRepoConfig(`
+paths:
+  include: ["src/**"]
+  exclude: ["**/*.test.ts"]
+branches:
+  include: [main, "release/*"]
+  exclude: ["release/legacy"]
+categories: [security, bug]
+min_severity: medium
+max_comments: 2
+`)
+
+    test("should filter target branches", () => {
+      expect(isBranchReviewed(config, "main")).toBe(true)
+      expect(isBranchReviewed(config, "release/2.0")).toBe(true)
+      expect(isBranchReviewed(config, "release/legacy")).toBe(false)
+      expect(isBranchReviewed(config, "develop")).toBe(false)
+      expect(isBranchReviewed(DEFAULT_REPO_CONFIG, "develop")).toBe(true)
+    })
+
+    test("should filter changed files", () => {
+      expect(isPathReviewed(config, "src/app.ts")).toBe(true)
+      expect(isPathReviewed(config, "src/app.test.ts")).toBe(false)
+      expect(isPathReviewed(config, "scripts/build.ts")).toBe(false)
+    })
+
+    test("should keep the most severe postable findings", () => {
+      const findings = filterPostableFindings(config, [
+        { severity: "low" as const, category: "bug" as const },
+        { severity: "medium" as const, category: "bug" as const },
+        { severity: "critical" as const, category: "performance" as const },
+        { severity: "high" as const, category: "security" as const },
+        { severity: "critical" as const, category: "bug" as const },
+      ])
+
+      expect(findings).toEqual([
+        { severity: "critical", category: "bug" },
+        { severity: "high", category: "security" },
+      ])
+    })
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * Repository Settings Tests
+ * Tests which pull requests are reviewed automatically
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import { DEFAULT_REVIEW_SETTINGS, getAutoReviewSkipReason } from "@/lib/repository-settings"
+
+const pr = (overrides: { draft?: boolean; base?: string; author?: string } = {}) => ({
+  draft: overrides.draft ?? false,
+  base: { ref: overrides.base ?? "main" },
+  user: { login: overrides.author ?? "octocat" },
+})
+
+describe("Repository Settings", () => {
+  test("should review everything with the default settings", () => {
+    expect(getAutoReviewSkipReason(DEFAULT_REVIEW_SETTINGS, pr())).toBeNull()
+    expect(getAutoReviewSkipReason(DEFAULT_REVIEW_SETTINGS, pr({ draft: true }))).toBeNull()
+  })
+
+  test("should skip when automatic reviews are off", () => {
+    const settings = { ...DEFAULT_REVIEW_SETTINGS, autoReview: false }
+    expect(getAutoReviewSkipReason(settings, pr())).toMatch(/turned off/)
+  })
+
+  test("should skip drafts when drafts aren't reviewed", () => {
+    const settings = { ...DEFAULT_REVIEW_SETTINGS, reviewDrafts: false }
+    expect(getAutoReviewSkipReason(settings, pr({ draft: true }))).toMatch(/draft/)
+    expect(getAutoReviewSkipReason(settings, pr())).toBeNull()
+  })
+
+  test("should only review watched base branches", () => {
+    const settings = { ...DEFAULT_REVIEW_SETTINGS, baseBranches: ["main", "release/*"] }
+    expect(getAutoReviewSkipReason(settings, pr({ base: "release/1.2" }))).toBeNull()
+    expect(getAutoReviewSkipReason(settings, pr({ base: "develop" }))).toMatch(/not watched/)
+  })
+
+  test("should skip authors case-insensitively", () => {
+    const settings = { ...DEFAULT_REVIEW_SETTINGS, skipAuthors: ["Dependabot[bot]"] }
+    expect(getAutoReviewSkipReason(settings, pr({ author: "dependabot[bot]" }))).toMatch(/skipped/)
+    expect(getAutoReviewSkipReason(settings, pr({ author: "octocat" }))).toBeNull()
+  })
+})
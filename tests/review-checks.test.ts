@@ -0,0 +1,187 @@
+/**
+ * Review Check Run Tests
+ * Tests conclusion and annotation mapping for GitHub Check Runs
+ */
+
+import { beforeAll, describe, test, expect, jest } from "@jest/globals"
+
+import {
+  getCheckConclusion,
+  toCheckAnnotations,
+  buildCheckOutput,
+  withStoredFindingCounts,
+} from "@/lib/review-checks"
+import type { CodeReview, ReviewComment } from "@/db/types"
+
+const summary = (critical: number, high: number, medium: number) => ({
+  overallScore: 80,
+  filesChanged: 3,
+  issuesFound: critical + high + medium,
+  critical,
+  high,
+  medium,
+  low: 0,
+  info: 0,
+})
+
+const comment = (overrides: Partial<ReviewComment>): ReviewComment =>
+  ({
+    id: "c1",
+    reviewId: "r1",
+    filePath: "src/app.ts",
+    startLine: 10,
+    endLine: null,
+    side: "RIGHT",
+    severity: "medium",
+    category: "bug",
+    title: "Possible null dereference",
+    message: "user may be undefined here",
+    suggestion: null,
+    ...overrides,
+  }) as ReviewComment
+
+describe("Review Check Runs", () => {
+  describe("getCheckConclusion", () => {
+    test("should fail when critical or high issues are found", () => {
+      expect(getCheckConclusion({ status: "completed" }, [comment({ severity: "critical" })])).toBe("failure")
+      expect(getCheckConclusion({ status: "completed" }, [comment({}), comment({ severity: "high" })])).toBe("failure")
+    })
+
+    test("should succeed with only medium or lower issues", () => {
+      expect(getCheckConclusion({ status: "completed" }, [comment({}), comment({ severity: "low" })])).toBe("success")
+      expect(getCheckConclusion({ status: "completed" }, [])).toBe("success")
+    })
+
+    test("should map failed and cancelled reviews", () => {
+      expect(getCheckConclusion({ status: "failed" }, [])).toBe("neutral")
+      expect(getCheckConclusion({ status: "cancelled" }, [comment({ severity: "critical" })])).toBe("cancelled")
+    })
+  })
+
+  describe("withStoredFindingCounts", () => {
+    test("should count findings the ai-service's summary doesn't know about", () => {
+      // A detected secret stored alongside the ai-service's one medium finding
+      const comments = [comment({}), comment({ severity: "critical", modelUsed: "secret-scanner" })]
+      expect(withStoredFindingCounts(summary(0, 0, 1), comments)).toEqual(summary(1, 0, 1))
+    })
+
+    test("should leave a missing summary missing", () => {
+      expect(withStoredFindingCounts(null, [comment({})])).toBeNull()
+    })
+  })
+
+  describe("toCheckAnnotations", () => {
+    test("should map severity to annotation level", () => {
+      const annotations = toCheckAnnotations([
+        comment({ severity: "critical" }),
+        comment({ severity: "medium" }),
+        comment({ severity: "info" }),
+      ])
+
+      expect(annotations.map((a) => a.annotation_level)).toEqual(["failure", "warning", "notice"])
+    })
+
+    test("should use the start line as end line for single-line findings", () => {
+      const [annotation] = toCheckAnnotations([comment({ startLine: 12, endLine: null })])
+      expect(annotation.start_line).toBe(12)
+      expect(annotation.end_line).toBe(12)
+    })
+
+    test("should skip file-level and base-side findings", () => {
+      const annotations = toCheckAnnotations([
+        comment({ startLine: null }),
+        comment({ side: "LEFT" }),
+        comment({}),
+      ])
+      expect(annotations).toHaveLength(1)
+    })
+  })
+
+  describe("buildCheckOutput", () => {
+    test("should count blocking issues in the title", () => {
+      const review = { status: "completed", summary: summary(1, 1, 0) } as CodeReview
+      const output = buildCheckOutput(review, [
+        comment({ severity: "critical" }),
+        comment({ severity: "high" }),
+        comment({ severity: "low" }),
+      ])
+
+      expect(output.title).toBe("2 critical/high issues found")
+      expect(output.summary).toContain("| critical | 1 |")
+    })
+
+    test("should report a clean review", () => {
+      const review = { status: "completed", summary: null } as CodeReview
+      expect(buildCheckOutput(review, []).title).toBe("No issues found")
+    })
+  })
+})
+
+// In-memory stand-ins for the review's findings and the check run updates sent to GitHub
+const store: { review: Record<string, unknown> | null; comments: ReviewComment[] } = { review: null, comments: [] }
+const github = { updateCheckRun: jest.fn<(...args: unknown[]) => Promise<unknown>>() }
+
+describe("Review Check Job", () => {
+  let publishReviewCheck: (job: { reviewId: string }) => Promise<void>
+
+  beforeAll(async () => {
+    jest.resetModules()
+
+    jest.doMock("@/db/schema", () => ({
+      db: {
+        // Every unannotated finding fits in one batch here, so each update marks them all
+        update: () => ({
+          set: (values: Partial<ReviewComment>) => ({
+            where: async () => {
+              store.comments = store.comments.map((c) => ({ ...c, ...values }))
+            },
+          }),
+        }),
+      },
+      reviewComments: {},
+    }))
+
+    jest.doMock("@/db/queries", () => ({
+      getCodeReviewWithDetails: async () => ({ ...store.review, comments: store.comments }),
+      updateCodeReview: async () => store.review,
+    }))
+
+    jest.doMock("@/lib/github-pr", () => ({
+      GitHubAPIClient: jest.fn(() => github),
+      parseRepoFullName: (fullName: string) => {
+        const [owner, repo] = fullName.split("/")
+        return { owner, repo }
+      },
+    }))
+
+    ;({ publishReviewCheck } = await import("@/lib/review-checks"))
+  })
+
+  test("should only annotate findings stored since the last run", async () => {
+    store.review = {
+      id: "r1",
+      status: "completed",
+      summary: summary(0, 0, 1),
+      checkRunId: 42,
+      completedAt: new Date(),
+      repoConfig: null,
+      pullRequest: { repository: { fullName: "acme/api", installation: { installationId: 1 } } },
+    }
+    store.comments = [comment({ id: "c1", checkAnnotated: false })]
+    github.updateCheckRun.mockImplementation(async () => ({}))
+
+    await publishReviewCheck({ reviewId: "r1" })
+
+    store.comments = [...store.comments, comment({ id: "c2", startLine: 20, title: "Late finding", checkAnnotated: false })]
+    await publishReviewCheck({ reviewId: "r1" })
+
+    const annotationsSent = github.updateCheckRun.mock.calls.map(
+      (call) => (call[3] as { output: { annotations: Array<{ title: string }> } }).output.annotations
+    )
+    expect(annotationsSent).toHaveLength(2)
+    expect(annotationsSent[0].map((a) => a.title)).toEqual(["[medium] Possible null dereference"])
+    expect(annotationsSent[1].map((a) => a.title)).toEqual(["[medium] Late finding"])
+    // The rerun still updates the summary with every finding
+    expect((github.updateCheckRun.mock.calls[1][3] as { output: { summary: string } }).output.summary).toContain("| medium | 2 |")
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * Review Chunk Tests
+ * Tests splitting large PRs into review chunks and merging their results
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import { mergeChunkResults, mergeChunkSummaries, planReviewChunks } from "@/lib/review-chunks"
+import type { FileChange } from "@/lib/diff-parser"
+import type { ReviewChunk, ReviewSummary } from "@/db/types"
+
+const change = (filename: string, language?: string): FileChange => ({
+  filename,
+  status: "modified",
+  additions: 1,
+  deletions: 0,
+  changedLines: [],
+  language,
+})
+
+const summary = (overrides: Partial<ReviewSummary> = {}): ReviewSummary => ({
+  overallScore: 80,
+  filesChanged: 1,
+  issuesFound: 0,
+  critical: 0,
+  high: 0,
+  medium: 0,
+  low: 0,
+  info: 0,
+  ...overrides,
+})
+
+const chunk = (chunkIndex: number, overrides: Partial<ReviewChunk> = {}): ReviewChunk => ({
+  id: `chunk-${chunkIndex}`,
+  reviewId: "review-1",
+  chunkIndex,
+  files: [],
+  status: "completed",
+  summary: null,
+  keyChanges: null,
+  recommendations: null,
+  positives: null,
+  modelsUsed: null,
+  totalTokensInput: 0,
+  totalTokensOutput: 0,
+  totalCost: 0,
+  executionTimeMs: null,
+  errorMessage: null,
+  createdAt: new Date(),
+  completedAt: null,
+  ...overrides,
+})
+
+describe("Review Chunks", () => {
+  test("planReviewChunks should keep small PRs in one chunk", () => {
+    const plans = planReviewChunks([change("a.ts", "typescript"), change("b.py", "python")], 50)
+    expect(plans).toHaveLength(1)
+    expect(plans[0].files).toEqual(["a.ts", "b.py"])
+  })
+
+  test("planReviewChunks should group by language and directory and cover every file", () => {
+    const files = [
+      change("src/api/users.ts", "typescript"),
+      change("scripts/build.py", "python"),
+      change("src/api/teams.ts", "typescript"),
+      change("src/ui/button.ts", "typescript"),
+      change("src/ui/input.ts", "typescript"),
+      change("scripts/deploy.py", "python"),
+    ]
+    const plans = planReviewChunks(files, 3)
+
+    expect(plans.map((p) => p.files)).toEqual([
+      ["scripts/build.py", "scripts/deploy.py"],
+      ["src/api/teams.ts", "src/api/users.ts"],
+      ["src/ui/button.ts", "src/ui/input.ts"],
+    ])
+    expect(plans[1]).toMatchObject({ languages: ["typescript"], directories: ["src/api"] })
+    expect(plans.flatMap((p) => p.files).sort()).toEqual(files.map((f) => f.filename).sort())
+  })
+
+  test("planReviewChunks should split directories larger than a chunk", () => {
+    const files = Array.from({ length: 5 }, (_, i) => change(`src/file${i}.ts`, "typescript"))
+    expect(planReviewChunks(files, 2).map((p) => p.files.length)).toEqual([2, 2, 1])
+  })
+
+  test("mergeChunkSummaries should add counts and weight the score by files", () => {
+    expect(
+      mergeChunkSummaries([
+        summary({ overallScore: 90, filesChanged: 3, issuesFound: 1, low: 1 }),
+        summary({ overallScore: 50, filesChanged: 1, issuesFound: 2, critical: 1, high: 1 }),
+      ])
+    ).toEqual(summary({ overallScore: 80, filesChanged: 4, issuesFound: 3, critical: 1, high: 1, low: 1 }))
+    expect(mergeChunkSummaries([])).toBeNull()
+  })
+
+  test("mergeChunkResults should combine completed chunks", () => {
+    const merged = mergeChunkResults([
+      chunk(0, { summary: summary(), keyChanges: ["Adds auth"], totalCost: 0.5, executionTimeMs: 1000 }),
+      chunk(1, { summary: summary(), keyChanges: ["Adds auth", "New UI"], totalCost: 0.25, executionTimeMs: 3000 }),
+    ])
+
+    expect(merged).toMatchObject({
+      status: "completed",
+      errorMessage: null,
+      keyChanges: ["Adds auth", "New UI"],
+      totalCost: 0.75,
+      executionTimeMs: 3000,
+    })
+    expect(merged.summary?.filesChanged).toBe(2)
+  })
+
+  test("mergeChunkResults should fail the review when a chunk failed", () => {
+    const merged = mergeChunkResults([chunk(0), chunk(1, { status: "failed", errorMessage: "Model timeout" })])
+    expect(merged.status).toBe("failed")
+    expect(merged.errorMessage).toBe("1 of 2 review chunks failed: #2 (Model timeout)")
+  })
+})
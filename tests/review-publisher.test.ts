@@ -0,0 +1,108 @@
+/**
+ * Review Publisher Tests
+ * Tests turning findings into a single batched GitHub review
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import {
+  buildReviewBody,
+  formatFindingBody,
+  getMaxPostAttempts,
+  selectPendingFindings,
+  toDraftReviewComments,
+} from "@/lib/review-publisher"
+
+type Finding = Parameters<typeof formatFindingBody>[0]
+
+const finding = (overrides: Partial<Finding> = {}): Finding => ({
+  filePath: "src/app.ts",
+  startLine: 10,
+  endLine: 12,
+  side: "RIGHT",
+  placement: "line",
+  lineSnapped: false,
+  severity: "high",
+  title: "Unchecked null",
+  message: "`user` may be null here.",
+  suggestion: "if (!user) return\nreturn user.name",
+  ...overrides,
+})
+
+describe("Review Publisher", () => {
+  test("should render suggestions as suggestion blocks", () => {
+    const body = formatFindingBody(finding())
+    expect(body).toContain("🟠 **Unchecked null**")
+    expect(body).toContain("```suggestion\nif (!user) return\nreturn user.name\n```")
+  })
+
+  test("should not offer one-click suggestions on lines moved onto the diff", () => {
+    const body = formatFindingBody(finding({ lineSnapped: true }))
+    expect(body).not.toContain("```suggestion")
+    expect(body).toContain("**Suggested fix:**")
+  })
+
+  test("should use a longer fence when the suggestion contains one", () => {
+    const body = formatFindingBody(finding({ suggestion: "const md = \"```\"" }))
+    expect(body).toContain("````suggestion\nconst md = \"```\"\n````")
+  })
+
+  test("should post multi-line findings with start_line and line", () => {
+    const { inline, files, other } = toDraftReviewComments([
+      finding(),
+      finding({ startLine: 5, endLine: 5 }),
+      finding({ placement: "file" }),
+      finding({ startLine: null, endLine: null }),
+    ])
+
+    expect(inline.map((c) => c.draft)).toEqual([
+      expect.objectContaining({ path: "src/app.ts", start_line: 10, line: 12, side: "RIGHT" }),
+      expect.not.objectContaining({ start_line: expect.anything() }),
+    ])
+    expect(files).toHaveLength(1)
+    expect(other).toHaveLength(1)
+  })
+
+  test("should post file-level findings as file comments without suggestion blocks", () => {
+    const { inline, files, other } = toDraftReviewComments([finding({ placement: "file", startLine: 40, endLine: 41 })])
+    expect(inline).toHaveLength(0)
+    expect(other).toHaveLength(0)
+    expect(files[0].draft.path).toBe("src/app.ts")
+    expect(files[0].draft.body).toContain("**Suggested fix:**")
+    expect(files[0].draft.body).not.toContain("```suggestion")
+  })
+
+  test("should list findings without a line in the review body", () => {
+    const body = buildReviewBody(2, [finding({ placement: "summary", filePath: "README.md", startLine: 3 })])
+    expect(body).toContain("GraphBug found 3 issues")
+    expect(body).toContain("**Unchecked null** (`README.md:3`)")
+  })
+
+  test("should read the posting attempt limit from the environment", () => {
+    const original = process.env.COMMENT_POST_MAX_ATTEMPTS
+    try {
+      delete process.env.COMMENT_POST_MAX_ATTEMPTS
+      expect(getMaxPostAttempts()).toBe(5)
+      process.env.COMMENT_POST_MAX_ATTEMPTS = "2"
+      expect(getMaxPostAttempts()).toBe(2)
+      process.env.COMMENT_POST_MAX_ATTEMPTS = "zero"
+      expect(getMaxPostAttempts()).toBe(5)
+    } finally {
+      if (original === undefined) delete process.env.COMMENT_POST_MAX_ATTEMPTS
+      else process.env.COMMENT_POST_MAX_ATTEMPTS = original
+    }
+  })
+
+  test("should only pick up unposted findings with attempts left", () => {
+    const pending = selectPendingFindings(
+      [
+        { id: "new", isPosted: false, postAttempts: 0 },
+        { id: "failed-once", isPosted: false, postAttempts: 1 },
+        { id: "given-up", isPosted: false, postAttempts: 3 },
+        { id: "posted", isPosted: true, postAttempts: 1 },
+      ],
+      3
+    )
+    expect(pending.map((f) => f.id)).toEqual(["new", "failed-once"])
+  })
+})
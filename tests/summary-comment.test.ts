@@ -0,0 +1,168 @@
+/**
+ * Summary Comment Tests
+ * Tests the in-place summary comment and its history across review versions
+ */
+
+import { beforeAll, describe, test, expect, jest } from "@jest/globals"
+
+import { formatDelta, formatSkippedFiles, formatSummaryComment, formatSummaryHistory } from "@/lib/summary-comment"
+
+const summary = (overallScore: number, issuesFound: number, high = 0) => ({
+  overallScore,
+  filesChanged: 4,
+  issuesFound,
+  critical: 0,
+  high,
+  medium: issuesFound - high,
+  low: 0,
+  info: 0,
+})
+
+const history = [
+  { reviewVersion: 1, headCommitSha: "aaaaaaa1111", summary: summary(70, 5, 2) },
+  { reviewVersion: 2, headCommitSha: "bbbbbbb2222", summary: null },
+  { reviewVersion: 3, headCommitSha: "ccccccc3333", summary: summary(82, 2, 1) },
+]
+
+const review = {
+  id: "review-3",
+  reviewVersion: 3,
+  headCommitSha: "ccccccc3333",
+  summary: summary(82, 2, 1),
+  keyChanges: ["Adds rate limiting"],
+  recommendations: null,
+  positives: ["Good test coverage"],
+  skippedFiles: null,
+}
+
+describe("Summary Comment", () => {
+  test("should format signed deltas", () => {
+    expect(formatDelta(82, 70)).toBe("+12")
+    expect(formatDelta(2, 5)).toBe("−3")
+    expect(formatDelta(4, 4)).toBe("±0")
+  })
+
+  test("should compare the score and issues with the previous version", () => {
+    const body = formatSummaryComment(review, history)
+    expect(body).toContain("**Score:** 82/100 (+12) · **Issues:** 2 (−3)")
+    expect(body).toContain("### Key changes\n- Adds rate limiting")
+    expect(body).toContain("### What looks good\n- Good test coverage")
+    expect(body).not.toContain("### Recommendations")
+    expect(body).toContain("Updated for `ccccccc`")
+  })
+
+  test("should list versions newest first in a collapsible history", () => {
+    const table = formatSummaryHistory(history)
+    expect(table).toMatch(/^<details>\n<summary>Review history \(2 versions\)<\/summary>/)
+    expect(table.indexOf("| v3 |")).toBeLessThan(table.indexOf("| v1 |"))
+    expect(table).toContain("| v3 | `ccccccc` | 82 (+12) | 2 (−3) | 0 | 1 |")
+    expect(table).toContain("| v1 | `aaaaaaa` | 70 | 5 | 0 | 2 |")
+  })
+
+  test("should leave out the history on the first version", () => {
+    const body = formatSummaryComment({ ...review, reviewVersion: 1 }, history.slice(0, 1))
+    expect(body).not.toContain("<details>")
+    expect(body).toContain("**Score:** 82/100 · **Issues:** 2")
+  })
+  test("should list skipped files with their reasons", () => {
+    const skippedFiles = [
+      { filename: "gen/api.pb.go", reason: "linguist-generated" },
+      { filename: "logo.png", reason: "binary" },
+    ]
+    expect(formatSkippedFiles([])).toBe("")
+    const body = formatSummaryComment({ ...review, reviewVersion: 1, skippedFiles }, history.slice(0, 1))
+    expect(body).toContain("<summary>Files not reviewed (2)</summary>")
+    expect(body).toContain("- `gen/api.pb.go` — `linguist-generated` in .gitattributes")
+    expect(body).toContain("- `logo.png` — binary file")
+  })
+})
+
+// In-memory stand-ins for the review row and the GitHub comments the job writes
+const store: { review: Record<string, unknown> | null; comments: Array<{ severity: string }> } = {
+  review: null,
+  comments: [],
+}
+const github = {
+  postPRComment: jest.fn<(...args: unknown[]) => Promise<{ id: number; html_url: string }>>(),
+  updateComment: jest.fn<(...args: unknown[]) => Promise<unknown>>(),
+}
+
+describe("Summary Comment Job", () => {
+  let publishSummaryCommentJob: (job: { reviewId: string }) => Promise<void>
+
+  beforeAll(async () => {
+    jest.resetModules()
+    jest.doMock("@/db/schema", () => {
+      // Query builder resolving to no rows: no earlier versions or summary comments
+      const query: Record<string, unknown> = {}
+      for (const method of ["from", "where", "orderBy", "limit"]) query[method] = () => query
+      query.then = (resolve: (rows: unknown[]) => unknown) => resolve([])
+      return { db: { select: () => query }, codeReviews: {} }
+    })
+
+    jest.doMock("@/db/queries", () => ({
+      getCodeReviewWithDetails: async () => ({ ...store.review, comments: store.comments }),
+      getRepositorySettings: async () => null,
+      updateCodeReview: async (_id: string, update: Record<string, unknown>) => {
+        store.review = { ...store.review, ...update }
+        return store.review
+      },
+    }))
+
+    jest.doMock("@/lib/github-pr", () => ({
+      GitHubAPIClient: jest.fn(() => github),
+      parseRepoFullName: (fullName: string) => {
+        const [owner, repo] = fullName.split("/")
+        return { owner, repo }
+      },
+    }))
+
+    ;({ publishSummaryCommentJob } = await import("@/lib/summary-comment"))
+  })
+
+  test("should edit its own comment when a finding arrives after it ran", async () => {
+    store.review = {
+      ...review,
+      pullRequestId: "pr-1",
+      status: "completed",
+      summary: summary(82, 1, 1),
+      summaryCommentId: null,
+      summaryCommentPublished: false,
+      repoConfig: null,
+      pullRequest: {
+        prNumber: 7,
+        htmlUrl: "https://github.com/acme/api/pull/7",
+        repository: { id: "repo-1", fullName: "acme/api", installation: { installationId: 1 } },
+      },
+    }
+    store.comments = [{ severity: "high" }]
+    github.postPRComment.mockImplementation(async () => ({
+      id: 555,
+      html_url: "https://github.com/acme/api/pull/7#issuecomment-555",
+    }))
+    github.updateComment.mockImplementation(async () => ({}))
+
+    await publishSummaryCommentJob({ reviewId: "review-3" })
+    expect(github.postPRComment).toHaveBeenCalledTimes(1)
+    expect(github.postPRComment.mock.calls[0][3]).toContain("**Issues:** 1")
+
+    store.comments = [{ severity: "high" }, { severity: "medium" }]
+    await publishSummaryCommentJob({ reviewId: "review-3" })
+
+    expect(github.postPRComment).toHaveBeenCalledTimes(1)
+    expect(github.updateComment).toHaveBeenCalledTimes(1)
+    expect(github.updateComment.mock.calls[0][2]).toBe(555)
+    expect(github.updateComment.mock.calls[0][3]).toContain("**Issues:** 2")
+  })
+
+  test("should leave a summary comment the ai-service posted alone", async () => {
+    store.review = { ...store.review, summaryCommentId: 900, summaryCommentPublished: false }
+    github.postPRComment.mockClear()
+    github.updateComment.mockClear()
+
+    await publishSummaryCommentJob({ reviewId: "review-3" })
+
+    expect(github.postPRComment).not.toHaveBeenCalled()
+    expect(github.updateComment).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Symbol Scope Tests
+ * Tests resolving the class, function or method around changed lines
+ */
+
+import { describe, test, expect } from "@jest/globals"
+
+import {
+  findEnclosingSymbol,
+  findSymbols,
+  getChangedHeadLines,
+  resolveEnclosingSymbols,
+  supportsScopeAnalysis,
+} from "@/lib/symbol-scopes"
+import { parseDiff } from "@/lib/diff-parser"
+
+const outline = (content: string, language: string) =>
+  findSymbols(content, language).map((s) => [s.qualifiedName, s.kind, s.startLine, s.endLine])
+
+describe("Symbol Scopes", () => {
+  test("finds classes, methods and functions in TypeScript", () => {
+    const content = `import { db } from "./db"
+
+export class UserService {
+  private cache = new Map<string, string>()
+
+  async getUser(id: string): Promise<User> {
+    // a stray } in a comment
+    return { id, name: "}" }
+  }
+
+  handle = async (event: Event) => {
+    console.log(\`\${event.type} {\`)
+  }
+
+  abstract reset(): void;
+}
+
+export const load = async (
+  id: string,
+) => {
+  return db.find(id)
+}`
+    expect(outline(content, "typescript")).toEqual([
+      ["UserService", "class", 3, 16],
+      ["UserService.getUser", "method", 6, 9],
+      ["UserService.handle", "method", 11, 13],
+      ["load", "function", 18, 22],
+    ])
+  })
+
+  test("uses indentation for Python", () => {
+    const content = `class Repo:
+    """Docstring with def fake():
+    """
+
+    def get(self, key,
+    default=None):
+        return key
+
+    async def close(self):
+        pass
+
+def main():
+    # def not_a_function():
+    return Repo()
+`
+    expect(outline(content, "python")).toEqual([
+      ["Repo", "class", 1, 10],
+      ["Repo.get", "method", 5, 7],
+      ["Repo.close", "method", 9, 10],
+      ["main", "function", 12, 14],
+    ])
+  })
+
+  test("qualifies Go methods by their receiver", () => {
+    const content = "type Server struct {\n\tName string `json:\"name\"`\n}\n\nfunc (s *Server) Handle() error {\n\treturn nil\n}\n\nfunc main() {\n}\n"
+    expect(outline(content, "go")).toEqual([
+      ["Server", "class", 1, 3],
+      ["Server.Handle", "method", 5, 7],
+      ["main", "function", 9, 10],
+    ])
+  })
+
+  test("handles Java signatures and abstract methods", () => {
+    const content = `public class App extends Base {
+  @Override
+  public static <T> List<T> run(String[] args) throws IOException {
+    if (args.length == 0) { }
+  }
+
+  abstract void reset();
+
+  public App() {
+  }
+}`
+    expect(outline(content, "java")).toEqual([
+      ["App", "class", 1, 11],
+      ["App.run", "method", 3, 5],
+      ["App.App", "method", 9, 10],
+    ])
+  })
+
+  test("handles Rust impl blocks, lifetimes and where clauses", () => {
+    const content = `impl<'a> Display for Point<'a> {
+    fn fmt(&self, f: &mut Formatter) -> Result
+    where
+        T: Clone,
+    {
+        let open = '{';
+        Ok(())
+    }
+}
+
+pub async fn main() {
+}`
+    expect(outline(content, "rust")).toEqual([
+      ["Point", "class", 1, 9],
+      ["Point::fmt", "method", 2, 8],
+      ["main", "function", 11, 12],
+    ])
+  })
+
+  test("findEnclosingSymbol returns the innermost symbol", () => {
+    const symbols = findSymbols("class A {\n  run() {\n    go()\n  }\n}\nconst x = 1", "typescript")
+    expect(findEnclosingSymbol(symbols, 3)?.qualifiedName).toBe("A.run")
+    expect(findEnclosingSymbol(symbols, 5)?.qualifiedName).toBe("A")
+    expect(findEnclosingSymbol(symbols, 6)).toBeNull()
+  })
+
+  test("getChangedHeadLines places deletions on the following head line", () => {
+    const [diff] = parseDiff(`diff --git a/a.py b/a.py
+--- a/a.py
++++ b/a.py
+@@ -1,5 +1,4 @@
+ def f():
+-    x = 1
+     return x
+ def g():
+-    pass
++    return 2`)
+    expect(getChangedHeadLines(diff)).toEqual([2, 4])
+  })
+
+  test("resolveEnclosingSymbols groups changed lines by symbol", () => {
+    const content = "import os\n\ndef f():\n    return 1\n\ndef g():\n    return 2\n"
+    expect(resolveEnclosingSymbols(content, "python", [1, 4, 6, 7])).toEqual([
+      { name: "f", kind: "function", startLine: 3, endLine: 4, changedLines: [4] },
+      { name: "g", kind: "function", startLine: 6, endLine: 7, changedLines: [6, 7] },
+    ])
+  })
+
+  test("skips languages it doesn't know", () => {
+    expect(supportsScopeAnalysis("ruby")).toBe(false)
+    expect(supportsScopeAnalysis("TypeScript")).toBe(true)
+    expect(findSymbols("def foo\nend", "ruby")).toEqual([])
+  })
+})